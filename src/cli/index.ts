@@ -6,13 +6,20 @@
 // Commands:
 //   npx @agentcms/agentcms init               — Set up KV namespace + wrangler config
 //   npx @agentcms/agentcms keygen --name X    — Generate an agent API key
+//   npx @agentcms/agentcms keys list          — List, inspect, revoke, rotate and limit keys
 //   npx @agentcms/agentcms seed               — Add sample blog posts
 //   npx @agentcms/agentcms migrate            — Bulk-import HTML posts into Cloudflare KV
+//   npx @agentcms/agentcms reindex            — Rebuild the post index from stored posts
+//   npx @agentcms/agentcms export             — Back up a site to a JSONL archive
+//   npx @agentcms/agentcms import --file X    — Restore a site from a JSONL archive
 // ============================================================================
 
 import { readFileSync } from "node:fs";
-import { generateApiKey, slugify, calculateReadingTime, generateDescription } from "../utils/content.js";
-import { hashApiKey, KEYS, kvKeys } from "../utils/kv.js";
+import { slugify, calculateReadingTime, generateDescription } from "../utils/content.js";
+import { KEYS, kvKeys, buildIndexShards, indexEntryFromPost } from "../utils/kv.js";
+import { isValidCidr } from "../utils/ip.js";
+import type { AgentKeyRecord, RateLimitOperation } from "../types.js";
+import type { KVRestConfig } from "./kv-api.js";
 
 const args = process.argv.slice(2);
 const command = args[0];
@@ -48,6 +55,252 @@ function resolveCliPrefix(): string | undefined {
   return undefined;
 }
 
+/**
+ * Resolve the key hashing pepper: AGENTCMS_KEY_PEPPER env > AGENTCMS_KEY_PEPPER
+ * in .dev.vars (what `wrangler dev` uses), the latter only for local KV. There
+ * is no flag, so the secret stays out of shell history. Returns undefined when
+ * none is set.
+ */
+function resolveCliPepper(local: boolean): string | undefined {
+  if (process.env.AGENTCMS_KEY_PEPPER) return process.env.AGENTCMS_KEY_PEPPER;
+  if (!local) return undefined;
+  try {
+    const text = readFileSync(".dev.vars", "utf-8");
+    const m = text.match(/^\s*AGENTCMS_KEY_PEPPER\s*=\s*"?([^"\r\n]+)"?\s*$/m);
+    if (m) return m[1];
+  } catch {
+    // no .dev.vars
+  }
+  return undefined;
+}
+
+/**
+ * Read the AGENTCMS_KV namespace id from the wrangler config — `id`, or
+ * `preview_id` when preview is set. Returns undefined when there is no
+ * config or binding.
+ */
+function wranglerNamespaceId(preview: boolean): string | undefined {
+  const field = preview ? "preview_id" : "id";
+  for (const file of ["wrangler.toml", "wrangler.jsonc", "wrangler.json"]) {
+    let text: string;
+    try {
+      text = readFileSync(file, "utf-8");
+    } catch {
+      continue;
+    }
+    // TOML: one [[kv_namespaces]] table per binding; JSON: one object per binding
+    const blocks = file.endsWith(".toml")
+      ? text.split(/^\s*\[\[kv_namespaces\]\]/m).slice(1)
+      : (text.match(/\{[^{}]*"binding"\s*:\s*"AGENTCMS_KV"[^{}]*\}/g) ?? []);
+    for (const block of blocks) {
+      const table = block.split(/^\s*\[/m)[0];
+      if (!/binding"?\s*[:=]\s*"AGENTCMS_KV"/.test(table)) continue;
+      const m = table.match(new RegExp(`(?:^|[\\s,{"])${field}"?\\s*[:=]\\s*"([^"]+)"`));
+      if (m) return m[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve Cloudflare REST credentials for commands that talk to KV without
+ * wrangler. Flags win over CLOUDFLARE_ACCOUNT_ID / CLOUDFLARE_API_TOKEN /
+ * AGENTCMS_KV_NAMESPACE_ID; the namespace falls back to the AGENTCMS_KV
+ * binding in the wrangler config (its preview_id with --preview). Exits when
+ * any is missing.
+ */
+function resolveRestConfig(): KVRestConfig {
+  const accountId = getFlag("account-id") || process.env.CLOUDFLARE_ACCOUNT_ID;
+  const apiToken = getFlag("api-token") || process.env.CLOUDFLARE_API_TOKEN;
+  const namespaceId =
+    getFlag("namespace-id") ||
+    process.env.AGENTCMS_KV_NAMESPACE_ID ||
+    wranglerNamespaceId(hasFlag("preview"));
+
+  if (!accountId || !apiToken || !namespaceId) {
+    console.error("  Error: Cloudflare REST credentials are required:");
+    console.error("    --account-id <id>     or CLOUDFLARE_ACCOUNT_ID");
+    console.error("    --api-token <token>   or CLOUDFLARE_API_TOKEN");
+    console.error("    --namespace-id <id>   or AGENTCMS_KV_NAMESPACE_ID (or an AGENTCMS_KV binding in wrangler.toml)");
+    process.exit(1);
+  }
+
+  return { accountId, apiToken, namespaceId };
+}
+
+async function runReindex() {
+  const { restStorage } = await import("./kv-api.js");
+  const { rebuildIndex } = await import("../utils/reindex.js");
+
+  const dryRun = hasFlag("dry-run");
+  const prefix = resolveCliPrefix();
+  const config = resolveRestConfig();
+
+  console.log("");
+  console.log("  🔎 AgentCMS Reindex");
+  console.log("  ───────────────────");
+  console.log(`  KV:        ${config.namespaceId}`);
+  if (prefix) {
+    console.log(`  Prefix:    ${prefix}`);
+  }
+  console.log(`  Dry run:   ${dryRun}`);
+  console.log("");
+
+  const report = await rebuildIndex(restStorage(config), { dryRun, prefix });
+
+  console.log(`  Scanned:    ${report.scanned} posts`);
+  console.log(`  Indexed:    ${report.indexed} published posts`);
+  console.log(`  Orphans:    ${report.orphans.length}`);
+  for (const slug of report.orphans) console.log(`    - ${slug}`);
+  console.log(`  Missing:    ${report.missing.length}`);
+  for (const slug of report.missing) console.log(`    + ${slug}`);
+  console.log(`  Mismatched: ${report.mismatches.length}`);
+  for (const { slug, fields } of report.mismatches) {
+    console.log(`    ~ ${slug} (${fields.join(", ")})`);
+  }
+  console.log("");
+
+  if (dryRun) {
+    console.log("  ✅ Dry run complete — index not modified.");
+  } else {
+    console.log(`  ✅ Index rebuilt with ${report.indexed} entries.`);
+  }
+  console.log("");
+}
+
+/** R2 bucket for archived images, when --images is set. Exits without a bucket name. */
+function resolveImageBucket(): string | undefined {
+  if (!hasFlag("images")) return undefined;
+  const bucket = getFlag("bucket") || process.env.AGENTCMS_R2_BUCKET;
+  if (!bucket) {
+    console.error("  Error: --images needs --bucket <name> (or AGENTCMS_R2_BUCKET)");
+    process.exit(1);
+  }
+  return bucket;
+}
+
+async function runExport() {
+  const { createWriteStream } = await import("node:fs");
+  const { once } = await import("node:events");
+  const { restStorage, restImageStore } = await import("./kv-api.js");
+  const { exportArchive } = await import("../utils/backup.js");
+
+  const prefix = resolveCliPrefix();
+  const config = resolveRestConfig();
+  const bucket = resolveImageBucket();
+  const includeSecrets = hasFlag("include-secrets");
+  const out = getFlag("out") || `agentcms-export-${new Date().toISOString().slice(0, 10)}.jsonl`;
+
+  console.log("");
+  console.log("  💾 AgentCMS Export");
+  console.log("  ──────────────────");
+  console.log(`  KV:        ${config.namespaceId}`);
+  if (prefix) {
+    console.log(`  Prefix:    ${prefix}`);
+  }
+  console.log(`  Images:    ${bucket ?? "not included"}`);
+  console.log(`  Secrets:   ${includeSecrets ? "included" : "not included"}`);
+  console.log(`  Output:    ${out}`);
+  console.log("");
+
+  const counts: Record<string, number> = {};
+  const stream = createWriteStream(out, { encoding: "utf-8" });
+  const images = bucket ? restImageStore({ ...config, bucket }) : undefined;
+  for await (const record of exportArchive(restStorage(config), {
+    prefix,
+    images,
+    includeSecrets,
+  })) {
+    counts[record.type] = (counts[record.type] ?? 0) + 1;
+    if (!stream.write(`${JSON.stringify(record)}\n`)) await once(stream, "drain");
+  }
+  stream.end();
+  await once(stream, "finish");
+
+  console.log(`  Posts:     ${counts.post ?? 0}`);
+  console.log(`  Drafts:    ${counts.draft ?? 0}`);
+  console.log(`  Redirects: ${counts.redirect ?? 0}`);
+  console.log(`  Trash:     ${counts.trash ?? 0}`);
+  console.log(`  Histories: ${counts.revisions ?? 0}`);
+  console.log(`  Config:    ${counts.config ? "yes" : "none"}`);
+  console.log(`  Keys:      ${counts.agent ?? 0}`);
+  if (bucket) {
+    console.log(`  Images:    ${counts.image ?? 0}`);
+  }
+  console.log("");
+  console.log(`  ✅ Archive written to ${out}`);
+  if (includeSecrets) {
+    console.log("  ⚠️  It holds plaintext signing secrets — store it like one.");
+  }
+  console.log("");
+}
+
+async function runImport() {
+  const { readFile } = await import("node:fs/promises");
+  const { restStorage, restImageStore } = await import("./kv-api.js");
+  const { parseArchive, importArchive } = await import("../utils/backup.js");
+
+  const file = getFlag("file");
+  if (!file) {
+    console.error("  Error: --file <archive.jsonl> is required");
+    process.exit(1);
+  }
+  const onConflict = getFlag("on-conflict") || "skip";
+  if (onConflict !== "skip" && onConflict !== "overwrite" && onConflict !== "rename") {
+    console.error("  Error: --on-conflict must be skip, overwrite or rename");
+    process.exit(1);
+  }
+
+  const dryRun = hasFlag("dry-run");
+  const prefix = resolveCliPrefix();
+  const config = resolveRestConfig();
+  const bucket = resolveImageBucket();
+  const records = parseArchive(await readFile(file, "utf-8"));
+  const header = records[0].type === "header" ? records[0] : undefined;
+
+  console.log("");
+  console.log("  📥 AgentCMS Import");
+  console.log("  ──────────────────");
+  console.log(`  Archive:   ${file} (exported ${header?.exportedAt ?? "unknown"})`);
+  console.log(`  KV:        ${config.namespaceId}`);
+  if (prefix) {
+    console.log(`  Prefix:    ${prefix}`);
+  }
+  console.log(`  Conflicts: ${onConflict}`);
+  console.log(`  Images:    ${bucket ?? "not restored"}`);
+  console.log(`  Dry run:   ${dryRun}`);
+  console.log("");
+
+  const report = await importArchive(restStorage(config), records, {
+    prefix,
+    onConflict,
+    dryRun,
+    images: bucket ? restImageStore({ ...config, bucket }) : undefined,
+  });
+
+  console.log(`  Imported:  ${report.imported.length} posts`);
+  console.log(`  Renamed:   ${report.renamed.length}`);
+  for (const { from, to } of report.renamed) console.log(`    ${from} → ${to}`);
+  console.log(`  Skipped:   ${report.skipped.length}`);
+  for (const slug of report.skipped) console.log(`    - ${slug}`);
+  console.log(`  Redirects: ${report.redirects.imported} imported, ${report.redirects.skipped} skipped`);
+  console.log(`  Trash:     ${report.trash.imported} imported, ${report.trash.skipped} skipped`);
+  console.log(`  Histories: ${report.revisions.imported} imported, ${report.revisions.skipped} skipped`);
+  console.log(`  Config:    ${report.config}`);
+  console.log(`  Keys:      ${report.agents.imported} imported, ${report.agents.skipped} skipped`);
+  if (bucket) {
+    console.log(`  Images:    ${report.images}`);
+  }
+  console.log("");
+
+  if (dryRun) {
+    console.log("  ✅ Dry run complete — nothing written.");
+  } else {
+    console.log("  ✅ Import complete.");
+  }
+  console.log("");
+}
+
 async function runMigrate() {
   const { readdir, readFile, writeFile, mkdtemp, rm } = await import("node:fs/promises");
   const { join, basename } = await import("node:path");
@@ -164,27 +417,14 @@ async function runMigrate() {
     value: JSON.stringify(post),
   }));
 
-  // Build index
-  const indexEntry = {
-    posts: validPosts.map((post) => ({
-      slug: post.slug,
-      title: post.title,
-      description: post.description,
-      publishedAt: post.publishedAt,
-      tags: post.tags,
-      category: post.category,
-      author: post.author,
-      authorType: post.authorType,
-      featuredImage: post.featuredImage,
-      featured: post.featured,
-    })),
-    totalCount: validPosts.length,
-    lastUpdated: new Date().toISOString(),
-  };
-
+  // Build the sharded index (manifest + shards)
+  const { manifest, shards } = buildIndexShards(validPosts.map(indexEntryFromPost));
+  shards.forEach((shard, n) => {
+    kvEntries.push({ key: keys.indexShard(n), value: JSON.stringify(shard) });
+  });
   kvEntries.push({
     key: keys.index,
-    value: JSON.stringify(indexEntry),
+    value: JSON.stringify(manifest),
   });
 
   // Resolve or create KV namespace
@@ -251,6 +491,220 @@ async function runMigrate() {
   }
 }
 
+/**
+ * --expires: an ISO date or datetime, or a duration from now such as 30d,
+ * 12h or 90m. Exits on anything else or on a time in the past.
+ */
+function parseExpiry(value: string | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  const units = { d: 86_400_000, h: 3_600_000, m: 60_000 };
+  const relative = value.match(/^(\d+)([dhm])$/);
+  const time = relative
+    ? Date.now() + Number(relative[1]) * units[relative[2] as keyof typeof units]
+    : Date.parse(value);
+  if (!Number.isFinite(time) || time <= Date.now()) {
+    console.error("  Error: --expires must be a future ISO date or a duration like 30d, 12h or 90m");
+    process.exit(1);
+  }
+  return new Date(time).toISOString();
+}
+
+/** --allow-ip: comma-separated addresses or CIDR ranges. Exits on an invalid entry. */
+function parseAllowedIps(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  const ranges = value.split(",").map((r) => r.trim()).filter(Boolean);
+  const invalid = ranges.filter((r) => !isValidCidr(r));
+  if (ranges.length === 0 || invalid.length > 0) {
+    console.error(`  Error: --allow-ip has invalid entries: ${invalid.join(", ") || "(none given)"}`);
+    process.exit(1);
+  }
+  return ranges;
+}
+
+/**
+ * Find one key by name or by a keyHash prefix (at least 6 characters, as
+ * printed by `keys list`). Exits when nothing or more than one key matches.
+ */
+function findKey(records: AgentKeyRecord[], ref: string | undefined): AgentKeyRecord {
+  if (!ref) {
+    console.error("  Error: pass a key name or keyHash prefix");
+    process.exit(1);
+  }
+  // A rotated-out key keeps its name until it expires; prefer its replacement
+  const named = records.filter((r) => r.name === ref);
+  const byName = named.length > 1 ? named.filter((r) => !r.rotatedTo) : named;
+  const matches =
+    byName.length > 0
+      ? byName
+      : /^[a-f0-9]{6,64}$/.test(ref)
+        ? records.filter((r) => r.keyHash.startsWith(ref))
+        : [];
+  if (matches.length === 0) {
+    console.error(`  Error: no key matches "${ref}"`);
+    process.exit(1);
+  }
+  if (matches.length > 1) {
+    console.error(`  Error: "${ref}" matches ${matches.length} keys; use a longer keyHash prefix:`);
+    for (const r of matches) console.error(`    ${r.keyHash.slice(0, 12)}  ${r.name}`);
+    process.exit(1);
+  }
+  return matches[0];
+}
+
+function parseCount(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) {
+    console.error(`  Error: ${flag} must be a whole number`);
+    process.exit(1);
+  }
+  return n;
+}
+
+/** Days since the key was last used (or created, if never used). */
+function idleDays(record: AgentKeyRecord, now: number): number {
+  return Math.floor((now - Date.parse(record.lastUsedAt ?? record.createdAt)) / 86_400_000);
+}
+
+async function runKeys() {
+  const { restStorage } = await import("./kv-api.js");
+  const { listAgentKeys, putAgentKey, revokeAgentKey } = await import("../utils/kv.js");
+  const { describeAgentKey, rotateAgentKey, DEFAULT_ROTATION_GRACE_SECONDS, MAX_ROTATION_GRACE_SECONDS } =
+    await import("../utils/keys.js");
+
+  const sub = args[1];
+  const ref = args[2]?.startsWith("--") ? undefined : args[2];
+  if (!["list", "show", "revoke", "rotate", "set-limit"].includes(sub)) {
+    console.error("  Error: usage: agentcms keys list|show|revoke|rotate|set-limit");
+    process.exit(1);
+  }
+
+  const prefix = resolveCliPrefix();
+  const config = resolveRestConfig();
+  const kv = restStorage(config);
+  const records = await listAgentKeys(kv, prefix);
+  const now = Date.now();
+
+  console.log("");
+  console.log("  🔑 AgentCMS Keys");
+  console.log("  ────────────────");
+  console.log(`  KV:        ${config.namespaceId}${hasFlag("preview") ? " (preview)" : ""}`);
+  if (prefix) {
+    console.log(`  Prefix:    ${prefix}`);
+  }
+  console.log("");
+
+  switch (sub) {
+    case "list": {
+      const idle = parseCount(getFlag("idle"), "--idle");
+      const shown = idle === undefined ? records : records.filter((r) => idleDays(r, now) >= idle);
+      if (shown.length === 0) {
+        console.log("  No keys found.");
+        console.log("");
+        return;
+      }
+      console.log("  KEY           NAME                  SCOPE       LIMIT/H  LAST USED");
+      for (const r of shown) {
+        const lastUsed = r.lastUsedAt
+          ? `${r.lastUsedAt.slice(0, 16).replace("T", " ")} (${idleDays(r, now)}d ago)`
+          : "never";
+        const expiry = r.expiresAt ? `  expires ${r.expiresAt.slice(0, 16).replace("T", " ")}` : "";
+        console.log(
+          `  ${r.keyHash.slice(0, 12)}  ${r.name.padEnd(20).slice(0, 20)}  ${r.scope.padEnd(10)}  ${String(r.rateLimit).padStart(7)}  ${lastUsed}${expiry}`
+        );
+      }
+      console.log("");
+      console.log(`  ${shown.length} of ${records.length} keys`);
+      console.log("");
+      return;
+    }
+
+    case "show": {
+      const record = findKey(records, ref);
+      console.log(JSON.stringify(describeAgentKey(record), null, 2).replace(/^/gm, "  "));
+      console.log("");
+      return;
+    }
+
+    case "revoke": {
+      const record = findKey(records, ref);
+      await revokeAgentKey(kv, record.keyHash, prefix);
+      console.log(`  ✅ Revoked ${record.name} (${record.keyHash.slice(0, 12)})`);
+      console.log("");
+      return;
+    }
+
+    case "rotate": {
+      const record = findKey(records, ref);
+      if (record.rotatedTo) {
+        console.error(`  Error: ${record.name} was already rotated to ${record.rotatedTo.slice(0, 12)}`);
+        process.exit(1);
+      }
+      const grace = parseCount(getFlag("grace"), "--grace") ?? DEFAULT_ROTATION_GRACE_SECONDS;
+      if (grace > MAX_ROTATION_GRACE_SECONDS) {
+        console.error(`  Error: --grace is at most ${MAX_ROTATION_GRACE_SECONDS} seconds`);
+        process.exit(1);
+      }
+      const rotated = await rotateAgentKey(kv, record, grace, prefix, resolveCliPepper(false));
+      console.log(`  Name:      ${record.name}`);
+      console.log(`  Old key:   ${record.keyHash.slice(0, 12)} — ${grace === 0 ? "revoked" : `valid until ${rotated.expiresAt}`}`);
+      console.log(`  New key:   ${rotated.record.keyHash.slice(0, 12)}`);
+      console.log("");
+      console.log(`  Key:    ${rotated.apiKey}`);
+      if (rotated.signingSecret) {
+        console.log(`  Signing secret: ${rotated.signingSecret}`);
+      }
+      console.log("");
+      console.log("  ⚠️  Save this key now — it cannot be recovered.");
+      console.log("");
+      return;
+    }
+
+    case "set-limit": {
+      const record = findKey(records, ref);
+      const rateLimit = parseCount(getFlag("rate-limit"), "--rate-limit");
+      const op = getFlag("op") as RateLimitOperation | undefined;
+      if (rateLimit === undefined && !op) {
+        console.error("  Error: pass --rate-limit <n>, or --op <operation> with --per-hour/--per-day");
+        process.exit(1);
+      }
+      if (rateLimit === 0) {
+        console.error("  Error: --rate-limit must be at least 1");
+        process.exit(1);
+      }
+      if (op && !["read", "publish", "update", "delete", "upload"].includes(op)) {
+        console.error("  Error: --op must be read, publish, update, delete or upload");
+        process.exit(1);
+      }
+
+      const updated: AgentKeyRecord = { ...record };
+      if (rateLimit !== undefined) updated.rateLimit = rateLimit;
+      if (op) {
+        // 0 clears that window's override
+        const limit = { ...record.quotas?.[op] };
+        const windows = [["perHour", "per-hour"], ["perDay", "per-day"]] as const;
+        for (const [window, flag] of windows) {
+          const value = parseCount(getFlag(flag), `--${flag}`);
+          if (value === 0) delete limit[window];
+          else if (value !== undefined) limit[window] = value;
+        }
+        updated.quotas = { ...record.quotas, [op]: limit };
+      }
+
+      await putAgentKey(kv, updated, prefix);
+      console.log(`  Name:      ${updated.name}`);
+      console.log(`  Limit:     ${updated.rateLimit}/hour`);
+      if (updated.quotas) {
+        console.log(`  Quotas:    ${JSON.stringify(updated.quotas)}`);
+      }
+      console.log("");
+      console.log("  ✅ Limits updated");
+      console.log("");
+      return;
+    }
+  }
+}
+
 async function main() {
   switch (command) {
     case "keygen": {
@@ -262,23 +716,40 @@ async function main() {
       const name = getFlag("name") || "default-agent";
       const scope = (getFlag("scope") || "publish") as "publish" | "draft-only" | "read-only" | "admin";
       const remote = hasFlag("remote");
-      const keyPrefix = scope === "draft-only" ? "acms_draft" as const : "acms_live" as const;
 
-      const apiKey = generateApiKey(keyPrefix);
-      const keyHash = await hashApiKey(apiKey);
+      const expiresAt = parseExpiry(getFlag("expires"));
+      const allowedIps = parseAllowedIps(getFlag("allow-ip"));
+      const signing = hasFlag("signing");
+
+      // Keys are written in the peppered format; --legacy-hash is for
+      // deployments that have not set AGENTCMS_KEY_PEPPER yet
+      const pepper = resolveCliPepper(!remote);
+      if (!pepper && !hasFlag("legacy-hash")) {
+        console.error("  Error: AGENTCMS_KEY_PEPPER is not set.");
+        console.error("  Set the same secret the Worker uses, e.g.:");
+        console.error("    npx wrangler secret put AGENTCMS_KEY_PEPPER");
+        console.error(`    export AGENTCMS_KEY_PEPPER=<secret>${remote ? "" : "   (or add it to .dev.vars)"}`);
+        console.error("  or pass --legacy-hash to write an unpeppered key.");
+        process.exit(1);
+      }
+
+      const { issueAgentKey } = await import("../utils/keys.js");
+      const { apiKey, signingSecret, record } = await issueAgentKey({
+        name,
+        scope,
+        expiresAt,
+        allowedIps,
+        signing,
+        pepper,
+      });
+      const keyHash = record.keyHash;
       const remoteFlag = remote ? " --remote" : "";
 
       // Isolate the agent key under this site's prefix when sharing a KV namespace.
       const prefix = resolveCliPrefix();
       const kvKey = prefix ? kvKeys(prefix).agent(keyHash) : KEYS.agent(keyHash);
 
-      const keyRecord = JSON.stringify({
-        name,
-        keyHash,
-        scope,
-        createdAt: new Date().toISOString(),
-        rateLimit: 10,
-      });
+      const keyRecord = JSON.stringify(record);
 
       console.log("");
       console.log("  🔑 AgentCMS Key Generator");
@@ -289,6 +760,13 @@ async function main() {
       if (prefix) {
         console.log(`  Prefix: ${prefix}`);
       }
+      if (expiresAt) {
+        console.log(`  Expires: ${expiresAt}`);
+      }
+      if (allowedIps) {
+        console.log(`  IPs:    ${allowedIps.join(", ")}`);
+      }
+      console.log(`  Hash:   ${pepper ? "HMAC-SHA256 (peppered)" : "SHA-256 (legacy)"}`);
       console.log("");
 
       // Write key record to KV via wrangler. Pass the JSON through a temp file (--path)
@@ -319,6 +797,9 @@ async function main() {
 
       console.log("");
       console.log(`  Key:    ${apiKey}`);
+      if (signingSecret) {
+        console.log(`  Signing secret: ${signingSecret}`);
+      }
       console.log("");
       console.log("  ⚠️  Save this key now — it cannot be recovered.");
       console.log("");
@@ -417,6 +898,26 @@ async function main() {
       break;
     }
 
+    case "reindex": {
+      await runReindex();
+      break;
+    }
+
+    case "keys": {
+      await runKeys();
+      break;
+    }
+
+    case "export": {
+      await runExport();
+      break;
+    }
+
+    case "import": {
+      await runImport();
+      break;
+    }
+
     default:
       console.log("");
       console.log("  AgentCMS CLI");
@@ -424,8 +925,20 @@ async function main() {
       console.log("  Commands:");
       console.log("    init                       Set up KV namespace");
       console.log("    keygen --name <n> [--scope] [--remote] Generate API key");
+      console.log("      [--expires <date|30d>] [--allow-ip <cidr,...>]  Expiry and IP allowlist");
+      console.log("      [--signing]              Also issue a secret for HMAC-signed requests");
+      console.log("      [--legacy-hash]          Store a plain SHA-256 hash (no AGENTCMS_KEY_PEPPER)");
+      console.log("    keys list [--idle <days>]  List keys with last use");
+      console.log("    keys show <key>            Print a key record");
+      console.log("    keys revoke <key>          Revoke a key for good");
+      console.log("    keys rotate <key> [--grace <s>] New secret; old one works for --grace seconds (default 86400)");
+      console.log("    (keygen and keys rotate hash with AGENTCMS_KEY_PEPPER; local keygen also reads .dev.vars)");
+      console.log("    keys set-limit <key> --rate-limit <n> | --op <op> [--per-hour <n>] [--per-day <n>]");
       console.log("    seed                       Sample posts (KV commands)");
       console.log("    migrate                    Bulk-import HTML posts into KV");
+      console.log("    reindex [--dry-run]        Rebuild the post index from stored posts");
+      console.log("    export [--out <file>]      Back up posts, drafts, index, config and keys to JSONL");
+      console.log("    import --file <file>       Restore a JSONL archive");
       console.log("");
       console.log("  Migrate options:");
       console.log("    --source <dir>             Path to HTML files (required)");
@@ -442,6 +955,21 @@ async function main() {
       console.log('    --summary-selector <sel>   Summary/description element');
       console.log('    --author-selector <sel>    Author name element');
       console.log("");
+      console.log("  Export / import options:");
+      console.log("    --on-conflict <policy>     skip (default), overwrite or rename existing posts");
+      console.log("    --dry-run                  Report what import would write");
+      console.log("    --images --bucket <name>   Include linked R2 images (or AGENTCMS_R2_BUCKET)");
+      console.log("    --include-secrets          Keep keys' HMAC signing secrets in the export");
+      console.log("");
+      console.log("  <key> is a key name or a keyHash prefix from `keys list`.");
+      console.log("");
+      console.log("  Remote KV options (reindex, keys, export, import):");
+      console.log("    --account-id <id>          Cloudflare account (or CLOUDFLARE_ACCOUNT_ID)");
+      console.log("    --api-token <token>        API token with KV edit (or CLOUDFLARE_API_TOKEN)");
+      console.log("    --namespace-id <id>        KV namespace (or AGENTCMS_KV_NAMESPACE_ID, or wrangler.toml)");
+      console.log("    --preview                  Use the binding's preview_id from wrangler.toml");
+      console.log("    --prefix <prefix>          KV key prefix (or AGENTCMS_PREFIX)");
+      console.log("");
   }
 }
 
@@ -1,10 +1,14 @@
 // ============================================================================
 // AgentCMS — Cloudflare KV REST API
 //
-// Thin wrapper around the Cloudflare API for bulk KV writes.
-// Used by the `migrate` CLI command to push posts without wrangler.
+// Thin wrapper around the Cloudflare API for KV reads and writes.
+// Used by the CLI commands to read and write KV (and archived R2 images)
+// without wrangler.
 // ============================================================================
 
+import type { ArchiveImageStore } from "../utils/backup.js";
+import type { StorageAdapter } from "../utils/storage.js";
+
 export interface KVBulkEntry {
   key: string;
   value: string;
@@ -15,6 +19,16 @@ export interface KVWriteResult {
   errors: Array<{ code: number; message: string }>;
 }
 
+export interface KVRestConfig {
+  accountId: string;
+  namespaceId: string;
+  apiToken: string;
+}
+
+function namespaceUrl(config: KVRestConfig): string {
+  return `https://api.cloudflare.com/client/v4/accounts/${config.accountId}/storage/kv/namespaces/${config.namespaceId}`;
+}
+
 /**
  * Write key-value pairs in bulk to a Cloudflare KV namespace.
  * Uses PUT /accounts/{account_id}/storage/kv/namespaces/{namespace_id}/bulk
@@ -47,3 +61,109 @@ export async function kvBulkWrite(
     errors: data.errors || [],
   };
 }
+
+/**
+ * A StorageAdapter over the KV REST API, so the shared KV helpers (index,
+ * keys, revisions…) can run from the CLI against a remote namespace.
+ *
+ * Uses GET/PUT/DELETE …/values/{key} and GET …/keys?prefix=&cursor=.
+ */
+export function restStorage(config: KVRestConfig): StorageAdapter {
+  const base = namespaceUrl(config);
+  const auth = { Authorization: `Bearer ${config.apiToken}` };
+
+  async function fail(response: Response, action: string): Promise<never> {
+    const text = await response.text().catch(() => "");
+    throw new Error(`KV ${action} failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+
+  return {
+    get: (async (key: string, type?: "json") => {
+      const response = await fetch(`${base}/values/${encodeURIComponent(key)}`, {
+        headers: auth,
+      });
+      if (response.status === 404) return null;
+      if (!response.ok) await fail(response, `get "${key}"`);
+      const text = await response.text();
+      return type === "json" ? JSON.parse(text) : text;
+    }) as StorageAdapter["get"],
+
+    async put(key, value, options) {
+      const ttl = options?.expirationTtl
+        ? `?expiration_ttl=${Math.max(60, options.expirationTtl)}`
+        : "";
+      const response = await fetch(`${base}/values/${encodeURIComponent(key)}${ttl}`, {
+        method: "PUT",
+        headers: { ...auth, "Content-Type": "text/plain" },
+        body: value,
+      });
+      if (!response.ok) await fail(response, `put "${key}"`);
+    },
+
+    async delete(key) {
+      const response = await fetch(`${base}/values/${encodeURIComponent(key)}`, {
+        method: "DELETE",
+        headers: auth,
+      });
+      if (!response.ok && response.status !== 404) await fail(response, `delete "${key}"`);
+    },
+
+    async list({ prefix, limit = 1000, cursor } = {}) {
+      const params = new URLSearchParams({ limit: String(limit) });
+      if (prefix) params.set("prefix", prefix);
+      if (cursor) params.set("cursor", cursor);
+      const response = await fetch(`${base}/keys?${params}`, { headers: auth });
+      if (!response.ok) await fail(response, "list");
+
+      const data = (await response.json()) as {
+        result: Array<{ name: string; expiration?: number }>;
+        result_info?: { cursor?: string };
+      };
+      const next = data.result_info?.cursor || undefined;
+      return {
+        keys: data.result.map((k) => ({ name: k.name, expiration: k.expiration })),
+        list_complete: !next,
+        cursor: next,
+      };
+    },
+  };
+}
+
+/**
+ * Read and write R2 objects through the Cloudflare API, for archiving the
+ * images posts link to.
+ *
+ * Uses GET/PUT /accounts/{account_id}/r2/buckets/{bucket}/objects/{key}.
+ */
+export function restImageStore(
+  config: Pick<KVRestConfig, "accountId" | "apiToken"> & { bucket: string }
+): ArchiveImageStore {
+  const base = `https://api.cloudflare.com/client/v4/accounts/${config.accountId}/r2/buckets/${config.bucket}/objects`;
+  const auth = { Authorization: `Bearer ${config.apiToken}` };
+
+  return {
+    async get(key) {
+      const response = await fetch(`${base}/${encodeURIComponent(key)}`, { headers: auth });
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`R2 get "${key}" failed (${response.status})`);
+      }
+      return {
+        body: await response.arrayBuffer(),
+        contentType: response.headers.get("Content-Type") || "application/octet-stream",
+      };
+    },
+
+    async put(key, body, contentType) {
+      const response = await fetch(`${base}/${encodeURIComponent(key)}`, {
+        method: "PUT",
+        headers: { ...auth, "Content-Type": contentType },
+        body,
+      });
+      if (!response.ok) {
+        const text = await response.text().catch(() => "");
+        throw new Error(`R2 put "${key}" failed (${response.status}): ${text.slice(0, 200)}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { agentcmsMiddleware } from "./index.js";
+import type { AgentCMSEnv } from "../handlers/public.js";
+import type { AgentCMSPost } from "../types.js";
+import { kvKeys, putPost, putSite, updateIndex } from "../utils/kv.js";
+import { memoryStorage, type StorageAdapter } from "../utils/storage.js";
+
+function makePost(slug: string): AgentCMSPost {
+  return {
+    slug,
+    title: `Post ${slug}`,
+    description: "A test post",
+    content: "# Test\n\nHello world.",
+    author: "TestAgent",
+    authorType: "agent",
+    tags: ["test"],
+    publishedAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:00:00.000Z",
+    status: "published",
+    metadata: {},
+  };
+}
+
+async function registry(): Promise<StorageAdapter> {
+  const kv = memoryStorage();
+  for (const [hostname, prefix] of [["one.test", "one"], ["two.test", "two"]]) {
+    await putSite(kv, { hostname, prefix, createdAt: "2025-01-01T00:00:00.000Z" });
+    await putPost(kv, makePost(`${prefix}-post`), prefix);
+    await updateIndex(kv, makePost(`${prefix}-post`), "upsert", prefix);
+    await kv.put(kvKeys(prefix).config, JSON.stringify({ name: `Site ${prefix}` }));
+  }
+  return kv;
+}
+
+function call(
+  middleware: ReturnType<typeof agentcmsMiddleware>,
+  env: AgentCMSEnv,
+  url: string
+): Promise<Response> {
+  return middleware({
+    request: new Request(url),
+    env,
+    params: {},
+    next: async () => new Response("next"),
+  });
+}
+
+describe("agentcmsMiddleware({ sites: true })", () => {
+  it("serves each host from its registered prefix", async () => {
+    const env = { AGENTCMS_STORAGE: await registry() };
+    const middleware = agentcmsMiddleware({ sites: true });
+
+    const one = await call(middleware, env, "https://ONE.test:8443/api/posts");
+    const onePosts = ((await one.json()) as { posts: Array<{ slug: string }> }).posts;
+    expect(onePosts.map((p) => p.slug)).toEqual(["one-post"]);
+
+    const two = await call(middleware, env, "https://two.test/api/posts/two-post");
+    expect(two.status).toBe(200);
+    const crossSite = await call(middleware, env, "https://two.test/api/posts/one-post");
+    expect(crossSite.status).toBe(404);
+  });
+
+  it("resolves the skill, sitemap and feed from the host", async () => {
+    const env = { AGENTCMS_STORAGE: await registry() };
+    const middleware = agentcmsMiddleware({ sites: true });
+
+    const skill = await call(middleware, env, "https://two.test/.well-known/agent-skill.json");
+    expect(await skill.json()).toMatchObject({ name: "Site two", baseUrl: "https://two.test" });
+
+    const sitemap = await (await call(middleware, env, "https://one.test/sitemap.xml")).text();
+    expect(sitemap).toContain("https://one.test/blog/one-post");
+    expect(sitemap).not.toContain("two-post");
+
+    const feed = await (await call(middleware, env, "https://two.test/feed.xml")).text();
+    expect(feed).toContain("<title>Site two</title>");
+    expect(feed).toContain("https://two.test/blog/two-post");
+  });
+
+  it("answers 404 for AgentCMS routes on unknown hosts and passes the rest through", async () => {
+    const env = { AGENTCMS_STORAGE: await registry() };
+    const middleware = agentcmsMiddleware({ sites: true });
+
+    const unknown = await call(middleware, env, "https://three.test/api/posts");
+    expect(unknown.status).toBe(404);
+
+    const asset = await call(middleware, env, "https://three.test/style.css");
+    expect(await asset.text()).toBe("next");
+  });
+});
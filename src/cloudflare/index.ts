@@ -18,6 +18,9 @@ import {
   handleListTags,
   handleSitemap,
   handleRobotsTxt,
+  handleFeed,
+  handleGetImage,
+  getStorage,
 } from "../handlers/public.js";
 
 import {
@@ -26,13 +29,49 @@ import {
   handleAgentGetPost,
   handleAgentUpdatePost,
   handleAgentDeletePost,
+  handleRenamePost,
   handleAgentContext,
   handleAgentUpload,
   handleSkill,
 } from "../handlers/agent.js";
 
+import {
+  handleListRevisions,
+  handleGetRevision,
+  handleDiffRevisions,
+  handleRestoreRevision,
+} from "../handlers/revisions.js";
+
+import {
+  handleListDrafts,
+  handleGetDraft,
+  handleUpdateDraft,
+  handlePromoteDraft,
+} from "../handlers/drafts.js";
+
+import {
+  handleReindex,
+  handleListTrash,
+  handleRestoreFromTrash,
+  handleListRedirects,
+  handlePutRedirect,
+  handleDeleteRedirect,
+  handleListAudit,
+} from "../handlers/admin.js";
+import {
+  handleListKeys,
+  handleCreateKey,
+  handleUpdateKey,
+  handleRevokeKey,
+  handleRotateKey,
+} from "../handlers/keys.js";
+import { handleScheduled, handleGetSchedule } from "../handlers/schedule.js";
+
 import type { AgentCMSEnv } from "../handlers/public.js";
-import type { SitemapOptions, RobotsTxtOptions } from "../types.js";
+import type { SitemapOptions, RobotsTxtOptions, ContentTypeOptions } from "../types.js";
+import type { StorageAdapter } from "../utils/storage.js";
+import type { RssFeedOptions } from "../utils/sitemap.js";
+import { kvKeys, getSiteByHost } from "../utils/kv.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -47,17 +86,51 @@ export interface AgentCMSMiddlewareOptions {
   sitemap?: boolean | SitemapOptions;
   /** Enable robots.txt handler (default: true) */
   robots?: boolean | RobotsTxtOptions;
+  /** Enable /feed.xml RSS handler (default: true) */
+  feed?: boolean | RssFeedOptions;
   /** Enable /.well-known/agent-skill.json (default: true) */
   skillEndpoint?: boolean;
+  /**
+   * Storage adapter factory. Defaults to Workers KV via the AGENTCMS_KV
+   * binding. Example: `storage: (env) => d1Storage(env.AGENTCMS_DB)`.
+   */
+  storage?: (env: AgentCMSEnv & Record<string, unknown>) => StorageAdapter;
+  /**
+   * Publish due scheduled posts from request traffic, at most once a minute
+   * (default: false). Pages has no cron triggers; Workers projects should
+   * call handleScheduled from a `scheduled` handler instead.
+   */
+  scheduled?: boolean;
+  /**
+   * Serve several sites from one deployment (default: false). The request
+   * hostname is looked up in the site registry (sites:<hostname> in KV) and
+   * the matching site's prefix is used for everything: posts, config, keys,
+   * index and R2 images. AgentCMS routes on unregistered hosts answer 404.
+   * Also serves uploaded images at /images/:key from the site's R2 key space.
+   */
+  sites?: boolean;
+  /**
+   * Content types served by the agent API under
+   * `<agentBase>/types/:type/...`, each in its own key namespace. Use the same
+   * declarations as the integration's `contentTypes`.
+   */
+  contentTypes?: Record<string, ContentTypeOptions>;
 }
 
+/** Options with defaults applied; storage and contentTypes are passed through as given. */
+type ResolvedOptions = Required<Omit<AgentCMSMiddlewareOptions, "storage" | "contentTypes">>;
+
 type PagesContext = {
   request: Request;
   env: AgentCMSEnv;
   params: Record<string, string | string[]>;
   next: () => Promise<Response>;
+  waitUntil?: (promise: Promise<unknown>) => void;
 };
 
+/** Minimum gap between scheduler runs triggered by traffic (KV's minimum TTL). */
+const SCHEDULE_RUN_INTERVAL_SECONDS = 60;
+
 // ---------------------------------------------------------------------------
 // Route matching
 // ---------------------------------------------------------------------------
@@ -70,7 +143,7 @@ interface Route {
   handler: RouteHandler;
 }
 
-function buildRoutes(opts: Required<AgentCMSMiddlewareOptions>): Route[] {
+function buildRoutes(opts: ResolvedOptions): Route[] {
   const api = opts.apiBase.replace(/\/$/, "");
   const agent = opts.agentBase.replace(/\/$/, "");
   const routes: Route[] = [];
@@ -118,6 +191,294 @@ function buildRoutes(opts: Required<AgentCMSMiddlewareOptions>): Route[] {
     handler: (ctx) => handleAgentDeletePost(ctx.request, ctx.env, ctx.params.slug as string),
   });
 
+  routes.push({
+    method: "GET",
+    pattern: new RegExp(`^${escRe(agent)}/schedule$`),
+    handler: (ctx) => handleGetSchedule(ctx.request, ctx.env),
+  });
+
+  routes.push({
+    method: "POST",
+    pattern: new RegExp(`^${escRe(agent)}/reindex$`),
+    handler: (ctx) => handleReindex(ctx.request, ctx.env),
+  });
+
+  routes.push({
+    method: "POST",
+    pattern: new RegExp(`^${escRe(agent)}/posts/(?<slug>[a-z0-9-]+)/rename$`),
+    handler: (ctx) => handleRenamePost(ctx.request, ctx.env, ctx.params.slug as string),
+  });
+
+  // --- Content type routes (same handlers, one namespace per type) ---
+  const types = `${escRe(agent)}/types/(?<type>[a-z0-9-]+)`;
+  routes.push({
+    method: "POST",
+    pattern: new RegExp(`^${types}/publish$`),
+    handler: (ctx) => handlePublish(ctx.request, ctx.env, ctx.params.type as string),
+  });
+
+  routes.push({
+    method: "GET",
+    pattern: new RegExp(`^${types}/posts$`),
+    handler: (ctx) => handleAgentListPosts(ctx.request, ctx.env, ctx.params.type as string),
+  });
+
+  routes.push({
+    method: "GET",
+    pattern: new RegExp(`^${types}/posts/(?<slug>[a-z0-9-]+)$`),
+    handler: (ctx) =>
+      handleAgentGetPost(ctx.request, ctx.env, ctx.params.slug as string, ctx.params.type as string),
+  });
+
+  routes.push({
+    method: "PUT",
+    pattern: new RegExp(`^${types}/posts/(?<slug>[a-z0-9-]+)$`),
+    handler: (ctx) =>
+      handleAgentUpdatePost(ctx.request, ctx.env, ctx.params.slug as string, ctx.params.type as string),
+  });
+
+  routes.push({
+    method: "DELETE",
+    pattern: new RegExp(`^${types}/posts/(?<slug>[a-z0-9-]+)$`),
+    handler: (ctx) =>
+      handleAgentDeletePost(ctx.request, ctx.env, ctx.params.slug as string, ctx.params.type as string),
+  });
+
+  routes.push({
+    method: "POST",
+    pattern: new RegExp(`^${types}/posts/(?<slug>[a-z0-9-]+)/rename$`),
+    handler: (ctx) =>
+      handleRenamePost(ctx.request, ctx.env, ctx.params.slug as string, ctx.params.type as string),
+  });
+
+  routes.push({
+    method: "GET",
+    pattern: new RegExp(`^${types}/posts/(?<slug>[a-z0-9-]+)/revisions$`),
+    handler: (ctx) =>
+      handleListRevisions(ctx.request, ctx.env, ctx.params.slug as string, ctx.params.type as string),
+  });
+
+  routes.push({
+    method: "GET",
+    pattern: new RegExp(`^${types}/posts/(?<slug>[a-z0-9-]+)/revisions/diff$`),
+    handler: (ctx) =>
+      handleDiffRevisions(ctx.request, ctx.env, ctx.params.slug as string, ctx.params.type as string),
+  });
+
+  routes.push({
+    method: "GET",
+    pattern: new RegExp(`^${types}/posts/(?<slug>[a-z0-9-]+)/revisions/(?<id>[a-z0-9-]+)$`),
+    handler: (ctx) =>
+      handleGetRevision(
+        ctx.request,
+        ctx.env,
+        ctx.params.slug as string,
+        ctx.params.id as string,
+        ctx.params.type as string
+      ),
+  });
+
+  routes.push({
+    method: "POST",
+    pattern: new RegExp(`^${types}/posts/(?<slug>[a-z0-9-]+)/revisions/(?<id>[a-z0-9-]+)/restore$`),
+    handler: (ctx) =>
+      handleRestoreRevision(
+        ctx.request,
+        ctx.env,
+        ctx.params.slug as string,
+        ctx.params.id as string,
+        ctx.params.type as string
+      ),
+  });
+
+  routes.push({
+    method: "GET",
+    pattern: new RegExp(`^${types}/drafts$`),
+    handler: (ctx) => handleListDrafts(ctx.request, ctx.env, ctx.params.type as string),
+  });
+
+  routes.push({
+    method: "GET",
+    pattern: new RegExp(`^${types}/drafts/(?<slug>[a-z0-9-]+)$`),
+    handler: (ctx) =>
+      handleGetDraft(ctx.request, ctx.env, ctx.params.slug as string, ctx.params.type as string),
+  });
+
+  routes.push({
+    method: "PUT",
+    pattern: new RegExp(`^${types}/drafts/(?<slug>[a-z0-9-]+)$`),
+    handler: (ctx) =>
+      handleUpdateDraft(ctx.request, ctx.env, ctx.params.slug as string, ctx.params.type as string),
+  });
+
+  routes.push({
+    method: "POST",
+    pattern: new RegExp(`^${types}/drafts/(?<slug>[a-z0-9-]+)/promote$`),
+    handler: (ctx) =>
+      handlePromoteDraft(ctx.request, ctx.env, ctx.params.slug as string, ctx.params.type as string),
+  });
+
+  routes.push({
+    method: "GET",
+    pattern: new RegExp(`^${types}/trash$`),
+    handler: (ctx) => handleListTrash(ctx.request, ctx.env, ctx.params.type as string),
+  });
+
+  routes.push({
+    method: "POST",
+    pattern: new RegExp(`^${types}/trash/(?<slug>[a-z0-9-]+)/restore$`),
+    handler: (ctx) =>
+      handleRestoreFromTrash(ctx.request, ctx.env, ctx.params.slug as string, ctx.params.type as string),
+  });
+
+  routes.push({
+    method: "GET",
+    pattern: new RegExp(`^${types}/redirects$`),
+    handler: (ctx) => handleListRedirects(ctx.request, ctx.env, ctx.params.type as string),
+  });
+
+  routes.push({
+    method: "PUT",
+    pattern: new RegExp(`^${types}/redirects/(?<slug>[a-z0-9-]+)$`),
+    handler: (ctx) =>
+      handlePutRedirect(ctx.request, ctx.env, ctx.params.slug as string, ctx.params.type as string),
+  });
+
+  routes.push({
+    method: "DELETE",
+    pattern: new RegExp(`^${types}/redirects/(?<slug>[a-z0-9-]+)$`),
+    handler: (ctx) =>
+      handleDeleteRedirect(ctx.request, ctx.env, ctx.params.slug as string, ctx.params.type as string),
+  });
+
+  routes.push({
+    method: "POST",
+    pattern: new RegExp(`^${types}/reindex$`),
+    handler: (ctx) => handleReindex(ctx.request, ctx.env, ctx.params.type as string),
+  });
+
+  // --- Redirect routes (admin) ---
+  routes.push({
+    method: "GET",
+    pattern: new RegExp(`^${escRe(agent)}/redirects$`),
+    handler: (ctx) => handleListRedirects(ctx.request, ctx.env),
+  });
+
+  routes.push({
+    method: "PUT",
+    pattern: new RegExp(`^${escRe(agent)}/redirects/(?<slug>[a-z0-9-]+)$`),
+    handler: (ctx) => handlePutRedirect(ctx.request, ctx.env, ctx.params.slug as string),
+  });
+
+  routes.push({
+    method: "DELETE",
+    pattern: new RegExp(`^${escRe(agent)}/redirects/(?<slug>[a-z0-9-]+)$`),
+    handler: (ctx) => handleDeleteRedirect(ctx.request, ctx.env, ctx.params.slug as string),
+  });
+
+  // --- Key management routes (admin) ---
+  routes.push({
+    method: "GET",
+    pattern: new RegExp(`^${escRe(agent)}/keys$`),
+    handler: (ctx) => handleListKeys(ctx.request, ctx.env),
+  });
+
+  routes.push({
+    method: "POST",
+    pattern: new RegExp(`^${escRe(agent)}/keys$`),
+    handler: (ctx) => handleCreateKey(ctx.request, ctx.env),
+  });
+
+  routes.push({
+    method: "PUT",
+    pattern: new RegExp(`^${escRe(agent)}/keys/(?<hash>[a-f0-9]+)$`),
+    handler: (ctx) => handleUpdateKey(ctx.request, ctx.env, ctx.params.hash as string),
+  });
+
+  routes.push({
+    method: "DELETE",
+    pattern: new RegExp(`^${escRe(agent)}/keys/(?<hash>[a-f0-9]+)$`),
+    handler: (ctx) => handleRevokeKey(ctx.request, ctx.env, ctx.params.hash as string),
+  });
+
+  routes.push({
+    method: "POST",
+    pattern: new RegExp(`^${escRe(agent)}/keys/(?<hash>[a-f0-9]+)/rotate$`),
+    handler: (ctx) => handleRotateKey(ctx.request, ctx.env, ctx.params.hash as string),
+  });
+
+  // --- Audit log (admin) ---
+  routes.push({
+    method: "GET",
+    pattern: new RegExp(`^${escRe(agent)}/audit$`),
+    handler: (ctx) => handleListAudit(ctx.request, ctx.env),
+  });
+
+  // --- Trash routes (admin) ---
+  routes.push({
+    method: "GET",
+    pattern: new RegExp(`^${escRe(agent)}/trash$`),
+    handler: (ctx) => handleListTrash(ctx.request, ctx.env),
+  });
+
+  routes.push({
+    method: "POST",
+    pattern: new RegExp(`^${escRe(agent)}/trash/(?<slug>[a-z0-9-]+)/restore$`),
+    handler: (ctx) => handleRestoreFromTrash(ctx.request, ctx.env, ctx.params.slug as string),
+  });
+
+  // --- Revision routes ---
+  routes.push({
+    method: "GET",
+    pattern: new RegExp(`^${escRe(agent)}/posts/(?<slug>[a-z0-9-]+)/revisions$`),
+    handler: (ctx) => handleListRevisions(ctx.request, ctx.env, ctx.params.slug as string),
+  });
+
+  routes.push({
+    method: "GET",
+    pattern: new RegExp(`^${escRe(agent)}/posts/(?<slug>[a-z0-9-]+)/revisions/diff$`),
+    handler: (ctx) => handleDiffRevisions(ctx.request, ctx.env, ctx.params.slug as string),
+  });
+
+  routes.push({
+    method: "GET",
+    pattern: new RegExp(`^${escRe(agent)}/posts/(?<slug>[a-z0-9-]+)/revisions/(?<id>[a-z0-9-]+)$`),
+    handler: (ctx) =>
+      handleGetRevision(ctx.request, ctx.env, ctx.params.slug as string, ctx.params.id as string),
+  });
+
+  routes.push({
+    method: "POST",
+    pattern: new RegExp(`^${escRe(agent)}/posts/(?<slug>[a-z0-9-]+)/revisions/(?<id>[a-z0-9-]+)/restore$`),
+    handler: (ctx) =>
+      handleRestoreRevision(ctx.request, ctx.env, ctx.params.slug as string, ctx.params.id as string),
+  });
+
+  // --- Draft workspace routes ---
+  routes.push({
+    method: "GET",
+    pattern: new RegExp(`^${escRe(agent)}/drafts$`),
+    handler: (ctx) => handleListDrafts(ctx.request, ctx.env),
+  });
+
+  routes.push({
+    method: "GET",
+    pattern: new RegExp(`^${escRe(agent)}/drafts/(?<slug>[a-z0-9-]+)$`),
+    handler: (ctx) => handleGetDraft(ctx.request, ctx.env, ctx.params.slug as string),
+  });
+
+  routes.push({
+    method: "PUT",
+    pattern: new RegExp(`^${escRe(agent)}/drafts/(?<slug>[a-z0-9-]+)$`),
+    handler: (ctx) => handleUpdateDraft(ctx.request, ctx.env, ctx.params.slug as string),
+  });
+
+  routes.push({
+    method: "POST",
+    pattern: new RegExp(`^${escRe(agent)}/drafts/(?<slug>[a-z0-9-]+)/promote$`),
+    handler: (ctx) => handlePromoteDraft(ctx.request, ctx.env, ctx.params.slug as string),
+  });
+
   // --- Public read routes ---
   routes.push({
     method: "GET",
@@ -163,12 +524,31 @@ function buildRoutes(opts: Required<AgentCMSMiddlewareOptions>): Route[] {
     });
   }
 
+  // --- RSS feed ---
+  if (opts.feed !== false) {
+    const feedOpts = typeof opts.feed === "object" ? opts.feed : {};
+    routes.push({
+      method: "GET",
+      pattern: /^\/feed\.xml$/,
+      handler: (ctx) => handleFeed(ctx.request, ctx.env, feedOpts),
+    });
+  }
+
   // --- Skill endpoint ---
   if (opts.skillEndpoint !== false) {
     routes.push({
       method: "GET",
       pattern: /^\/\.well-known\/agent-skill\.json$/,
-      handler: (ctx) => handleSkill(ctx.request),
+      handler: (ctx) => handleSkill(ctx.request, ctx.env),
+    });
+  }
+
+  // --- Per-site images (multi-site) ---
+  if (opts.sites) {
+    routes.push({
+      method: "GET",
+      pattern: /^\/images\/(?<key>[^/]+)$/,
+      handler: (ctx) => handleGetImage(ctx.request, ctx.env, ctx.params.key as string),
     });
   }
 
@@ -197,6 +577,21 @@ function escRe(str: string): string {
  *
  * @example
  * ```ts
+ * // D1 instead of Workers KV
+ * import { d1Storage } from "@agentcms/agentcms/handlers";
+ * export const onRequest = agentcmsMiddleware({
+ *   storage: (env) => d1Storage(env.AGENTCMS_DB as D1Database),
+ * });
+ * ```
+ *
+ * @example
+ * ```ts
+ * // One deployment for every site in the registry
+ * export const onRequest = agentcmsMiddleware({ sites: true });
+ * ```
+ *
+ * @example
+ * ```ts
  * // Custom base paths
  * export const onRequest = agentcmsMiddleware({
  *   apiBase: "/cms/api",
@@ -207,27 +602,62 @@ function escRe(str: string): string {
 export function agentcmsMiddleware(
   options: AgentCMSMiddlewareOptions = {}
 ): (ctx: PagesContext) => Promise<Response> {
-  const opts: Required<AgentCMSMiddlewareOptions> = {
+  const opts: ResolvedOptions = {
     apiBase: options.apiBase ?? "/api",
     agentBase: options.agentBase ?? "/api/agent",
     sitemap: options.sitemap ?? true,
     robots: options.robots ?? true,
+    feed: options.feed ?? true,
     skillEndpoint: options.skillEndpoint ?? true,
+    scheduled: options.scheduled ?? false,
+    sites: options.sites ?? false,
   };
 
   const routes = buildRoutes(opts);
+  const storageFactory = options.storage;
+  const contentTypes = options.contentTypes;
 
   return async (ctx: PagesContext): Promise<Response> => {
     const url = new URL(ctx.request.url);
     const pathname = url.pathname;
     const method = ctx.request.method.toUpperCase();
 
-    for (const route of routes) {
-      if (route.method && route.method !== method) continue;
+    // Hand the configured storage adapter to the handlers via env
+    if (storageFactory && !ctx.env.AGENTCMS_STORAGE) {
+      const bindings = ctx.env as AgentCMSEnv & Record<string, unknown>;
+      ctx.env = { ...ctx.env, AGENTCMS_STORAGE: storageFactory(bindings) };
+    }
+    if (contentTypes && !ctx.env.AGENTCMS_CONTENT_TYPES) {
+      ctx.env = { ...ctx.env, AGENTCMS_CONTENT_TYPES: contentTypes };
+    }
+
+    let route: Route | undefined;
+    let match: RegExpExecArray | null = null;
+    for (const candidate of routes) {
+      if (candidate.method && candidate.method !== method) continue;
+      match = candidate.pattern.exec(pathname);
+      if (match) {
+        route = candidate;
+        break;
+      }
+    }
 
-      const match = route.pattern.exec(pathname);
-      if (!match) continue;
+    // Point the handlers at the site registered for this host. Looked up
+    // only when there is AgentCMS work to do, not for every asset request.
+    if (opts.sites && (route || opts.scheduled)) {
+      const site = await getSiteByHost(getStorage(ctx.env), url.hostname);
+      if (site) {
+        ctx.env = { ...ctx.env, AGENTCMS_PREFIX: site.prefix, AGENTCMS_SITE: site };
+      } else {
+        return route ? Response.json({ error: "Unknown site" }, { status: 404 }) : ctx.next();
+      }
+    }
 
+    if (opts.scheduled && ctx.waitUntil) {
+      ctx.waitUntil(runScheduledThrottled(ctx.env).catch(() => {}));
+    }
+
+    if (route && match) {
       // Extract named groups into ctx.params
       if (match.groups) {
         ctx.params = { ...ctx.params, ...match.groups };
@@ -241,5 +671,20 @@ export function agentcmsMiddleware(
   };
 }
 
+/**
+ * Run the scheduler unless another request already did within the last
+ * interval. The lock is a best-effort KV marker; an occasional overlapping
+ * run is harmless because handleScheduled skips already-published posts.
+ */
+async function runScheduledThrottled(env: AgentCMSEnv): Promise<void> {
+  const kv = getStorage(env);
+  const lockKey = kvKeys(env.AGENTCMS_PREFIX).scheduleLock;
+  if (await kv.get(lockKey)) return;
+  await kv.put(lockKey, new Date().toISOString(), {
+    expirationTtl: SCHEDULE_RUN_INTERVAL_SECONDS,
+  });
+  await handleScheduled(env);
+}
+
 // Re-export env type for convenience
 export type { AgentCMSEnv } from "../handlers/public.js";
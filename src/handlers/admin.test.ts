@@ -0,0 +1,239 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { handlePublish, handleAgentUpdatePost, handleAgentDeletePost } from "./agent.js";
+import {
+  handleListTrash,
+  handleRestoreFromTrash,
+  handleListRedirects,
+  handlePutRedirect,
+  handleDeleteRedirect,
+  handleListAudit,
+} from "./admin.js";
+import { handleGetPost, type AgentCMSEnv } from "./public.js";
+import type { AgentCMSPost, AuditEntry } from "../types.js";
+import { hashApiKey, getIndex, getTrashedPost, putPost, KEYS } from "../utils/kv.js";
+import { memoryStorage, type StorageAdapter } from "../utils/storage.js";
+
+const ADMIN_KEY = "acms_live_admin";
+const PUBLISH_KEY = "acms_live_publisher";
+const BODY = "A post body that is comfortably longer than the fifty character minimum.";
+
+async function createEnv(): Promise<AgentCMSEnv & { AGENTCMS_STORAGE: StorageAdapter }> {
+  const initial: Record<string, string> = {};
+  for (const [key, scope] of [[ADMIN_KEY, "admin"], [PUBLISH_KEY, "publish"]] as const) {
+    const keyHash = await hashApiKey(key);
+    initial[KEYS.agent(keyHash)] = JSON.stringify({
+      name: scope,
+      keyHash,
+      scope,
+      createdAt: "2025-01-01T00:00:00.000Z",
+      rateLimit: 100,
+    });
+  }
+  return { AGENTCMS_STORAGE: memoryStorage(initial), AGENTCMS_TRASH_RETENTION_DAYS: "7" };
+}
+
+function request(key: string, method: string, path: string, body?: unknown): Request {
+  return new Request(`https://blog.test${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${key}`, "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+async function publishAndDelete(env: AgentCMSEnv): Promise<Response> {
+  await handlePublish(request(PUBLISH_KEY, "POST", "/api/agent/publish", { title: "Doomed Post", content: BODY }), env);
+  return handleAgentDeletePost(request(PUBLISH_KEY, "DELETE", "/api/agent/posts/doomed-post"), env, "doomed-post");
+}
+
+describe("trash", () => {
+  it("moves deleted posts to the trash and answers 410 publicly", async () => {
+    const env = await createEnv();
+    const res = await publishAndDelete(env);
+    const body = (await res.json()) as { trashed: boolean; purgeAt: string };
+    expect(body.trashed).toBe(true);
+
+    const retention = Date.parse(body.purgeAt) - Date.now();
+    expect(retention).toBeGreaterThan(6.9 * 86_400_000);
+    expect(retention).toBeLessThanOrEqual(7 * 86_400_000);
+
+    const storage = env.AGENTCMS_STORAGE;
+    expect(await storage.get(KEYS.post("doomed-post"))).toBeNull();
+    expect(await storage.get(KEYS.trash("doomed-post"))).not.toBeNull();
+
+    const publicRes = await handleGetPost(new Request("https://blog.test/api/posts/doomed-post"), env, "doomed-post");
+    expect(publicRes.status).toBe(410);
+  });
+
+  it("lists and restores trashed posts for admin keys only", async () => {
+    const env = await createEnv();
+    await publishAndDelete(env);
+
+    const denied = await handleListTrash(request(PUBLISH_KEY, "GET", "/api/agent/trash"), env);
+    expect(denied.status).toBe(403);
+
+    const listRes = await handleListTrash(request(ADMIN_KEY, "GET", "/api/agent/trash"), env);
+    const { posts } = (await listRes.json()) as { posts: Array<{ slug: string; deletedBy: string }> };
+    expect(posts).toMatchObject([{ slug: "doomed-post", deletedBy: "publish" }]);
+
+    const restoreRes = await handleRestoreFromTrash(
+      request(ADMIN_KEY, "POST", "/api/agent/trash/doomed-post/restore"),
+      env,
+      "doomed-post"
+    );
+    expect(restoreRes.status).toBe(200);
+
+    const storage = env.AGENTCMS_STORAGE;
+    const restored = await storage.get<AgentCMSPost>(KEYS.post("doomed-post"), "json");
+    expect(restored).toMatchObject({ title: "Doomed Post", status: "published" });
+    expect(await storage.get(KEYS.trash("doomed-post"))).toBeNull();
+    expect((await getIndex(storage)).posts.map((p) => p.slug)).toEqual(["doomed-post"]);
+  });
+
+  it("refuses to restore over a reused slug", async () => {
+    const env = await createEnv();
+    await publishAndDelete(env);
+    // Publishing refuses trashed slugs; an import can still write one
+    const reuse = await handlePublish(request(PUBLISH_KEY, "POST", "/api/agent/publish", { title: "Doomed Post", content: BODY }), env);
+    expect(reuse.status).toBe(409);
+    const trashed = await getTrashedPost(env.AGENTCMS_STORAGE!, "doomed-post");
+    await putPost(env.AGENTCMS_STORAGE!, { ...trashed!.post, title: "Imported Post" });
+
+    const res = await handleRestoreFromTrash(
+      request(ADMIN_KEY, "POST", "/api/agent/trash/doomed-post/restore"),
+      env,
+      "doomed-post"
+    );
+    expect(res.status).toBe(409);
+  });
+});
+
+describe("redirects", () => {
+  it("manages manual redirects that take precedence over posts", async () => {
+    const env = await createEnv();
+    await handlePublish(request(PUBLISH_KEY, "POST", "/api/agent/publish", { title: "Retired Post", content: BODY }), env);
+
+    const denied = await handlePutRedirect(
+      request(PUBLISH_KEY, "PUT", "/api/agent/redirects/retired-post", { to: "/blog" }),
+      env,
+      "retired-post"
+    );
+    expect(denied.status).toBe(403);
+
+    const put = await handlePutRedirect(
+      request(ADMIN_KEY, "PUT", "/api/agent/redirects/retired-post", { to: "https://example.com/elsewhere" }),
+      env,
+      "retired-post"
+    );
+    expect(put.status).toBe(200);
+
+    const publicRes = await handleGetPost(new Request("https://blog.test/api/posts/retired-post"), env, "retired-post");
+    expect(publicRes.status).toBe(301);
+    expect(publicRes.headers.get("Location")).toBe("https://example.com/elsewhere");
+
+    const list = await handleListRedirects(request(ADMIN_KEY, "GET", "/api/agent/redirects"), env);
+    expect(((await list.json()) as { total: number }).total).toBe(1);
+
+    await handleDeleteRedirect(request(ADMIN_KEY, "DELETE", "/api/agent/redirects/retired-post"), env, "retired-post");
+    const after = await handleGetPost(new Request("https://blog.test/api/posts/retired-post"), env, "retired-post");
+    expect(after.status).toBe(200);
+  });
+
+  it("repoints redirects that led to a slug that moves", async () => {
+    const env = await createEnv();
+    await handlePutRedirect(request(ADMIN_KEY, "PUT", "/api/agent/redirects/a", { to: "b" }), env, "a");
+    await handlePutRedirect(request(ADMIN_KEY, "PUT", "/api/agent/redirects/b", { to: "c" }), env, "b");
+
+    const list = await handleListRedirects(request(ADMIN_KEY, "GET", "/api/agent/redirects"), env);
+    const { redirects } = (await list.json()) as { redirects: Array<{ from: string; to: string }> };
+    expect(redirects.map((r) => [r.from, r.to])).toEqual([["a", "c"], ["b", "c"]]);
+
+    const loop = await handlePutRedirect(request(ADMIN_KEY, "PUT", "/api/agent/redirects/c", { to: "a" }), env, "c");
+    expect(loop.status).toBe(422);
+  });
+
+  it("rejects redirect loops", async () => {
+    const env = await createEnv();
+    await handlePutRedirect(request(ADMIN_KEY, "PUT", "/api/agent/redirects/a", { to: "b" }), env, "a");
+    const res = await handlePutRedirect(request(ADMIN_KEY, "PUT", "/api/agent/redirects/b", { to: "a" }), env, "b");
+    expect(res.status).toBe(422);
+  });
+});
+
+describe("audit log", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function audit(env: AgentCMSEnv, query = ""): Promise<{ entries: AuditEntry[]; cursor?: string }> {
+    const res = await handleListAudit(request(ADMIN_KEY, "GET", `/api/agent/audit${query}`), env);
+    expect(res.status).toBe(200);
+    return res.json() as Promise<{ entries: AuditEntry[]; cursor?: string }>;
+  }
+
+  it("records mutating calls with outcome, model, IP and a change summary", async () => {
+    vi.useFakeTimers({ now: new Date("2030-03-01T12:00:00.000Z") });
+    const env = await createEnv();
+    const publish = request(PUBLISH_KEY, "POST", "/api/agent/publish", { title: "Audited Post", content: BODY });
+    publish.headers.set("X-Agent-Model", "test-model");
+    publish.headers.set("CF-Connecting-IP", "203.0.113.5");
+    await handlePublish(publish, env);
+    vi.setSystemTime(new Date("2030-03-01T12:00:01.000Z"));
+    await handleAgentUpdatePost(
+      request(PUBLISH_KEY, "PUT", "/api/agent/posts/audited-post", { title: "Audited Again", tags: ["ai"] }),
+      env,
+      "audited-post"
+    );
+    vi.setSystemTime(new Date("2030-03-01T12:00:02.000Z"));
+    await handleAgentDeletePost(request(PUBLISH_KEY, "DELETE", "/api/agent/posts/missing"), env, "missing");
+
+    const denied = await handleListAudit(request(PUBLISH_KEY, "GET", "/api/agent/audit"), env);
+    expect(denied.status).toBe(403);
+
+    const { entries } = await audit(env);
+    expect(entries.map((e) => [e.action, e.outcome, e.status])).toEqual([
+      ["delete", "failure", 404],
+      ["update", "success", 200],
+      ["publish", "success", 201],
+    ]);
+    expect(entries[0].error).toBe("Post not found");
+    expect(entries[1].changes).toEqual(['title: "Audited Post" → "Audited Again"', "tags: +ai"]);
+    expect(entries[2]).toMatchObject({
+      keyName: "publish",
+      scope: "publish",
+      slug: "audited-post",
+      ip: "203.0.113.5",
+      model: "test-model",
+    });
+    expect(entries[2].changes).toContain("content: +1 -0 lines");
+  });
+
+  it("filters by key, slug, action and time range, and pages with a cursor", async () => {
+    vi.useFakeTimers({ now: new Date("2030-03-01T12:00:00.000Z") });
+    const env = await createEnv();
+    await handlePublish(request(PUBLISH_KEY, "POST", "/api/agent/publish", { title: "First Post", content: BODY }), env);
+    vi.setSystemTime(new Date("2030-03-03T12:00:00.000Z"));
+    await handlePublish(request(PUBLISH_KEY, "POST", "/api/agent/publish", { title: "Second Post", content: BODY }), env);
+    // Entries written in the same millisecond have no defined order
+    vi.setSystemTime(new Date("2030-03-03T12:00:01.000Z"));
+    await handlePutRedirect(request(ADMIN_KEY, "PUT", "/api/agent/redirects/old", { to: "second-post" }), env, "old");
+
+    expect((await audit(env)).entries).toHaveLength(3);
+    expect((await audit(env, "?key=admin")).entries.map((e) => e.action)).toEqual(["redirect.put"]);
+    expect((await audit(env, "?slug=first-post")).entries.map((e) => e.slug)).toEqual(["first-post"]);
+    expect((await audit(env, "?action=publish")).entries).toHaveLength(2);
+    expect(
+      (await audit(env, "?from=2030-03-01T00:00:00Z&to=2030-03-02T00:00:00Z")).entries.map((e) => e.slug)
+    ).toEqual(["first-post"]);
+    // The default window is the last 7 days
+    vi.setSystemTime(new Date("2030-03-09T00:00:00.000Z"));
+    expect((await audit(env)).entries.map((e) => e.slug)).toEqual(["old", "second-post"]);
+
+    const page = await audit(env, "?from=2030-03-01T00:00:00Z&limit=2");
+    expect(page.entries).toHaveLength(2);
+    const next = await audit(env, `?from=2030-03-01T00:00:00Z&limit=2&cursor=${page.cursor}`);
+    expect(next.entries.map((e) => e.slug)).toEqual(["first-post"]);
+
+    const invalid = await handleListAudit(request(ADMIN_KEY, "GET", "/api/agent/audit?from=yesterday"), env);
+    expect(invalid.status).toBe(400);
+  });
+});
@@ -0,0 +1,346 @@
+// ============================================================================
+// AgentCMS — Admin Handlers (admin scope required)
+// ============================================================================
+
+import { z } from "zod";
+import type { AuditAction, PostRedirect, TrashedPost } from "../types.js";
+import {
+  kvKeys,
+  getPost,
+  getDraft,
+  putPost,
+  updateIndex,
+  getTrashedPost,
+  deleteTrashedPost,
+  getRedirect,
+  putRedirect,
+  deleteRedirect,
+  listRedirects,
+  repointRedirects,
+} from "../utils/kv.js";
+import { rebuildIndex } from "../utils/reindex.js";
+import { recordRevision } from "../utils/revisions.js";
+import {
+  queryAudit,
+  summarizeChanges,
+  DEFAULT_AUDIT_LIMIT,
+  MAX_AUDIT_LIMIT,
+} from "../utils/audit.js";
+import { listAllKeys } from "../utils/storage.js";
+import { sendWebhook } from "../utils/webhook.js";
+import { getStorage, type AgentCMSEnv } from "./public.js";
+import {
+  json,
+  authenticateAgent,
+  withRateLimit,
+  withAudit,
+  isValidSlug,
+  revisionAuthor,
+  revisionLimit,
+  resolveContentTarget,
+} from "./shared.js";
+
+const TRASH_READ_BATCH = 50;
+
+const RedirectSchema = z.object({
+  to: z.union([
+    z.string().regex(/^[a-z0-9-]+$/).max(80),
+    z.string().regex(/^\/[^/]/),
+    z.string().url().regex(/^https?:\/\//),
+  ]),
+});
+
+/**
+ * POST /api/agent/reindex — Rebuild the post index from stored posts.
+ *
+ * Query params: dryRun=true to only report orphans, missing entries and
+ * field mismatches without writing.
+ */
+export async function handleReindex(
+  request: Request,
+  env: AgentCMSEnv,
+  type?: string
+): Promise<Response> {
+  const kv = getStorage(env);
+
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  if (agent.scope !== "admin") return json({ error: "Requires admin scope" }, 403);
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
+
+  return withAudit(env, request, agent, "reindex", undefined, (trail) =>
+    withRateLimit(env, agent, "update", async () => {
+      trail.type = target.type;
+      const dryRun = new URL(request.url).searchParams.get("dryRun") === "true";
+      const report = await rebuildIndex(kv, { dryRun, prefix: pfx });
+
+      return json({ success: true, ...report });
+    })
+  );
+}
+
+/**
+ * GET /api/agent/trash — List trashed posts, most recently deleted first.
+ */
+export async function handleListTrash(
+  request: Request,
+  env: AgentCMSEnv,
+  type?: string
+): Promise<Response> {
+  const kv = getStorage(env);
+
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  if (agent.scope !== "admin") return json({ error: "Requires admin scope" }, 403);
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
+
+  return withRateLimit(env, agent, "read", async () => {
+    const names = await listAllKeys(kv, kvKeys(pfx).trash(""));
+    const entries: TrashedPost[] = [];
+    for (let i = 0; i < names.length; i += TRASH_READ_BATCH) {
+      const batch = await Promise.all(
+        names
+          .slice(i, i + TRASH_READ_BATCH)
+          .map((name) => kv.get<TrashedPost>(name, "json"))
+      );
+      entries.push(...batch.filter((e): e is TrashedPost => e !== null));
+    }
+    entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+
+    const posts = entries.map((e) => ({
+      slug: e.slug,
+      title: e.post.title,
+      status: e.post.status,
+      hasDraft: Boolean(e.draft),
+      deletedAt: e.deletedAt,
+      deletedBy: e.deletedBy.name,
+      purgeAt: e.purgeAt,
+    }));
+
+    return json({ posts, total: posts.length });
+  });
+}
+
+/**
+ * POST /api/agent/trash/:slug/restore — Put a trashed post (and its pending
+ * draft, if it had one) back where it was.
+ */
+export async function handleRestoreFromTrash(
+  request: Request,
+  env: AgentCMSEnv,
+  slug: string,
+  type?: string
+): Promise<Response> {
+  if (!isValidSlug(slug)) return json({ error: "Invalid slug" }, 400);
+
+  const kv = getStorage(env);
+
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  if (agent.scope !== "admin") return json({ error: "Requires admin scope" }, 403);
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
+
+  return withAudit(env, request, agent, "trash.restore", slug, (trail) =>
+    withRateLimit(env, agent, "update", async () => {
+      trail.type = target.type;
+      const entry = await getTrashedPost(kv, slug, pfx);
+      if (!entry) return json({ error: "Not in trash" }, 404);
+
+      // The slug may have been reused since the delete
+      if ((await getPost(kv, slug, pfx)) || (await getDraft(kv, slug, pfx))) {
+        return json({ error: "Slug is in use by another post", slug }, 409);
+      }
+
+      const { post, draft } = entry;
+      await putPost(kv, post, pfx);
+      if (draft) await putPost(kv, draft, pfx);
+      if (post.status === "published") await updateIndex(kv, post, "upsert", pfx);
+      await recordRevision(kv, post, "restore", revisionAuthor(agent, request), revisionLimit(env), pfx);
+      await deleteTrashedPost(kv, slug, pfx);
+
+      if (post.status === "published") {
+        const siteUrl = new URL(request.url).origin;
+        sendWebhook(kv, "post.published", post, siteUrl, env.AGENTCMS_PREFIX, target).catch(() => {});
+      }
+
+      return json({ success: true, slug, status: post.status, restoredDraft: Boolean(draft) });
+    })
+  );
+}
+
+/**
+ * GET /api/agent/redirects — List every redirect, ordered by source slug.
+ */
+export async function handleListRedirects(
+  request: Request,
+  env: AgentCMSEnv,
+  type?: string
+): Promise<Response> {
+  const kv = getStorage(env);
+
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  if (agent.scope !== "admin") return json({ error: "Requires admin scope" }, 403);
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
+
+  return withRateLimit(env, agent, "read", async () => {
+    const redirects = await listRedirects(kv, pfx);
+    return json({ redirects, total: redirects.length });
+  });
+}
+
+/**
+ * PUT /api/agent/redirects/:from — Create or replace a manual redirect.
+ * Body: { to } — a slug, a site-relative path or an absolute URL.
+ */
+export async function handlePutRedirect(
+  request: Request,
+  env: AgentCMSEnv,
+  from: string,
+  type?: string
+): Promise<Response> {
+  if (!isValidSlug(from)) return json({ error: "Invalid slug" }, 400);
+
+  const kv = getStorage(env);
+
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  if (agent.scope !== "admin") return json({ error: "Requires admin scope" }, 403);
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
+
+  return withAudit(env, request, agent, "redirect.put", from, (trail) =>
+    withRateLimit(env, agent, "update", async () => {
+      trail.type = target.type;
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        return json({ error: "Invalid JSON body" }, 400);
+      }
+
+      const parsed = RedirectSchema.safeParse(body);
+      if (!parsed.success) {
+        return json(
+          { error: "Validation failed", details: parsed.error.flatten() },
+          422
+        );
+      }
+
+      // Follow the target one hop and repoint redirects that led here, so a
+      // redirect never points at another redirect
+      let to = parsed.data.to;
+      const next = isValidSlug(to) ? await getRedirect(kv, to, pfx) : null;
+      if (next) to = next.to;
+      if (to === from) return json({ error: "Redirect would loop" }, 422);
+
+      const redirect: PostRedirect = {
+        from,
+        to,
+        type: "manual",
+        createdAt: new Date().toISOString(),
+        createdBy: agent.name,
+      };
+      const previous = await getRedirect(kv, from, pfx);
+      await putRedirect(kv, redirect, pfx);
+      await repointRedirects(kv, from, to, pfx);
+      trail.changes = summarizeChanges(previous, redirect, ["to"]);
+
+      return json({ success: true, redirect });
+    })
+  );
+}
+
+/**
+ * DELETE /api/agent/redirects/:from — Remove a redirect.
+ */
+export async function handleDeleteRedirect(
+  request: Request,
+  env: AgentCMSEnv,
+  from: string,
+  type?: string
+): Promise<Response> {
+  if (!isValidSlug(from)) return json({ error: "Invalid slug" }, 400);
+
+  const kv = getStorage(env);
+
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  if (agent.scope !== "admin") return json({ error: "Requires admin scope" }, 403);
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
+
+  return withAudit(env, request, agent, "redirect.delete", from, (trail) =>
+    withRateLimit(env, agent, "delete", async () => {
+      trail.type = target.type;
+      if (!(await getRedirect(kv, from, pfx))) return json({ error: "Redirect not found" }, 404);
+      await deleteRedirect(kv, from, pfx);
+
+      return json({ success: true, deleted: from });
+    })
+  );
+}
+
+/**
+ * GET /api/agent/audit — Audit log entries, newest first.
+ *
+ * Query params: key (name or keyHash), slug, action, from and to (ISO
+ * dates; default the last 7 days), limit (default 50, max 500) and cursor
+ * (from the previous page's response).
+ */
+export async function handleListAudit(
+  request: Request,
+  env: AgentCMSEnv
+): Promise<Response> {
+  const kv = getStorage(env);
+  const pfx = env.AGENTCMS_PREFIX;
+
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  if (agent.scope !== "admin") return json({ error: "Requires admin scope" }, 403);
+
+  return withRateLimit(env, agent, "read", async () => {
+    const params = new URL(request.url).searchParams;
+    const time = (name: string) => {
+      const value = params.get(name);
+      return value ? Date.parse(value) : undefined;
+    };
+    const from = time("from");
+    const to = time("to");
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      return json({ error: "from and to must be ISO dates" }, 400);
+    }
+    if (from !== undefined && to !== undefined && from > to) {
+      return json({ error: "from is after to" }, 400);
+    }
+    const limit = Math.min(
+      MAX_AUDIT_LIMIT,
+      Math.max(1, parseInt(params.get("limit") ?? "", 10) || DEFAULT_AUDIT_LIMIT)
+    );
+
+    const { entries, cursor } = await queryAudit(
+      kv,
+      {
+        key: params.get("key") || undefined,
+        slug: params.get("slug") || undefined,
+        action: (params.get("action") || undefined) as AuditAction | undefined,
+        from,
+        to,
+        limit,
+        cursor: params.get("cursor") || undefined,
+      },
+      pfx
+    );
+    return json({ entries, total: entries.length, ...(cursor ? { cursor } : {}) });
+  });
+}
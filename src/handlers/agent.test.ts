@@ -0,0 +1,552 @@
+import { describe, it, expect } from "vitest";
+import {
+  handlePublish,
+  handleAgentGetPost,
+  handleAgentListPosts,
+  handleAgentUpdatePost,
+  handleAgentDeletePost,
+  handleRenamePost,
+  handleAgentContext,
+  handleSkill,
+} from "./agent.js";
+import { handleGetPost, handleSitemap, type AgentCMSEnv } from "./public.js";
+import { handleListRevisions, handleRestoreRevision } from "./revisions.js";
+import { handleListTrash, handleRestoreFromTrash } from "./admin.js";
+import type {
+  AgentKeyPolicy,
+  AgentKeyRecord,
+  AgentCMSPost,
+  AgentCMSSiteConfig,
+  AgentSkillDefinition,
+  PostRevisionSummary,
+} from "../types.js";
+import { hashApiKey, getIndex, getRedirect, putPost, KEYS } from "../utils/kv.js";
+import { memoryStorage } from "../utils/storage.js";
+
+const API_KEY = "acms_live_testkey";
+
+async function createEnv(scope = "publish"): Promise<AgentCMSEnv> {
+  const keyHash = await hashApiKey(API_KEY);
+  const storage = memoryStorage({
+    [KEYS.agent(keyHash)]: JSON.stringify({
+      name: "test-agent",
+      keyHash,
+      scope,
+      createdAt: "2025-01-01T00:00:00.000Z",
+      rateLimit: 10,
+    }),
+  });
+  return { AGENTCMS_STORAGE: storage };
+}
+
+function request(
+  method: string,
+  path: string,
+  body?: unknown,
+  headers: Record<string, string> = {}
+): Request {
+  return new Request(`https://blog.test${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${API_KEY}`,
+      "Content-Type": "application/json",
+      ...headers,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+const CONTENT = "This is a sufficiently long body of markdown content for the publish schema.";
+
+describe("handlePublish", () => {
+  it("publishes a post that can be read back through the agent API", async () => {
+    const env = await createEnv();
+    const res = await handlePublish(
+      request("POST", "/api/agent/publish", { title: "Hello World", content: CONTENT }),
+      env
+    );
+    expect(res.status).toBe(201);
+    const body = (await res.json()) as { slug: string; url: string };
+    expect(body.slug).toBe("hello-world");
+    expect(body.url).toBe("https://blog.test/blog/hello-world");
+
+    const get = await handleAgentGetPost(request("GET", "/api/agent/posts/hello-world"), env, "hello-world");
+    expect(get.status).toBe(200);
+    expect(((await get.json()) as { title: string }).title).toBe("Hello World");
+  });
+
+  it("rejects unknown keys", async () => {
+    const env = await createEnv();
+    const res = await handlePublish(
+      new Request("https://blog.test/api/agent/publish", {
+        method: "POST",
+        headers: { Authorization: "Bearer acms_live_nope" },
+      }),
+      env
+    );
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ code: "invalid_key" });
+  });
+
+  it("refuses a slug that belongs to a trashed post", async () => {
+    const env = await createEnv();
+    const body = { title: "Hello World", content: CONTENT };
+    await handlePublish(request("POST", "/api/agent/publish", body), env);
+    await handleAgentDeletePost(request("DELETE", "/api/agent/posts/hello-world"), env, "hello-world");
+
+    const res = await handlePublish(request("POST", "/api/agent/publish", body), env);
+    expect(res.status).toBe(409);
+  });
+
+  it("forces drafts for draft-only keys", async () => {
+    const env = await createEnv("draft-only");
+    const res = await handlePublish(
+      request("POST", "/api/agent/publish", { title: "Draft Post", content: CONTENT }),
+      env
+    );
+    expect(((await res.json()) as { status: string }).status).toBe("draft");
+  });
+});
+
+describe("optimistic concurrency", () => {
+  async function publishAndRead(env: AgentCMSEnv): Promise<string> {
+    await handlePublish(
+      request("POST", "/api/agent/publish", { title: "Shared Post", content: CONTENT }),
+      env
+    );
+    const res = await handleAgentGetPost(request("GET", "/api/agent/posts/shared-post"), env, "shared-post");
+    return res.headers.get("ETag")!;
+  }
+
+  it("accepts an update with a current If-Match and returns the new ETag", async () => {
+    const env = await createEnv();
+    const etag = await publishAndRead(env);
+
+    const res = await handleAgentUpdatePost(
+      request("PUT", "/api/agent/posts/shared-post", { title: "Shared Post v2" }, { "If-Match": etag }),
+      env,
+      "shared-post"
+    );
+    expect(res.status).toBe(200);
+    expect(res.headers.get("ETag")).not.toBe(etag);
+  });
+
+  it("never matches a weak ETag, which If-Match compares strongly", async () => {
+    const env = await createEnv();
+    const etag = await publishAndRead(env);
+
+    const res = await handleAgentUpdatePost(
+      request("PUT", "/api/agent/posts/shared-post", { title: "Shared Post v2" }, { "If-Match": `W/${etag}` }),
+      env,
+      "shared-post"
+    );
+    expect(res.status).toBe(412);
+  });
+
+  it("rejects a stale If-Match with 412 and the current version", async () => {
+    const env = await createEnv();
+    const etag = await publishAndRead(env);
+
+    await handleAgentUpdatePost(
+      request("PUT", "/api/agent/posts/shared-post", { title: "First Writer Wins" }, { "If-Match": etag }),
+      env,
+      "shared-post"
+    );
+    const stale = await handleAgentUpdatePost(
+      request("PUT", "/api/agent/posts/shared-post", { title: "Second Writer" }, { "If-Match": etag }),
+      env,
+      "shared-post"
+    );
+    expect(stale.status).toBe(412);
+    const body = (await stale.json()) as { etag: string; current: { title: string } };
+    expect(body.current.title).toBe("First Writer Wins");
+    expect(body.etag).toBe(stale.headers.get("ETag"));
+
+    const del = await handleAgentDeletePost(
+      request("DELETE", "/api/agent/posts/shared-post", undefined, { "If-Match": etag }),
+      env,
+      "shared-post"
+    );
+    expect(del.status).toBe(412);
+  });
+});
+
+describe("handleRenamePost", () => {
+  it("moves the post to the new slug and redirects the old one", async () => {
+    const env = await createEnv();
+    await handlePublish(request("POST", "/api/agent/publish", { title: "Helo World", content: CONTENT }), env);
+
+    const res = await handleRenamePost(
+      request("POST", "/api/agent/posts/helo-world/rename", { slug: "hello-world" }),
+      env,
+      "helo-world"
+    );
+    expect(res.status).toBe(200);
+
+    const storage = env.AGENTCMS_STORAGE!;
+    expect(await storage.get(KEYS.post("helo-world"))).toBeNull();
+    expect((await getIndex(storage)).posts.map((p) => p.slug)).toEqual(["hello-world"]);
+    expect(await getRedirect(storage, "helo-world")).toMatchObject({ to: "hello-world", type: "rename" });
+
+    const old = await handleGetPost(new Request("https://blog.test/api/posts/helo-world"), env, "helo-world");
+    expect(old.status).toBe(301);
+    expect(old.headers.get("Location")).toBe("/api/posts/hello-world");
+
+    const sitemap = await (await handleSitemap(new Request("https://blog.test/sitemap.xml"), env, { basePath: "/blog" })).text();
+    expect(sitemap).toContain("/blog/hello-world");
+    expect(sitemap).not.toContain("/blog/helo-world");
+  });
+
+  it("repoints earlier redirects instead of chaining them", async () => {
+    const env = await createEnv();
+    await handlePublish(request("POST", "/api/agent/publish", { title: "First Name", content: CONTENT }), env);
+    await handleRenamePost(request("POST", "/api/agent/posts/first-name/rename", { slug: "second-name" }), env, "first-name");
+    await handleRenamePost(request("POST", "/api/agent/posts/second-name/rename", { slug: "third-name" }), env, "second-name");
+
+    const storage = env.AGENTCMS_STORAGE!;
+    expect(await getRedirect(storage, "first-name")).toMatchObject({ to: "third-name" });
+    expect(await getRedirect(storage, "second-name")).toMatchObject({ to: "third-name" });
+  });
+
+  it("refuses to rename onto an existing post", async () => {
+    const env = await createEnv();
+    await handlePublish(request("POST", "/api/agent/publish", { title: "Post One", content: CONTENT }), env);
+    await handlePublish(request("POST", "/api/agent/publish", { title: "Post Two", content: CONTENT }), env);
+
+    const res = await handleRenamePost(
+      request("POST", "/api/agent/posts/post-one/rename", { slug: "post-two" }),
+      env,
+      "post-one"
+    );
+    expect(res.status).toBe(409);
+  });
+});
+
+describe("rate limit quotas", () => {
+  it("meters reads and sets RateLimit headers on every response", async () => {
+    const env = await createEnv();
+    const res = await handleAgentListPosts(request("GET", "/api/agent/posts"), env);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("RateLimit-Limit")).toBe("1000");
+    expect(res.headers.get("RateLimit-Remaining")).toBe("999");
+    expect(Number(res.headers.get("RateLimit-Reset"))).toBeGreaterThan(0);
+    expect(res.headers.get("Retry-After")).toBe("0");
+  });
+
+  it("counts operations separately and enforces scope daily caps", async () => {
+    const env: AgentCMSEnv = {
+      ...(await createEnv()),
+      AGENTCMS_QUOTAS: JSON.stringify({ publish: { publish: { perDay: 1 } } }),
+    };
+    const first = await handlePublish(
+      request("POST", "/api/agent/publish", { title: "First Post", content: CONTENT }),
+      env
+    );
+    expect(first.status).toBe(201);
+    expect(first.headers.get("RateLimit-Limit")).toBe("1");
+
+    const second = await handlePublish(
+      request("POST", "/api/agent/publish", { title: "Second Post", content: CONTENT }),
+      env
+    );
+    expect(second.status).toBe(429);
+    expect(await second.json()).toMatchObject({ operation: "publish", window: "day" });
+    expect(Number(second.headers.get("Retry-After"))).toBeGreaterThan(0);
+
+    // Updates draw on their own allowance
+    const update = await handleAgentUpdatePost(
+      request("PUT", "/api/agent/posts/first-post", { title: "First Post, Revised" }),
+      env,
+      "first-post"
+    );
+    expect(update.status).toBe(200);
+    expect(update.headers.get("RateLimit-Remaining")).toBe("9");
+  });
+});
+
+describe("key policies", () => {
+  async function createPolicyEnv(policy: AgentKeyPolicy): Promise<AgentCMSEnv> {
+    const env = await createEnv();
+    const kv = env.AGENTCMS_STORAGE!;
+    const key = KEYS.agent(await hashApiKey(API_KEY));
+    const record = (await kv.get<AgentKeyRecord>(key, "json"))!;
+    await kv.put(key, JSON.stringify({ ...record, policy }));
+    await putPost(kv, {
+      slug: "changelog-editors-post",
+      title: "Written by an editor",
+      description: "",
+      content: CONTENT,
+      author: "editor",
+      authorType: "human",
+      tags: ["release"],
+      category: "Changelog",
+      publishedAt: "2025-01-01T00:00:00.000Z",
+      updatedAt: "2025-01-01T00:00:00.000Z",
+      status: "published",
+      metadata: {},
+    } satisfies AgentCMSPost);
+    return env;
+  }
+
+  it("limits publishing to allowed categories, tags, slug prefixes and flags", async () => {
+    const env = await createPolicyEnv({
+      categories: ["changelog"],
+      tags: ["release"],
+      slugPrefixes: ["changelog-"],
+      maxContentLength: 200,
+      allowFeatured: false,
+    });
+    const publish = (body: Record<string, unknown>) =>
+      handlePublish(request("POST", "/api/agent/publish", { content: CONTENT, ...body }), env);
+
+    const denied = await publish({
+      title: "Off-Topic Post",
+      category: "News",
+      tags: ["release", "gossip"],
+      featured: true,
+    });
+    expect(denied.status).toBe(403);
+    const body = (await denied.json()) as { code: string; violations: Array<{ rule: string }> };
+    expect(body.code).toBe("policy_violation");
+    expect(body.violations.map((v) => v.rule)).toEqual([
+      "categories",
+      "tags",
+      "slugPrefixes",
+      "allowFeatured",
+    ]);
+
+    const tooLong = await publish({ title: "Changelog Long", category: "Changelog", content: CONTENT.repeat(4) });
+    expect(tooLong.status).toBe(403);
+
+    const allowed = await publish({ title: "Changelog Week One", category: "Changelog", tags: ["Release"] });
+    expect(allowed.status).toBe(201);
+  });
+
+  it("keeps keys off posts written by others when editOthers is false", async () => {
+    const env = await createPolicyEnv({ editOthers: false });
+    const slug = "changelog-editors-post";
+
+    const update = await handleAgentUpdatePost(
+      request("PUT", `/api/agent/posts/${slug}`, { title: "Taken Over Title" }),
+      env,
+      slug
+    );
+    expect(update.status).toBe(403);
+    const del = await handleAgentDeletePost(request("DELETE", `/api/agent/posts/${slug}`), env, slug);
+    expect(del.status).toBe(403);
+
+    const own = await handlePublish(request("POST", "/api/agent/publish", { title: "My Own Post", content: CONTENT }), env);
+    const { slug: mine } = (await own.json()) as { slug: string };
+    const updateOwn = await handleAgentUpdatePost(
+      request("PUT", `/api/agent/posts/${mine}`, { title: "My Own Post, Edited" }),
+      env,
+      mine
+    );
+    expect(updateOwn.status).toBe(200);
+  });
+});
+
+describe("custom fields", () => {
+  const customFields: AgentCMSSiteConfig["customFields"] = {
+    sku: { type: "string", required: true, description: "Product SKU" },
+    difficulty: { type: "string", enum: ["beginner", "advanced"] },
+    sourceUrl: { type: "url" },
+  };
+
+  async function createFieldsEnv(): Promise<AgentCMSEnv> {
+    const env = await createEnv();
+    await env.AGENTCMS_STORAGE!.put(KEYS.config, JSON.stringify({ name: "Shop", customFields }));
+    return env;
+  }
+
+  it("validates metadata on publish against the site's fields", async () => {
+    const env = await createFieldsEnv();
+    const publish = (metadata?: Record<string, unknown>) =>
+      handlePublish(request("POST", "/api/agent/publish", { title: "Widget Review", content: CONTENT, metadata }), env);
+
+    const missing = await publish();
+    expect(missing.status).toBe(422);
+    const { details } = (await missing.json()) as { details: { fieldErrors: Record<string, string[]> } };
+    expect(details.fieldErrors.metadata[0]).toMatch(/^metadata\.sku: /);
+
+    expect((await publish({ sku: "W-1", difficulty: "expert" })).status).toBe(422);
+    expect((await publish({ sku: "W-1", sourceUrl: "not a url" })).status).toBe(422);
+    expect((await publish({ sku: "W-1", colour: "red" })).status).toBe(422);
+
+    const ok = await publish({ sku: "W-1", difficulty: "beginner" });
+    expect(ok.status).toBe(201);
+    const get = await handleAgentGetPost(request("GET", "/api/agent/posts/widget-review"), env, "widget-review");
+    expect(((await get.json()) as AgentCMSPost).metadata).toEqual({ sku: "W-1", difficulty: "beginner" });
+  });
+
+  it("merges metadata on update, clearing optional fields with null", async () => {
+    const env = await createFieldsEnv();
+    await handlePublish(
+      request("POST", "/api/agent/publish", {
+        title: "Widget Review",
+        content: CONTENT,
+        metadata: { sku: "W-1", difficulty: "beginner" },
+      }),
+      env
+    );
+    const update = (metadata: Record<string, unknown>) =>
+      handleAgentUpdatePost(request("PUT", "/api/agent/posts/widget-review", { metadata }), env, "widget-review");
+
+    expect((await update({ sku: null })).status).toBe(422);
+    expect((await update({ difficulty: null, sourceUrl: "https://example.com/w-1" })).status).toBe(200);
+    const get = await handleAgentGetPost(request("GET", "/api/agent/posts/widget-review"), env, "widget-review");
+    expect(((await get.json()) as AgentCMSPost).metadata).toEqual({
+      sku: "W-1",
+      sourceUrl: "https://example.com/w-1",
+    });
+  });
+
+  it("lists the fields in the context and the publish_post input schema", async () => {
+    const env = await createFieldsEnv();
+    const context = await handleAgentContext(request("GET", "/api/agent/context"), env);
+    expect(((await context.json()) as { customFields: unknown }).customFields).toEqual(customFields);
+
+    const skill = (await (await handleSkill(new Request("https://blog.test/.well-known/agent-skill.json"), env)).json()) as AgentSkillDefinition;
+    const input = skill.capabilities.find((c) => c.name === "publish_post")?.input as {
+      required: string[];
+      properties: Record<string, { required?: string[]; properties?: Record<string, unknown> }>;
+    };
+    expect(input.required).toContain("metadata");
+    expect(input.properties.metadata.required).toEqual(["sku"]);
+    expect(input.properties.metadata.properties).toMatchObject({
+      difficulty: { type: "string", enum: ["beginner", "advanced"] },
+      sourceUrl: { type: "string", format: "uri" },
+    });
+  });
+});
+
+describe("content types", () => {
+  const contentTypes: AgentCMSEnv["AGENTCMS_CONTENT_TYPES"] = {
+    docs: {
+      label: "Docs page",
+      basePath: "/docs",
+      fields: { version: { type: "string", required: true } },
+    },
+    landing: { basePath: "/" },
+  };
+
+  async function createTypesEnv(): Promise<AgentCMSEnv> {
+    return { ...(await createEnv()), AGENTCMS_CONTENT_TYPES: contentTypes };
+  }
+
+  it("keeps each type's entries, index and slugs apart from posts", async () => {
+    const env = await createTypesEnv();
+    const body = { title: "Getting Started", content: CONTENT };
+
+    expect((await handlePublish(request("POST", "/api/agent/publish", body), env)).status).toBe(201);
+    const docs = await handlePublish(
+      request("POST", "/api/agent/types/docs/publish", { ...body, metadata: { version: "2.x" } }),
+      env,
+      "docs"
+    );
+    expect(docs.status).toBe(201);
+    expect(await docs.json()).toMatchObject({
+      slug: "getting-started",
+      type: "docs",
+      url: "https://blog.test/docs/getting-started",
+    });
+    const landing = await handlePublish(request("POST", "/api/agent/types/landing/publish", body), env, "landing");
+    expect(((await landing.json()) as { url: string }).url).toBe("https://blog.test/getting-started");
+
+    const list = await handleAgentListPosts(request("GET", "/api/agent/types/docs/posts"), env, "docs");
+    expect(((await list.json()) as { total: number }).total).toBe(1);
+    expect((await getIndex(env.AGENTCMS_STORAGE!)).totalCount).toBe(1);
+
+    const update = await handleAgentUpdatePost(
+      request("PUT", "/api/agent/types/docs/posts/getting-started", { title: "Getting Started with v2" }),
+      env,
+      "getting-started",
+      "docs"
+    );
+    expect(update.status).toBe(200);
+    const post = await handleAgentGetPost(request("GET", "/api/agent/posts/getting-started"), env, "getting-started");
+    expect(((await post.json()) as AgentCMSPost).title).toBe("Getting Started");
+  });
+
+  it("validates a type's own fields and rejects unknown types", async () => {
+    const env = await createTypesEnv();
+    const body = { title: "Getting Started", content: CONTENT };
+
+    expect((await handlePublish(request("POST", "/api/agent/types/docs/publish", body), env, "docs")).status).toBe(422);
+    // Site custom fields do not apply to types
+    expect((await handlePublish(request("POST", "/api/agent/types/landing/publish", body), env, "landing")).status).toBe(201);
+
+    const unknown = await handlePublish(request("POST", "/api/agent/types/faq/publish", body), env, "faq");
+    expect(unknown.status).toBe(404);
+    expect(await unknown.json()).toEqual({ error: "Unknown content type", type: "faq" });
+    expect((await handleAgentListPosts(request("GET", "/api/agent/types/toString/posts"), env, "toString")).status).toBe(404);
+  });
+
+  it("restores a type's revisions and trash within its own namespace", async () => {
+    const env = { ...(await createEnv("admin")), AGENTCMS_CONTENT_TYPES: contentTypes };
+    const path = "/api/agent/types/docs/posts/getting-started";
+    await handlePublish(
+      request("POST", "/api/agent/types/docs/publish", {
+        title: "Getting Started",
+        content: CONTENT,
+        metadata: { version: "2.x" },
+      }),
+      env,
+      "docs"
+    );
+    await handleAgentUpdatePost(request("PUT", path, { content: `${CONTENT} Edited.` }), env, "getting-started", "docs");
+
+    const listRes = await handleListRevisions(request("GET", `${path}/revisions`), env, "getting-started", "docs");
+    const { revisions } = (await listRes.json()) as { revisions: PostRevisionSummary[] };
+    expect(revisions.map((r) => r.action)).toEqual(["update", "create"]);
+    const blogRevisions = await handleListRevisions(
+      request("GET", "/api/agent/posts/getting-started/revisions"),
+      env,
+      "getting-started"
+    );
+    expect(((await blogRevisions.json()) as { total: number }).total).toBe(0);
+
+    const restore = await handleRestoreRevision(
+      request("POST", `${path}/revisions/${revisions[1].id}/restore`),
+      env,
+      "getting-started",
+      revisions[1].id,
+      "docs"
+    );
+    expect(restore.status).toBe(200);
+    const restored = await handleAgentGetPost(request("GET", path), env, "getting-started", "docs");
+    expect(((await restored.json()) as AgentCMSPost).content).toBe(CONTENT);
+
+    await handleAgentDeletePost(request("DELETE", path), env, "getting-started", "docs");
+    const trash = await handleListTrash(request("GET", "/api/agent/types/docs/trash"), env, "docs");
+    expect(((await trash.json()) as { total: number }).total).toBe(1);
+    const blogTrash = await handleListTrash(request("GET", "/api/agent/trash"), env);
+    expect(((await blogTrash.json()) as { total: number }).total).toBe(0);
+
+    const untrash = await handleRestoreFromTrash(
+      request("POST", "/api/agent/types/docs/trash/getting-started/restore"),
+      env,
+      "getting-started",
+      "docs"
+    );
+    expect(untrash.status).toBe(200);
+    expect((await handleAgentGetPost(request("GET", path), env, "getting-started", "docs")).status).toBe(200);
+    expect((await handleListTrash(request("GET", "/api/agent/types/faq/trash"), env, "faq")).status).toBe(404);
+  });
+
+  it("advertises a capability set per type", async () => {
+    const env = await createTypesEnv();
+    const skill = (await (await handleSkill(new Request("https://blog.test/.well-known/agent-skill.json"), env)).json()) as AgentSkillDefinition;
+    const names = skill.capabilities.map((c) => c.name);
+    expect(names).toEqual(expect.arrayContaining(["publish_docs", "list_docs", "update_landing", "delete_landing"]));
+
+    const publish = skill.capabilities.find((c) => c.name === "publish_docs");
+    expect(publish?.path).toBe("/api/agent/types/docs/publish");
+    expect((publish?.input as { required: string[] }).required).toContain("metadata");
+
+    const context = await handleAgentContext(request("GET", "/api/agent/context"), env);
+    const types = ((await context.json()) as { contentTypes: Record<string, { label: string }> }).contentTypes;
+    expect(Object.keys(types)).toEqual(["docs", "landing"]);
+    expect(types.landing.label).toBe("landing");
+  });
+});
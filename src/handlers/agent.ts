@@ -7,86 +7,74 @@
 //
 // ============================================================================
 
-import { z } from "zod";
-import type { AgentCMSPost, AgentSkillDefinition } from "../types.js";
+import type {
+  AgentCapability,
+  AgentCMSPost,
+  AgentKeyRecord,
+  AgentSkillDefinition,
+  ContentTypeOptions,
+} from "../types.js";
+import type { StorageAdapter } from "../utils/storage.js";
 import {
-  validateApiKey,
-  checkRateLimit,
   getPost,
+  getDraft,
   putPost,
   deletePost,
+  deleteDraft,
+  unpublishPost,
+  putTrashedPost,
+  getTrashedPost,
+  getRedirect,
+  putRedirect,
+  deleteRedirect,
+  repointRedirects,
   updateIndex,
   getIndex,
+  getFacetIndex,
   getConfig,
 } from "../utils/kv.js";
 import {
   slugify,
   calculateReadingTime,
   generateDescription,
+  computePostEtag,
 } from "../utils/content.js";
 import { sendWebhook } from "../utils/webhook.js";
-import type { AgentCMSEnv } from "./public.js";
-
-// --- Schemas ---
-
-const PublishSchema = z.object({
-  title: z.string().min(5).max(200),
-  content: z.string().min(50),
-  contentHtml: z.string().optional(),
-  description: z.string().max(300).optional(),
-  tags: z.array(z.string()).max(10).default([]),
-  category: z.string().optional(),
-  status: z.enum(["published", "draft", "scheduled"]).default("published"),
-  scheduledFor: z.string().datetime().optional(),
-  featuredImage: z.string().url().optional(),
-  slug: z
-    .string()
-    .regex(/^[a-z0-9-]+$/)
-    .max(80)
-    .optional(),
-  featured: z.boolean().default(false),
-  noindex: z.boolean().default(false),
-  canonicalUrl: z.string().url().optional(),
-});
-
-const UpdateSchema = z.object({
-  title: z.string().min(5).max(200).optional(),
-  content: z.string().min(50).optional(),
-  contentHtml: z.string().optional(),
-  description: z.string().max(300).optional(),
-  tags: z.array(z.string()).max(10).optional(),
-  category: z.string().optional(),
-  status: z.enum(["published", "draft", "scheduled"]).optional(),
-  scheduledFor: z.string().datetime().optional(),
-  featuredImage: z.string().url().optional().nullable(),
-  ogImage: z.string().url().optional().nullable(),
-  featured: z.boolean().optional(),
-  noindex: z.boolean().optional(),
-  canonicalUrl: z.string().url().optional().nullable(),
-});
+import { recordRevision, moveRevisions } from "../utils/revisions.js";
+import { SIGNATURE_SCHEME, SIGNATURE_MAX_SKEW_SECONDS } from "../utils/signing.js";
+import { summarizeChanges, POST_AUDIT_FIELDS } from "../utils/audit.js";
+import { getStorage, imageObjectKey, type AgentCMSEnv } from "./public.js";
+import {
+  json,
+  authenticateAgent,
+  withRateLimit,
+  withAudit,
+  isValidSlug,
+  ifMatchSatisfied,
+  preconditionFailed,
+  policyDenied,
+  revisionAuthor,
+  revisionLimit,
+  trashRetentionDays,
+  contentTypes,
+  resolveContentTarget,
+  canSeeDraft,
+  pendingDraftConflict,
+  stampDraftEditor,
+} from "./shared.js";
+import {
+  RenameSchema,
+  publishSchemaFor,
+  updateSchemaFor,
+  customFieldsJsonSchema,
+  issueMessage,
+  applyPostUpdate,
+} from "./schemas.js";
 
 // --- Helpers ---
 
-function json(data: unknown, status = 200): Response {
-  return new Response(JSON.stringify(data), {
-    status,
-    headers: { "Content-Type": "application/json" },
-  });
-}
-
-const SLUG_REGEX = /^[a-z0-9-]+$/;
-const SLUG_MAX_LEN = 80;
 const MAX_UPLOAD_SIZE = 10 * 1024 * 1024; // 10 MB
 
-function isValidSlug(slug: string | undefined): slug is string {
-  return (
-    typeof slug === "string" &&
-    slug.length > 0 &&
-    slug.length <= SLUG_MAX_LEN &&
-    SLUG_REGEX.test(slug)
-  );
-}
-
 function sanitizeFilename(name: string): string {
   return name
     .toLowerCase()
@@ -102,284 +90,520 @@ async function shortHash(buffer: ArrayBuffer): Promise<string> {
   return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
 }
 
+/**
+ * Load the copy of a post an agent reads and edits. A post can have both a
+ * live copy and a pending draft; draft-only keys work on the draft, other
+ * scopes on the live copy, each falling back to whichever exists. Drafts the
+ * key cannot see (see canSeeDraft) are passed over, as in /drafts.
+ */
+async function loadEditablePost(
+  kv: StorageAdapter,
+  slug: string,
+  agent: AgentKeyRecord,
+  prefix?: string
+): Promise<{ post: AgentCMSPost; isDraft: boolean } | null> {
+  const order =
+    agent.scope === "draft-only"
+      ? ([getDraft, getPost] as const)
+      : ([getPost, getDraft] as const);
+  for (const load of order) {
+    const post = await load(kv, slug, prefix);
+    const isDraft = load === getDraft;
+    if (post && (!isDraft || canSeeDraft(agent, post))) return { post, isDraft };
+  }
+  return null;
+}
+
 // --- Handlers ---
 
 /**
  * POST /api/agent/publish — Create a new blog post.
+ * POST /api/agent/types/:type/publish — Create an entry of a content type.
  */
 export async function handlePublish(
   request: Request,
-  env: AgentCMSEnv
+  env: AgentCMSEnv,
+  type?: string
 ): Promise<Response> {
-  const kv = env.AGENTCMS_KV;
-  const pfx = env.AGENTCMS_PREFIX;
+  const kv = getStorage(env);
 
   // Auth
-  const agent = await validateApiKey(kv, request.headers.get("Authorization"), pfx);
-  if (!agent) return json({ error: "Invalid or missing API key" }, 401);
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
   if (agent.scope === "read-only")
     return json({ error: "API key does not have write access" }, 403);
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
+
+  // Rate limit and audit
+  return withAudit(env, request, agent, "publish", undefined, (trail) =>
+    withRateLimit(env, agent, "publish", async ({ remaining }) => {
+      // Parse & validate
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        return json({ error: "Invalid JSON body" }, 400);
+      }
+
+      const parsed = publishSchemaFor(target.fields).safeParse(body);
+      if (!parsed.success) {
+        return json(
+          { error: "Validation failed", details: parsed.error.flatten(issueMessage) },
+          422
+        );
+      }
+
+      const data = parsed.data;
+      const slug = data.slug || slugify(data.title);
+      const now = new Date().toISOString();
+      trail.slug = slug;
+      trail.type = target.type;
+
+      // Check slug collision (live posts, drafts and trashed posts share the
+      // slug space, so a trash restore never lands on a newer post)
+      const existing =
+        (await getPost(kv, slug, pfx)) ??
+        (await getDraft(kv, slug, pfx)) ??
+        (await getTrashedPost(kv, slug, pfx));
+      if (existing) return json({ error: "Slug already exists", slug }, 409);
+      if (await getRedirect(kv, slug, pfx)) {
+        return json({ error: "Slug is redirected to another post", slug }, 409);
+      }
+
+      // Determine effective status
+      let effectiveStatus = data.status;
+      if (agent.scope === "draft-only") effectiveStatus = "draft";
+      if (effectiveStatus === "scheduled" && !data.scheduledFor) {
+        return json({ error: "scheduledFor is required when status is scheduled" }, 422);
+      }
+
+      // Build post
+      let post: AgentCMSPost = {
+        slug,
+        title: data.title,
+        description: data.description || generateDescription(data.content),
+        content: data.content,
+        author: agent.name,
+        authorType: "agent",
+        tags: data.tags,
+        category: data.category,
+        publishedAt: effectiveStatus === "published" ? now : "",
+        updatedAt: now,
+        status: effectiveStatus,
+        scheduledFor: data.scheduledFor,
+        featuredImage: data.featuredImage,
+        readingTime: calculateReadingTime(data.content),
+        featured: data.featured,
+        noindex: data.noindex,
+        canonicalUrl: data.canonicalUrl,
+        metadata: data.metadata,
+        agentMetadata: {
+          model: request.headers.get("X-Agent-Model") || "unknown",
+          generatedAt: now,
+        },
+      };
 
-  // Rate limit
-  const { allowed, remaining } = await checkRateLimit(kv, agent.keyHash, agent.rateLimit, pfx);
-  if (!allowed) return json({ error: "Rate limit exceeded" }, 429);
-
-  // Parse & validate
-  let body: unknown;
-  try {
-    body = await request.json();
-  } catch {
-    return json({ error: "Invalid JSON body" }, 400);
-  }
-
-  const parsed = PublishSchema.safeParse(body);
-  if (!parsed.success) {
-    return json(
-      { error: "Validation failed", details: parsed.error.flatten() },
-      422
-    );
-  }
-
-  const data = parsed.data;
-  const slug = data.slug || slugify(data.title);
-  const now = new Date().toISOString();
-
-  // Check slug collision
-  const existing = await getPost(kv, slug, pfx);
-  if (existing) return json({ error: "Slug already exists", slug }, 409);
-
-  // Determine effective status
-  let effectiveStatus = data.status;
-  if (agent.scope === "draft-only") effectiveStatus = "draft";
-
-  // Build post
-  const post: AgentCMSPost = {
-    slug,
-    title: data.title,
-    description: data.description || generateDescription(data.content),
-    content: data.content,
-    author: agent.name,
-    authorType: "agent",
-    tags: data.tags,
-    category: data.category,
-    publishedAt: effectiveStatus === "published" ? now : "",
-    updatedAt: now,
-    status: effectiveStatus,
-    scheduledFor: data.scheduledFor,
-    featuredImage: data.featuredImage,
-    readingTime: calculateReadingTime(data.content),
-    featured: data.featured,
-    noindex: data.noindex,
-    canonicalUrl: data.canonicalUrl,
-    metadata: {},
-    agentMetadata: {
-      model: request.headers.get("X-Agent-Model") || "unknown",
-      generatedAt: now,
-    },
-  };
+      const denied = policyDenied(agent, post);
+      if (denied) return denied;
 
-  await putPost(kv, post, pfx);
-  if (effectiveStatus === "published") await updateIndex(kv, post, "upsert", pfx);
+      post = stampDraftEditor(post, agent);
+      await putPost(kv, post, pfx);
+      if (effectiveStatus === "published") await updateIndex(kv, post, "upsert", pfx);
+      await recordRevision(kv, post, "create", revisionAuthor(agent, request), revisionLimit(env), pfx);
+      trail.changes = summarizeChanges(null, post, POST_AUDIT_FIELDS);
 
-  const siteUrl = new URL(request.url).origin;
-  sendWebhook(kv, "post.published", post, siteUrl, pfx).catch(() => {});
+      const siteUrl = new URL(request.url).origin;
+      sendWebhook(kv, "post.published", post, siteUrl, env.AGENTCMS_PREFIX, target).catch(() => {});
 
-  return json(
-    {
-      success: true,
-      slug,
-      url: `${siteUrl}/blog/${slug}`,
-      status: effectiveStatus,
-      publishedAt: post.publishedAt || null,
-      remainingRequests: remaining,
-    },
-    201
+      return json(
+        {
+          success: true,
+          slug,
+          ...(target.type ? { type: target.type } : {}),
+          url: `${siteUrl}${target.basePath}/${slug}`,
+          status: effectiveStatus,
+          publishedAt: post.publishedAt || null,
+          remainingRequests: remaining,
+        },
+        201,
+        { ETag: await computePostEtag(post) }
+      );
+    })
   );
 }
 
 /**
  * GET /api/agent/posts — List posts (for agents to check existing content).
+ * GET /api/agent/types/:type/posts — List entries of a content type.
  */
 export async function handleAgentListPosts(
   request: Request,
-  env: AgentCMSEnv
+  env: AgentCMSEnv,
+  type?: string
 ): Promise<Response> {
-  const kv = env.AGENTCMS_KV;
-  const pfx = env.AGENTCMS_PREFIX;
-
-  const agent = await validateApiKey(kv, request.headers.get("Authorization"), pfx);
-  if (!agent) return json({ error: "Invalid or missing API key" }, 401);
-
-  const url = new URL(request.url);
-  const limit = Math.min(
-    100,
-    Math.max(1, parseInt(url.searchParams.get("limit") ?? "20", 10) || 20)
-  );
-  const offset = Math.max(
-    0,
-    parseInt(url.searchParams.get("offset") ?? "0", 10) || 0
-  );
-  const tag = url.searchParams.get("tag") || undefined;
-  const category = url.searchParams.get("category") || undefined;
+  const kv = getStorage(env);
+
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
+
+  return withRateLimit(env, agent, "read", async () => {
+    const url = new URL(request.url);
+    const limit = Math.min(
+      100,
+      Math.max(1, parseInt(url.searchParams.get("limit") ?? "20", 10) || 20)
+    );
+    const offset = Math.max(
+      0,
+      parseInt(url.searchParams.get("offset") ?? "0", 10) || 0
+    );
+    const tag = url.searchParams.get("tag") || undefined;
+    const category = url.searchParams.get("category") || undefined;
 
-  const index = await getIndex(kv, pfx);
-  let posts = index.posts;
+    // A tag or category filter reads just that value's secondary index
+    let posts =
+      (tag && (await getFacetIndex(kv, "tag", tag, pfx))) ||
+      (category && (await getFacetIndex(kv, "category", category, pfx))) ||
+      (await getIndex(kv, pfx)).posts;
 
-  if (tag) posts = posts.filter((p) => p.tags.includes(tag));
-  if (category) posts = posts.filter((p) => p.category === category);
+    if (tag) posts = posts.filter((p) => p.tags.includes(tag));
+    if (category) posts = posts.filter((p) => p.category === category);
 
-  const total = posts.length;
-  const page = posts.slice(offset, offset + limit);
+    const total = posts.length;
+    const page = posts.slice(offset, offset + limit);
 
-  return json({ posts: page, total, limit, offset, hasMore: offset + limit < total });
+    return json({ posts: page, total, limit, offset, hasMore: offset + limit < total });
+  });
 }
 
 /**
  * GET /api/agent/posts/:slug — Get full post content.
+ *
+ * The ETag response header identifies this version; send it back as
+ * If-Match on PUT/DELETE to avoid overwriting a concurrent edit.
  */
 export async function handleAgentGetPost(
   request: Request,
   env: AgentCMSEnv,
-  slug: string
+  slug: string,
+  type?: string
 ): Promise<Response> {
   if (!isValidSlug(slug)) return json({ error: "Invalid slug" }, 400);
 
-  const kv = env.AGENTCMS_KV;
-  const pfx = env.AGENTCMS_PREFIX;
-  const agent = await validateApiKey(kv, request.headers.get("Authorization"), pfx);
-  if (!agent) return json({ error: "Invalid or missing API key" }, 401);
+  const kv = getStorage(env);
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
 
-  const post = await getPost(kv, slug, pfx);
-  if (!post) return json({ error: "Post not found" }, 404);
+  return withRateLimit(env, agent, "read", async () => {
+    const found = await loadEditablePost(kv, slug, agent, pfx);
+    if (!found) return json({ error: "Post not found" }, 404);
 
-  return json(post);
+    return json(found.post, 200, { ETag: await computePostEtag(found.post) });
+  });
 }
 
 /**
  * PUT /api/agent/posts/:slug — Update an existing post.
+ *
+ * Honours If-Match: a stale ETag returns 412 with the current version.
  */
 export async function handleAgentUpdatePost(
   request: Request,
   env: AgentCMSEnv,
-  slug: string
+  slug: string,
+  type?: string
 ): Promise<Response> {
   if (!isValidSlug(slug)) return json({ error: "Invalid slug" }, 400);
 
-  const kv = env.AGENTCMS_KV;
-  const pfx = env.AGENTCMS_PREFIX;
-  const agent = await validateApiKey(kv, request.headers.get("Authorization"), pfx);
-  if (!agent) return json({ error: "Invalid or missing API key" }, 401);
+  const kv = getStorage(env);
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
   if (agent.scope === "read-only")
     return json({ error: "API key does not have write access" }, 403);
-
-  const { allowed, remaining } = await checkRateLimit(kv, agent.keyHash, agent.rateLimit, pfx);
-  if (!allowed) return json({ error: "Rate limit exceeded" }, 429);
-
-  const existing = await getPost(kv, slug, pfx);
-  if (!existing) return json({ error: "Post not found" }, 404);
-
-  let body: unknown;
-  try {
-    body = await request.json();
-  } catch {
-    return json({ error: "Invalid JSON body" }, 400);
-  }
-
-  const parsed = UpdateSchema.safeParse(body);
-  if (!parsed.success) {
-    return json(
-      { error: "Validation failed", details: parsed.error.flatten() },
-      422
-    );
-  }
-
-  const data = parsed.data;
-  if (agent.scope === "draft-only") data.status = "draft";
-
-  const now = new Date().toISOString();
-  const updated: AgentCMSPost = {
-    ...existing,
-    ...data,
-    featuredImage:
-      data.featuredImage === null
-        ? undefined
-        : (data.featuredImage ?? existing.featuredImage),
-    ogImage:
-      data.ogImage === null
-        ? undefined
-        : (data.ogImage ?? existing.ogImage),
-    canonicalUrl:
-      data.canonicalUrl === null
-        ? undefined
-        : (data.canonicalUrl ?? existing.canonicalUrl),
-    slug: existing.slug,
-    author: existing.author,
-    authorType: existing.authorType,
-    updatedAt: now,
-  };
-
-  if (data.content) {
-    updated.readingTime = calculateReadingTime(data.content);
-    if (!data.description) {
-      updated.description =
-        existing.description || generateDescription(data.content);
-    }
-  }
-
-  if (data.status === "published" && !existing.publishedAt) {
-    updated.publishedAt = now;
-  }
-
-  await putPost(kv, updated, pfx);
-  await updateIndex(kv, updated, "upsert", pfx);
-
-  const siteUrl = new URL(request.url).origin;
-  sendWebhook(kv, "post.updated", updated, siteUrl, pfx).catch(() => {});
-
-  return json({
-    success: true,
-    slug: updated.slug,
-    status: updated.status,
-    remainingRequests: remaining,
-  });
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
+
+  return withAudit(env, request, agent, "update", slug, (trail) =>
+    withRateLimit(env, agent, "update", async ({ remaining }) => {
+      trail.type = target.type;
+      const found = await loadEditablePost(kv, slug, agent, pfx);
+      if (!found) return json({ error: "Post not found" }, 404);
+      const existing = found.post;
+
+      const currentEtag = await computePostEtag(existing);
+      if (!ifMatchSatisfied(request.headers.get("If-Match"), currentEtag)) {
+        return preconditionFailed(existing, currentEtag);
+      }
+
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        return json({ error: "Invalid JSON body" }, 400);
+      }
+
+      const parsed = updateSchemaFor(target.fields).safeParse(body);
+      if (!parsed.success) {
+        return json(
+          { error: "Validation failed", details: parsed.error.flatten(issueMessage) },
+          422
+        );
+      }
+
+      const data = parsed.data;
+      if (agent.scope === "draft-only") data.status = "draft";
+
+      const updated = stampDraftEditor(
+        applyPostUpdate(existing, data, new Date().toISOString()),
+        agent
+      );
+      if (updated.status === "scheduled" && !updated.scheduledFor) {
+        return json({ error: "scheduledFor is required when status is scheduled" }, 422);
+      }
+      const denied = policyDenied(agent, updated, existing);
+      if (denied) return denied;
+
+      // Editing the live copy into a draft would replace a pending draft this
+      // key cannot see
+      if (updated.status === "draft" && !found.isDraft) {
+        const conflict = await pendingDraftConflict(kv, agent, slug, pfx);
+        if (conflict) return conflict;
+      }
+
+      // putPost writes drafts to the draft key and everything else to the live
+      // key, so the copy left behind under the other key must be dealt with.
+      await putPost(kv, updated, pfx);
+      if (updated.status !== "draft") {
+        if (found.isDraft) await deleteDraft(kv, slug, pfx);
+        await updateIndex(kv, updated, "upsert", pfx);
+      } else if (!found.isDraft && agent.scope !== "draft-only") {
+        // Moving a live post back to draft takes it off the site
+        await unpublishPost(kv, existing, pfx);
+      }
+      // A draft-only edit of a live post leaves the live copy untouched and
+      // waits as a pending draft until someone with publish scope promotes it.
+      await recordRevision(kv, updated, "update", revisionAuthor(agent, request), revisionLimit(env), pfx);
+      trail.changes = summarizeChanges(existing, updated, POST_AUDIT_FIELDS);
+
+      const siteUrl = new URL(request.url).origin;
+      sendWebhook(kv, "post.updated", updated, siteUrl, env.AGENTCMS_PREFIX, target).catch(() => {});
+
+      const etag = await computePostEtag(updated);
+      return json(
+        {
+          success: true,
+          slug: updated.slug,
+          status: updated.status,
+          etag,
+          remainingRequests: remaining,
+        },
+        200,
+        { ETag: etag }
+      );
+    })
+  );
 }
 
 /**
- * DELETE /api/agent/posts/:slug — Delete a post.
+ * DELETE /api/agent/posts/:slug — Move a post to the trash. It stays
+ * restorable by an admin until the retention period is over.
+ *
+ * Honours If-Match: a stale ETag returns 412 with the current version.
  */
 export async function handleAgentDeletePost(
   request: Request,
   env: AgentCMSEnv,
-  slug: string
+  slug: string,
+  type?: string
 ): Promise<Response> {
   if (!isValidSlug(slug)) return json({ error: "Invalid slug" }, 400);
 
-  const kv = env.AGENTCMS_KV;
-  const pfx = env.AGENTCMS_PREFIX;
-  const agent = await validateApiKey(kv, request.headers.get("Authorization"), pfx);
-  if (!agent) return json({ error: "Invalid or missing API key" }, 401);
+  const kv = getStorage(env);
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
 
   if (agent.scope !== "admin" && agent.scope !== "publish") {
     return json({ error: "Requires publish or admin scope" }, 403);
   }
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
+
+  return withAudit(env, request, agent, "delete", slug, (trail) =>
+    withRateLimit(env, agent, "delete", async ({ remaining }) => {
+      trail.type = target.type;
+      const found = await loadEditablePost(kv, slug, agent, pfx);
+      if (!found) return json({ error: "Post not found" }, 404);
+      const existing = found.post;
+
+      const currentEtag = await computePostEtag(existing);
+      if (!ifMatchSatisfied(request.headers.get("If-Match"), currentEtag)) {
+        return preconditionFailed(existing, currentEtag);
+      }
+      const denied = policyDenied(agent, existing, existing);
+      if (denied) return denied;
+
+      const deletedAt = new Date();
+      const purgeAt = new Date(deletedAt.getTime() + trashRetentionDays(env) * 86_400_000);
+      await putTrashedPost(
+        kv,
+        {
+          slug,
+          post: existing,
+          // A live post can carry a pending draft; keep both
+          draft: found.isDraft ? undefined : ((await getDraft(kv, slug, pfx)) ?? undefined),
+          deletedAt: deletedAt.toISOString(),
+          deletedBy: { name: agent.name, keyHash: agent.keyHash },
+          purgeAt: purgeAt.toISOString(),
+        },
+        pfx
+      );
+
+      await deletePost(kv, slug, pfx);
+      await updateIndex(kv, existing, "remove", pfx);
+      // Keep a snapshot so the deleted post can be restored from its history
+      await recordRevision(kv, existing, "delete", revisionAuthor(agent, request), revisionLimit(env), pfx);
+
+      const siteUrl = new URL(request.url).origin;
+      sendWebhook(kv, "post.deleted", existing, siteUrl, env.AGENTCMS_PREFIX, target).catch(() => {});
+
+      return json({
+        success: true,
+        deleted: slug,
+        trashed: true,
+        purgeAt: purgeAt.toISOString(),
+        remainingRequests: remaining,
+      });
+    })
+  );
+}
 
-  const { allowed, remaining } = await checkRateLimit(kv, agent.keyHash, agent.rateLimit, pfx);
-  if (!allowed) return json({ error: "Rate limit exceeded" }, 429);
-
-  const existing = await getPost(kv, slug, pfx);
-  if (!existing) return json({ error: "Post not found" }, 404);
-
-  await deletePost(kv, slug, pfx);
-  await updateIndex(kv, existing, "remove", pfx);
+/**
+ * POST /api/agent/posts/:slug/rename — Move a post (and any pending draft,
+ * its revisions and schedule entry) to a new slug, leaving a permanent
+ * redirect from the old one. Redirects already pointing at the old slug are
+ * repointed so chains never form.
+ *
+ * Honours If-Match: a stale ETag returns 412 with the current version.
+ */
+export async function handleRenamePost(
+  request: Request,
+  env: AgentCMSEnv,
+  slug: string,
+  type?: string
+): Promise<Response> {
+  if (!isValidSlug(slug)) return json({ error: "Invalid slug" }, 400);
 
-  const siteUrl = new URL(request.url).origin;
-  sendWebhook(kv, "post.deleted", existing, siteUrl, pfx).catch(() => {});
+  const kv = getStorage(env);
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
 
-  return json({
-    success: true,
-    deleted: slug,
-    remainingRequests: remaining,
-  });
+  if (agent.scope !== "admin" && agent.scope !== "publish") {
+    return json({ error: "Requires publish or admin scope" }, 403);
+  }
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
+
+  return withAudit(env, request, agent, "rename", slug, (trail) =>
+    withRateLimit(env, agent, "update", async ({ remaining }) => {
+      trail.type = target.type;
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        return json({ error: "Invalid JSON body" }, 400);
+      }
+
+      const parsed = RenameSchema.safeParse(body);
+      if (!parsed.success) {
+        return json(
+          { error: "Validation failed", details: parsed.error.flatten() },
+          422
+        );
+      }
+      const newSlug = parsed.data.slug;
+      if (newSlug === slug) return json({ error: "New slug is the same as the old one" }, 422);
+
+      const live = await getPost(kv, slug, pfx);
+      const draft = await getDraft(kv, slug, pfx);
+      const existing = live ?? (draft && canSeeDraft(agent, draft) ? draft : null);
+      if (!existing) return json({ error: "Post not found" }, 404);
+
+      const currentEtag = await computePostEtag(existing);
+      if (!ifMatchSatisfied(request.headers.get("If-Match"), currentEtag)) {
+        return preconditionFailed(existing, currentEtag);
+      }
+      const denied = policyDenied(agent, { ...existing, slug: newSlug }, existing);
+      if (denied) return denied;
+
+      if (
+        (await getPost(kv, newSlug, pfx)) ||
+        (await getDraft(kv, newSlug, pfx)) ||
+        (await getTrashedPost(kv, newSlug, pfx))
+      ) {
+        return json({ error: "Slug already exists", slug: newSlug }, 409);
+      }
+      const blocking = await getRedirect(kv, newSlug, pfx);
+      if (blocking && blocking.to !== slug) {
+        return json({ error: "Slug is redirected elsewhere", slug: newSlug, redirect: blocking }, 409);
+      }
+
+      const now = new Date().toISOString();
+      const renamedLive = live ? { ...live, slug: newSlug, updatedAt: now } : null;
+      const renamedDraft = draft ? { ...draft, slug: newSlug, updatedAt: now } : null;
+
+      // Write the new copies before removing the old ones, so an interrupted
+      // rename never loses the post
+      if (renamedLive) {
+        await putPost(kv, renamedLive, pfx);
+        await updateIndex(kv, renamedLive, "upsert", pfx);
+      }
+      if (renamedDraft) await putPost(kv, renamedDraft, pfx);
+      await moveRevisions(kv, slug, newSlug, pfx);
+
+      // Renaming back over an old redirect: the slug is a post again
+      if (blocking) await deleteRedirect(kv, newSlug, pfx);
+      await putRedirect(
+        kv,
+        { from: slug, to: newSlug, type: "rename", createdAt: now, createdBy: agent.name },
+        pfx
+      );
+      await repointRedirects(kv, slug, newSlug, pfx);
+
+      await deletePost(kv, slug, pfx);
+      await updateIndex(kv, existing, "remove", pfx);
+
+      const renamed = (renamedLive ?? renamedDraft)!;
+      await recordRevision(kv, renamed, "rename", revisionAuthor(agent, request), revisionLimit(env), pfx);
+      trail.changes = summarizeChanges({ slug }, { slug: newSlug }, ["slug"]);
+
+      const siteUrl = new URL(request.url).origin;
+      sendWebhook(kv, "post.updated", renamed, siteUrl, env.AGENTCMS_PREFIX, target).catch(() => {});
+
+      const etag = await computePostEtag(renamed);
+      return json(
+        {
+          success: true,
+          slug: newSlug,
+          previousSlug: slug,
+          url: `${siteUrl}${target.basePath}/${newSlug}`,
+          etag,
+          remainingRequests: remaining,
+        },
+        200,
+        { ETag: etag }
+      );
+    })
+  );
 }
 
 /**
@@ -389,47 +613,65 @@ export async function handleAgentContext(
   request: Request,
   env: AgentCMSEnv
 ): Promise<Response> {
-  const kv = env.AGENTCMS_KV;
+  const kv = getStorage(env);
   const pfx = env.AGENTCMS_PREFIX;
 
-  const agent = await validateApiKey(kv, request.headers.get("Authorization"), pfx);
-  if (!agent) return json({ error: "Invalid or missing API key" }, 401);
-
-  const config = await getConfig(kv, pfx);
-  const index = await getIndex(kv, pfx);
-  const recentPosts = index.posts.slice(0, 15);
-
-  const allTags = [...new Set(recentPosts.flatMap((p) => p.tags))];
-  const allCategories = [
-    ...new Set(recentPosts.map((p) => p.category).filter(Boolean)),
-  ];
-
-  return json({
-    site: {
-      name: config?.name || "Blog",
-      description: config?.description || "",
-      url: new URL(request.url).origin,
-      language: config?.language || "en",
-    },
-    writingGuidelines: config?.writingGuidelines || {
-      tone: "informative and engaging",
-      targetAudience: "general",
-      preferredLength: "800-2000 words",
-    },
-    existingContent: {
-      totalPosts: index.totalCount,
-      recentTitles: recentPosts.map((p) => p.title),
-      existingTags: allTags,
-      existingCategories: allCategories,
-    },
-    capabilities: {
-      maxContentLength: 50000,
-      markdownFeatures: ["GFM", "code-blocks", "tables", "footnotes"],
-    },
-    agent: {
-      name: agent.name,
-      scope: agent.scope,
-    },
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+
+  return withRateLimit(env, agent, "read", async () => {
+    // KV config takes precedence; inline site config from agentcms.config.ts is fallback
+    const config = (await getConfig(kv, pfx)) || globalThis.__AGENTCMS_CONFIG__?.site || null;
+    const index = await getIndex(kv, pfx);
+    const recentPosts = index.posts.slice(0, 15);
+
+    const allTags = [...new Set(recentPosts.flatMap((p) => p.tags))];
+    const allCategories = [
+      ...new Set(recentPosts.map((p) => p.category).filter(Boolean)),
+    ];
+
+    return json({
+      site: {
+        name: config?.name || "Blog",
+        description: config?.description || "",
+        url: new URL(request.url).origin,
+        language: config?.language || "en",
+      },
+      writingGuidelines: config?.writingGuidelines || {
+        tone: "informative and engaging",
+        targetAudience: "general",
+        preferredLength: "800-2000 words",
+      },
+      existingContent: {
+        totalPosts: index.totalCount,
+        recentTitles: recentPosts.map((p) => p.title),
+        existingTags: allTags,
+        existingCategories: allCategories,
+      },
+      capabilities: {
+        maxContentLength: 50000,
+        markdownFeatures: ["GFM", "code-blocks", "tables", "footnotes"],
+      },
+      // Set through the post's `metadata` on publish and update
+      customFields: config?.customFields ?? {},
+      // Written through /api/agent/types/<name>/..., each with its own fields
+      contentTypes: Object.fromEntries(
+        Object.entries(contentTypes(env)).map(([name, definition]) => [
+          name,
+          {
+            label: definition.label ?? name,
+            description: definition.description ?? "",
+            basePath: definition.basePath,
+            fields: definition.fields ?? {},
+          },
+        ])
+      ),
+      agent: {
+        name: agent.name,
+        scope: agent.scope,
+        ...(agent.policy ? { policy: agent.policy } : {}),
+      },
+    });
   });
 }
 
@@ -440,7 +682,7 @@ export async function handleAgentUpload(
   request: Request,
   env: AgentCMSEnv
 ): Promise<Response> {
-  const kv = env.AGENTCMS_KV;
+  const kv = getStorage(env);
   const pfx = env.AGENTCMS_PREFIX;
   const r2 = env.AGENTCMS_R2;
 
@@ -451,67 +693,160 @@ export async function handleAgentUpload(
     );
   }
 
-  const agent = await validateApiKey(kv, request.headers.get("Authorization"), pfx);
-  if (!agent) return json({ error: "Invalid or missing API key" }, 401);
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
   if (agent.scope === "read-only")
     return json({ error: "API key does not have write access" }, 403);
 
-  const { allowed, remaining } = await checkRateLimit(kv, agent.keyHash, agent.rateLimit, pfx);
-  if (!allowed) return json({ error: "Rate limit exceeded" }, 429);
-
-  let formData: FormData;
-  try {
-    formData = await request.formData();
-  } catch {
-    return json(
-      { error: "Expected multipart/form-data with a 'file' field" },
-      400
-    );
-  }
-
-  const file = formData.get("file");
-  if (!file || !(file instanceof File)) {
-    return json({ error: "Missing 'file' field in form data" }, 400);
-  }
-
-  if (!file.type.startsWith("image/")) {
-    return json({ error: "Only image files are allowed" }, 422);
-  }
-  if (file.size > MAX_UPLOAD_SIZE) {
-    return json(
-      { error: `File too large (max ${MAX_UPLOAD_SIZE / 1024 / 1024}MB)` },
-      422
-    );
-  }
-
-  const buffer = await file.arrayBuffer();
-  const hash = await shortHash(buffer);
-  const safeName = sanitizeFilename(file.name || "image");
-  const key = `${hash}-${safeName}`;
-
-  await r2.put(key, buffer, { httpMetadata: { contentType: file.type } });
+  return withAudit(env, request, agent, "upload", undefined, (trail) =>
+    withRateLimit(env, agent, "upload", async ({ remaining }) => {
+      let formData: FormData;
+      try {
+        formData = await request.formData();
+      } catch {
+        return json(
+          { error: "Expected multipart/form-data with a 'file' field" },
+          400
+        );
+      }
+
+      const file = formData.get("file");
+      if (!file || !(file instanceof File)) {
+        return json({ error: "Missing 'file' field in form data" }, 400);
+      }
+
+      if (!file.type.startsWith("image/")) {
+        return json({ error: "Only image files are allowed" }, 422);
+      }
+      if (file.size > MAX_UPLOAD_SIZE) {
+        return json(
+          { error: `File too large (max ${MAX_UPLOAD_SIZE / 1024 / 1024}MB)` },
+          422
+        );
+      }
+
+      const buffer = await file.arrayBuffer();
+      const hash = await shortHash(buffer);
+      const safeName = sanitizeFilename(file.name || "image");
+      const key = `${hash}-${safeName}`;
+
+      await r2.put(imageObjectKey(env, key), buffer, { httpMetadata: { contentType: file.type } });
+      trail.changes = summarizeChanges(
+        null,
+        { url: `/images/${key}`, contentType: file.type, size: file.size },
+        ["url", "contentType", "size"]
+      );
+
+      return json(
+        {
+          success: true,
+          url: `/images/${key}`,
+          contentType: file.type,
+          size: file.size,
+          remainingRequests: remaining,
+        },
+        201
+      );
+    })
+  );
+}
 
-  return json(
+/**
+ * Publish, list, get, update, delete and rename capabilities for one content type,
+ * named after it (docs-page → publish_docs_page).
+ */
+function contentTypeCapabilities(type: string, definition: ContentTypeOptions): AgentCapability[] {
+  const label = definition.label ?? type;
+  const name = type.replace(/-/g, "_");
+  const path = `/api/agent/types/${type}`;
+  const fields = definition.fields ?? {};
+  const hasFields = Object.keys(fields).length > 0;
+  const about = definition.description ? ` ${definition.description}` : "";
+
+  return [
     {
-      success: true,
-      url: `/images/${key}`,
-      contentType: file.type,
-      size: file.size,
-      remainingRequests: remaining,
+      name: `publish_${name}`,
+      method: "POST",
+      path: `${path}/publish`,
+      description: `Create a ${label} entry, served under ${definition.basePath}.${about} Same body as publish_post; metadata holds this type's fields.`,
+      input: {
+        type: "object",
+        required: Object.values(fields).some((field) => field.required)
+          ? ["title", "content", "metadata"]
+          : ["title", "content"],
+        properties: {
+          title: { type: "string", description: "Title, 5-200 chars" },
+          content: { type: "string", description: "Body in Markdown (GFM). Min 50 chars." },
+          description: { type: "string", description: "SEO meta description. Auto-generated if omitted." },
+          tags: { type: "array", items: { type: "string" } },
+          category: { type: "string" },
+          status: { type: "string", enum: ["published", "draft", "scheduled"], default: "published" },
+          scheduledFor: { type: "string", format: "date-time" },
+          slug: { type: "string", description: "Custom URL slug. Auto-generated from title if omitted." },
+          ...(hasFields ? { metadata: customFieldsJsonSchema(fields) } : {}),
+        },
+      },
+      errors: [
+        { code: 401, description: "Invalid or missing API key" },
+        { code: 409, description: "Slug already exists in this type" },
+        { code: 422, description: "Validation failed" },
+        { code: 429, description: "Rate limit exceeded" },
+      ],
     },
-    201
-  );
+    {
+      name: `list_${name}`,
+      method: "GET",
+      path: `${path}/posts`,
+      description: `List published ${label} entries. Query params: limit, offset, tag, category.`,
+    },
+    {
+      name: `get_${name}`,
+      method: "GET",
+      path: `${path}/posts/{slug}`,
+      description: `Get a ${label} entry by slug, with its ETag.`,
+    },
+    {
+      name: `update_${name}`,
+      method: "PUT",
+      path: `${path}/posts/{slug}`,
+      description: `Update a ${label} entry. Same rules as update_post, including If-Match.`,
+    },
+    {
+      name: `delete_${name}`,
+      method: "DELETE",
+      path: `${path}/posts/{slug}`,
+      description: `Delete a ${label} entry. Requires publish or admin scope.`,
+    },
+    {
+      name: `rename_${name}`,
+      method: "POST",
+      path: `${path}/posts/{slug}/rename`,
+      description: `Change a ${label} entry's slug. Body: { slug: newSlug }. Requires publish or admin scope.`,
+    },
+  ];
 }
 
 /**
  * GET /.well-known/agent-skill.json — Machine-readable skill definition.
+ * Given an env with storage, the skill is named after the site config
+ * there, so each host of a multi-site deployment describes its own site.
  */
-export async function handleSkill(request: Request): Promise<Response> {
+export async function handleSkill(request: Request, env?: AgentCMSEnv): Promise<Response> {
   const baseUrl = new URL(request.url).origin;
+  const config =
+    env && (env.AGENTCMS_STORAGE || env.AGENTCMS_KV)
+      ? await getConfig(getStorage(env), env.AGENTCMS_PREFIX)
+      : null;
+  const site = config || globalThis.__AGENTCMS_CONFIG__?.site;
+  const jwt = site?.jwt;
+  const customFields = site?.customFields ?? {};
+  const hasCustomFields = Object.keys(customFields).length > 0;
+  const requiresMetadata = Object.values(customFields).some((field) => field.required);
+  const types = env ? contentTypes(env) : globalThis.__AGENTCMS_CONFIG__?.contentTypes ?? {};
 
   const skill: AgentSkillDefinition = {
     $schema: "https://agentcms.dev/skill-schema/v1.json",
-    name: "AgentCMS Blog",
+    name: config?.name || env?.AGENTCMS_SITE?.name || "AgentCMS Blog",
     version: "1.0.0",
     description:
       "Publish blog posts to this website. Supports markdown content, tags, categories, and scheduled publishing.",
@@ -519,7 +854,54 @@ export async function handleSkill(request: Request): Promise<Response> {
     authentication: {
       type: "bearer",
       header: "Authorization",
-      description: "Provide your agent API key as a Bearer token",
+      description: "Provide your agent API key as a Bearer token, or sign each request with the key's signing secret",
+      schemes: [
+        {
+          type: "bearer",
+          header: "Authorization",
+          format: "Bearer <api key>",
+          description: "Send the API key with every request.",
+        },
+        {
+          type: "hmac-sha256",
+          header: "Authorization",
+          format: `${SIGNATURE_SCHEME} keyId=<key hash>, timestamp=<unix seconds>, nonce=<16-64 chars of [A-Za-z0-9_-]>, signature=<hex>`,
+          description:
+            "For keys created with signing enabled. signature is the hex HMAC-SHA256 of the canonical request, keyed with the signing secret; keyId is the key's keyHash. Use a fresh nonce for every request.",
+          canonicalRequest: [
+            "HTTP method, upper case",
+            "Path plus query string",
+            "timestamp",
+            "nonce",
+            "Hex SHA-256 of the request body (of the empty string when there is none)",
+          ],
+          maxSkewSeconds: SIGNATURE_MAX_SKEW_SECONDS,
+        },
+        ...(jwt
+          ? [
+              {
+                type: "jwt" as const,
+                header: "Authorization",
+                format: "Bearer <jwt>",
+                description: `A JWT from your platform, verified against this site's keys. It must carry exp and a ${jwt.claims?.subject ?? "sub"} claim; the ${jwt.claims?.scope ?? "scope"} claim sets the scope and ${jwt.claims?.rateLimit ?? "rate_limit"} the hourly rate limit.`,
+                algorithms: ["RS256", "ES256"],
+                ...(jwt.issuer ? { issuer: jwt.issuer } : {}),
+                ...(jwt.audience ? { audience: jwt.audience } : {}),
+              },
+            ]
+          : []),
+      ],
+      errorCodes: [
+        { status: 401, code: "missing_key", description: "No Bearer token or signature" },
+        { status: 401, code: "invalid_key", description: "Unknown or revoked key" },
+        { status: 401, code: "key_expired", description: "The key's expiresAt has passed" },
+        { status: 401, code: "key_not_yet_valid", description: "The key's notBefore is in the future" },
+        { status: 403, code: "ip_not_allowed", description: "The client IP is outside the key's allowedIps" },
+        { status: 401, code: "invalid_signature", description: "Malformed signature header, or a signature that does not match" },
+        { status: 401, code: "stale_timestamp", description: `The signed timestamp is more than ${SIGNATURE_MAX_SKEW_SECONDS}s from the server clock` },
+        { status: 401, code: "replayed_nonce", description: "The nonce was already used with this key" },
+        { status: 401, code: "invalid_token", description: "A JWT that does not verify, or lacks exp, a subject or a recognised scope" },
+      ],
     },
     capabilities: [
       {
@@ -527,7 +909,7 @@ export async function handleSkill(request: Request): Promise<Response> {
         method: "GET",
         path: "/api/agent/context",
         description:
-          "Get site metadata, writing guidelines, tone, categories, and recent topics. ALWAYS call this before writing to ensure your post fits the site.",
+          "Get site metadata, writing guidelines, tone, categories, recent topics and the site's custom post fields, plus your key's scope and any policy limiting the categories, tags, slugs and fields you may write. ALWAYS call this before writing to ensure your post fits the site.",
       },
       {
         name: "list_posts",
@@ -544,7 +926,7 @@ export async function handleSkill(request: Request): Promise<Response> {
           "Create and publish a new blog post. Content should be well-structured markdown.",
         input: {
           type: "object",
-          required: ["title", "content"],
+          required: requiresMetadata ? ["title", "content", "metadata"] : ["title", "content"],
           properties: {
             title: { type: "string", description: "Post title, 5-200 chars" },
             content: {
@@ -567,11 +949,18 @@ export async function handleSkill(request: Request): Promise<Response> {
               enum: ["published", "draft", "scheduled"],
               default: "published",
             },
+            scheduledFor: {
+              type: "string",
+              format: "date-time",
+              description:
+                "ISO 8601 publish time. Required when status is scheduled; the post goes live at the first scheduler run after this time.",
+            },
             slug: {
               type: "string",
               description:
                 "Custom URL slug. Auto-generated from title if omitted.",
             },
+            ...(hasCustomFields ? { metadata: customFieldsJsonSchema(customFields) } : {}),
           },
         },
         output: {
@@ -584,6 +973,7 @@ export async function handleSkill(request: Request): Promise<Response> {
         },
         errors: [
           { code: 401, description: "Invalid or missing API key" },
+          { code: 403, description: "Key policy does not allow this change (code policy_violation)" },
           { code: 409, description: "Slug already exists" },
           { code: 422, description: "Validation failed" },
           { code: 429, description: "Rate limit exceeded" },
@@ -593,20 +983,221 @@ export async function handleSkill(request: Request): Promise<Response> {
         name: "get_post",
         method: "GET",
         path: "/api/agent/posts/{slug}",
-        description: "Get full post content by slug.",
+        description:
+          "Get full post content by slug. The ETag response header identifies this version of the post.",
       },
       {
         name: "update_post",
         method: "PUT",
         path: "/api/agent/posts/{slug}",
         description:
-          "Update an existing post. Partial updates — only include fields to change.",
+          "Update an existing post. Partial updates — only include fields to change; metadata is merged field by field, and null clears a custom field that is not required. Send the ETag from get_post as the If-Match header; if another writer changed the post first you get 412 with the current version and its etag — re-apply your change to that version and retry with the new etag.",
+        errors: [
+          { code: 401, description: "Invalid or missing API key" },
+          { code: 404, description: "Post not found" },
+          { code: 412, description: "If-Match does not match the current ETag; body contains `current` and `etag`" },
+          { code: 422, description: "Validation failed" },
+          { code: 429, description: "Rate limit exceeded" },
+        ],
       },
       {
         name: "delete_post",
         method: "DELETE",
         path: "/api/agent/posts/{slug}",
-        description: "Delete a post. Requires publish or admin scope.",
+        description:
+          "Move a post to the trash. Requires publish or admin scope. Trashed posts return 410 Gone publicly and can be restored by an admin until they are purged. Send If-Match with the ETag you last read to avoid deleting a version you have not seen.",
+        errors: [
+          { code: 401, description: "Invalid or missing API key" },
+          { code: 403, description: "Requires publish or admin scope" },
+          { code: 404, description: "Post not found" },
+          { code: 412, description: "If-Match does not match the current ETag; body contains `current` and `etag`" },
+          { code: 429, description: "Rate limit exceeded" },
+        ],
+      },
+      {
+        name: "rename_post",
+        method: "POST",
+        path: "/api/agent/posts/{slug}/rename",
+        description:
+          "Change a post's slug. Body: { slug: newSlug }. The old URL permanently redirects (301) to the new one. Requires publish or admin scope.",
+        errors: [
+          { code: 401, description: "Invalid or missing API key" },
+          { code: 403, description: "Requires publish or admin scope" },
+          { code: 404, description: "Post not found" },
+          { code: 409, description: "New slug is taken by a post or a redirect" },
+          { code: 412, description: "If-Match does not match the current ETag; body contains `current` and `etag`" },
+          { code: 422, description: "Validation failed" },
+        ],
+      },
+      {
+        name: "list_revisions",
+        method: "GET",
+        path: "/api/agent/posts/{slug}/revisions",
+        description:
+          "List stored revisions of a post, newest first. Each write (create, update, restore, promote, delete) records one, with the author key, X-Agent-Model and timestamp.",
+      },
+      {
+        name: "get_revision",
+        method: "GET",
+        path: "/api/agent/posts/{slug}/revisions/{id}",
+        description: "Get the full post snapshot stored in one revision.",
+      },
+      {
+        name: "diff_revisions",
+        method: "GET",
+        path: "/api/agent/posts/{slug}/revisions/diff",
+        description:
+          "Compare two revisions. Query params: from (revision id, required), to (revision id or 'current', default 'current'). Returns changed fields and a unified diff of the content.",
+      },
+      {
+        name: "restore_revision",
+        method: "POST",
+        path: "/api/agent/posts/{slug}/revisions/{id}/restore",
+        description:
+          "Make a stored revision the current version of the post. Recorded as a new revision, so restores can be undone.",
+        errors: [
+          { code: 401, description: "Invalid or missing API key" },
+          { code: 403, description: "API key does not have write access" },
+          { code: 404, description: "Revision not found" },
+          { code: 429, description: "Rate limit exceeded" },
+        ],
+      },
+      {
+        name: "get_schedule",
+        method: "GET",
+        path: "/api/agent/schedule",
+        description:
+          "List scheduled posts, soonest first, with their scheduledFor times. Entries marked due are waiting for the next scheduler run.",
+      },
+      {
+        name: "list_drafts",
+        method: "GET",
+        path: "/api/agent/drafts",
+        description:
+          "List drafts, most recently edited first. Admin keys see every draft; other keys see only the drafts they wrote, including pending edits of other authors' posts. get_post, update_post and delete_post follow the same rule. Query params: limit, offset.",
+      },
+      {
+        name: "get_draft",
+        method: "GET",
+        path: "/api/agent/drafts/{slug}",
+        description:
+          "Get a draft's full content. A draft may be a pending edit of a live post; the ETag response header identifies this version of the draft.",
+      },
+      {
+        name: "update_draft",
+        method: "PUT",
+        path: "/api/agent/drafts/{slug}",
+        description:
+          "Edit a draft without publishing it. Same fields as update_post except status. Send the ETag from get_draft as If-Match.",
+        errors: [
+          { code: 401, description: "Invalid or missing API key" },
+          { code: 403, description: "API key does not have write access" },
+          { code: 404, description: "Draft not found" },
+          { code: 412, description: "If-Match does not match the draft's ETag; body contains `current` and `etag`" },
+          { code: 422, description: "Validation failed" },
+          { code: 429, description: "Rate limit exceeded" },
+        ],
+      },
+      {
+        name: "promote_draft",
+        method: "POST",
+        path: "/api/agent/drafts/{slug}/promote",
+        description:
+          "Publish a draft: it replaces the live post (keeping its original publish date) or becomes a new one, and is added to the index. Requires publish or admin scope.",
+        errors: [
+          { code: 401, description: "Invalid or missing API key" },
+          { code: 403, description: "Requires publish or admin scope" },
+          { code: 404, description: "Draft not found" },
+          { code: 412, description: "If-Match does not match the draft's ETag; body contains `current` and `etag`" },
+          { code: 429, description: "Rate limit exceeded" },
+        ],
+      },
+      {
+        name: "list_trash",
+        method: "GET",
+        path: "/api/agent/trash",
+        description:
+          "List trashed posts with who deleted them and when they will be purged. Requires admin scope.",
+      },
+      {
+        name: "restore_from_trash",
+        method: "POST",
+        path: "/api/agent/trash/{slug}/restore",
+        description:
+          "Restore a trashed post, and any draft it had, to where it was. Requires admin scope.",
+        errors: [
+          { code: 401, description: "Invalid or missing API key" },
+          { code: 403, description: "Requires admin scope" },
+          { code: 404, description: "Not in trash" },
+          { code: 409, description: "Slug is in use by another post" },
+        ],
+      },
+      {
+        name: "list_redirects",
+        method: "GET",
+        path: "/api/agent/redirects",
+        description: "List permanent redirects, from renames and manual entries. Requires admin scope.",
+      },
+      {
+        name: "set_redirect",
+        method: "PUT",
+        path: "/api/agent/redirects/{from}",
+        description:
+          "Create or replace a manual redirect from a slug. Body: { to } — a slug, a site-relative path or an absolute URL. Takes precedence over any post at that slug. Requires admin scope.",
+      },
+      {
+        name: "delete_redirect",
+        method: "DELETE",
+        path: "/api/agent/redirects/{from}",
+        description: "Remove a redirect. Requires admin scope.",
+      },
+      {
+        name: "query_audit_log",
+        method: "GET",
+        path: "/api/agent/audit",
+        description:
+          "List audit log entries for mutating agent calls, newest first: key, scope, action, slug, IP, X-Agent-Model, outcome and a short change summary. Query params: key (name or keyHash), slug, action, from, to (ISO dates, default the last 7 days), limit, cursor. Requires admin scope.",
+      },
+      {
+        name: "rebuild_index",
+        method: "POST",
+        path: "/api/agent/reindex",
+        description:
+          "Rebuild the post index from stored posts and report orphans, missing entries and field mismatches. Query param dryRun=true only reports. Requires admin scope.",
+      },
+      {
+        name: "list_keys",
+        method: "GET",
+        path: "/api/agent/keys",
+        description:
+          "List agent keys with name, scope, rate limit, quotas and lastUsedAt. Keys are identified by keyHash; secrets are never returned. Requires admin scope.",
+      },
+      {
+        name: "create_key",
+        method: "POST",
+        path: "/api/agent/keys",
+        description:
+          "Create an agent key. Body: { name, scope?, rateLimit?, quotas?, expiresAt?, notBefore?, allowedIps?, policy? }. The response's apiKey is the only copy of the secret. Requires admin scope.",
+      },
+      {
+        name: "update_key",
+        method: "PUT",
+        path: "/api/agent/keys/{keyHash}",
+        description:
+          "Change a key's name, scope, rateLimit, quotas, expiresAt, notBefore, allowedIps or policy (null clears an optional field). Requires admin scope.",
+      },
+      {
+        name: "revoke_key",
+        method: "DELETE",
+        path: "/api/agent/keys/{keyHash}",
+        description: "Revoke a key immediately. A key cannot revoke itself. Requires admin scope.",
+      },
+      {
+        name: "rotate_key",
+        method: "POST",
+        path: "/api/agent/keys/{keyHash}/rotate",
+        description:
+          "Issue a new secret with the same settings. Body: { graceSeconds? } — how long the old key keeps working (default 86400, max 30 days). Requires admin scope.",
       },
       {
         name: "upload_image",
@@ -643,6 +1234,9 @@ export async function handleSkill(request: Request): Promise<Response> {
           { code: 429, description: "Rate limit exceeded" },
         ],
       },
+      ...Object.entries(types).flatMap(([type, definition]) =>
+        contentTypeCapabilities(type, definition)
+      ),
     ],
     setup: {
       description:
@@ -679,7 +1273,8 @@ export async function handleSkill(request: Request): Promise<Response> {
     guidelines: {
       tone: "Check /api/agent/context for site-specific guidelines",
       contentPolicy: "No spam, no duplicates, no harmful content",
-      rateLimit: "10 posts per hour per key (configurable)",
+      rateLimit:
+        "Metered per operation (read, publish, update, delete, upload); every response carries RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset and Retry-After headers",
       bestPractices: [
         "Always call get_site_context first to understand the site's voice",
         "Check list_posts to avoid duplicate topics",
@@ -687,6 +1282,7 @@ export async function handleSkill(request: Request): Promise<Response> {
         "Write substantive content (500+ words recommended)",
         "Provide a custom description for better SEO",
         "Set X-Agent-Model header for traceability",
+        "Send If-Match with the ETag from get_post on every update or delete; on 412, re-read the post, re-apply your change and retry",
         "Upload images before publishing, then reference the returned URL",
       ],
     },
@@ -0,0 +1,263 @@
+import { describe, it, expect } from "vitest";
+import { handlePublish, handleAgentUpdatePost, handleAgentGetPost } from "./agent.js";
+import { handleListDrafts, handleGetDraft, handleUpdateDraft, handlePromoteDraft } from "./drafts.js";
+import type { AgentCMSEnv } from "./public.js";
+import type { AgentCMSPost, PostIndex } from "../types.js";
+import { hashApiKey, getIndex, KEYS } from "../utils/kv.js";
+import { memoryStorage, type StorageAdapter } from "../utils/storage.js";
+
+const KEYS_BY_SCOPE = {
+  writer: { key: "acms_live_writer", scope: "draft-only" },
+  other: { key: "acms_live_other", scope: "draft-only" },
+  editor: { key: "acms_live_editor", scope: "publish" },
+  admin: { key: "acms_live_admin", scope: "admin" },
+  reader: { key: "acms_live_reader", scope: "read-only" },
+} as const;
+
+type Caller = keyof typeof KEYS_BY_SCOPE;
+
+async function createEnv(): Promise<AgentCMSEnv & { AGENTCMS_STORAGE: StorageAdapter }> {
+  const initial: Record<string, string> = {};
+  for (const [name, { key, scope }] of Object.entries(KEYS_BY_SCOPE)) {
+    const keyHash = await hashApiKey(key);
+    initial[KEYS.agent(keyHash)] = JSON.stringify({
+      name,
+      keyHash,
+      scope,
+      createdAt: "2025-01-01T00:00:00.000Z",
+      rateLimit: 100,
+    });
+  }
+  return { AGENTCMS_STORAGE: memoryStorage(initial) };
+}
+
+function request(caller: Caller, method: string, path: string, body?: unknown): Request {
+  return new Request(`https://blog.test${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${KEYS_BY_SCOPE[caller].key}`,
+      "Content-Type": "application/json",
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+const BODY = "A draft body that is comfortably longer than the fifty character minimum.";
+const EDIT = "An edited draft body, also comfortably longer than the fifty character minimum.";
+
+async function publish(env: AgentCMSEnv, caller: Caller, title: string) {
+  return handlePublish(request(caller, "POST", "/api/agent/publish", { title, content: BODY }), env);
+}
+
+describe("draft workspace", () => {
+  it("lists only the caller's drafts for non-admin keys", async () => {
+    const env = await createEnv();
+    await publish(env, "writer", "Writer Draft");
+    await publish(env, "other", "Other Draft");
+
+    const mine = await handleListDrafts(request("writer", "GET", "/api/agent/drafts"), env);
+    const { drafts } = (await mine.json()) as { drafts: Array<{ slug: string }> };
+    expect(drafts.map((d) => d.slug)).toEqual(["writer-draft"]);
+
+    const all = await handleListDrafts(request("admin", "GET", "/api/agent/drafts"), env);
+    expect(((await all.json()) as { total: number }).total).toBe(2);
+
+    const hidden = await handleGetDraft(request("writer", "GET", "/api/agent/drafts/other-draft"), env, "other-draft");
+    expect(hidden.status).toBe(404);
+  });
+
+  it("edits a draft without publishing it", async () => {
+    const env = await createEnv();
+    await publish(env, "writer", "Writer Draft");
+
+    const res = await handleUpdateDraft(
+      request("writer", "PUT", "/api/agent/drafts/writer-draft", { content: EDIT, status: "published" }),
+      env,
+      "writer-draft"
+    );
+    expect(res.status).toBe(200);
+
+    const draft = (await (await handleGetDraft(
+      request("writer", "GET", "/api/agent/drafts/writer-draft"),
+      env,
+      "writer-draft"
+    )).json()) as AgentCMSPost;
+    expect(draft).toMatchObject({ content: EDIT, status: "draft" });
+    expect((await getIndex(env.AGENTCMS_STORAGE)).totalCount).toBe(0);
+  });
+
+  it("records an admin's edit of another key's draft as the admin's", async () => {
+    const env = await createEnv();
+    await publish(env, "writer", "Writer Draft");
+
+    await handleUpdateDraft(
+      request("admin", "PUT", "/api/agent/drafts/writer-draft", { content: EDIT }),
+      env,
+      "writer-draft"
+    );
+
+    const draft = await env.AGENTCMS_STORAGE.get<AgentCMSPost>(KEYS.draft("writer-draft"), "json");
+    expect(draft).toMatchObject({ content: EDIT, draftEditor: "admin" });
+    const hidden = await handleGetDraft(request("writer", "GET", "/api/agent/drafts/writer-draft"), env, "writer-draft");
+    expect(hidden.status).toBe(404);
+  });
+
+  it("promotes a draft to the live key and the index", async () => {
+    const env = await createEnv();
+    await publish(env, "writer", "Writer Draft");
+
+    const denied = await handlePromoteDraft(
+      request("writer", "POST", "/api/agent/drafts/writer-draft/promote"),
+      env,
+      "writer-draft"
+    );
+    expect(denied.status).toBe(403);
+
+    const res = await handlePromoteDraft(
+      request("admin", "POST", "/api/agent/drafts/writer-draft/promote"),
+      env,
+      "writer-draft"
+    );
+    expect(res.status).toBe(200);
+
+    const storage = env.AGENTCMS_STORAGE;
+    expect(await storage.get(KEYS.draft("writer-draft"))).toBeNull();
+    const live = await storage.get<AgentCMSPost>(KEYS.post("writer-draft"), "json");
+    expect(live).toMatchObject({ status: "published", author: "writer" });
+    const index: PostIndex = await getIndex(storage);
+    expect(index.posts.map((p) => p.slug)).toEqual(["writer-draft"]);
+  });
+
+  it("keeps a draft-only edit of a live post pending until promoted", async () => {
+    const env = await createEnv();
+    await publish(env, "editor", "Live Post");
+    const publishedAt = (await env.AGENTCMS_STORAGE.get<AgentCMSPost>(KEYS.post("live-post"), "json"))!.publishedAt;
+
+    // The writer's edit goes to the draft key; the live copy is unchanged
+    await handleAgentUpdatePost(
+      request("writer", "PUT", "/api/agent/posts/live-post", { content: EDIT }),
+      env,
+      "live-post"
+    );
+    const live = (await (await handleAgentGetPost(
+      request("editor", "GET", "/api/agent/posts/live-post"),
+      env,
+      "live-post"
+    )).json()) as AgentCMSPost;
+    expect(live.content).toBe(BODY);
+
+    const res = await handlePromoteDraft(
+      request("admin", "POST", "/api/agent/drafts/live-post/promote"),
+      env,
+      "live-post"
+    );
+    expect(res.status).toBe(200);
+
+    const promoted = await env.AGENTCMS_STORAGE.get<AgentCMSPost>(KEYS.post("live-post"), "json");
+    expect(promoted).toMatchObject({ content: EDIT, status: "published", publishedAt });
+  });
+
+  it("applies the promoting key's policy to the post the draft replaces", async () => {
+    const env = await createEnv();
+    const storage = env.AGENTCMS_STORAGE;
+    await publish(env, "editor", "Live Post");
+    await handleAgentUpdatePost(
+      request("writer", "PUT", "/api/agent/posts/live-post", { content: EDIT }),
+      env,
+      "live-post"
+    );
+    const adminHash = await hashApiKey(KEYS_BY_SCOPE.admin.key);
+    const admin = await storage.get<Record<string, unknown>>(KEYS.agent(adminHash), "json");
+    await storage.put(KEYS.agent(adminHash), JSON.stringify({ ...admin, policy: { editOthers: false } }));
+
+    const res = await handlePromoteDraft(
+      request("admin", "POST", "/api/agent/drafts/live-post/promote"),
+      env,
+      "live-post"
+    );
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({ code: "policy_violation" });
+    expect(await storage.get<AgentCMSPost>(KEYS.post("live-post"), "json")).toMatchObject({ content: BODY });
+    expect(await storage.get(KEYS.draft("live-post"))).not.toBeNull();
+  });
+
+  it("takes a live post off the site when a publish key moves it to draft", async () => {
+    const env = await createEnv();
+    await publish(env, "editor", "Live Post");
+
+    await handleAgentUpdatePost(
+      request("editor", "PUT", "/api/agent/posts/live-post", { status: "draft" }),
+      env,
+      "live-post"
+    );
+
+    const storage = env.AGENTCMS_STORAGE;
+    expect(await storage.get(KEYS.post("live-post"))).toBeNull();
+    expect(await storage.get(KEYS.draft("live-post"))).not.toBeNull();
+    expect((await getIndex(storage)).totalCount).toBe(0);
+  });
+
+  it("applies the /drafts visibility rule to the posts endpoints", async () => {
+    const env = await createEnv();
+    await publish(env, "writer", "Writer Draft");
+
+    for (const caller of ["reader", "other", "editor"] as const) {
+      const res = await handleAgentGetPost(
+        request(caller, "GET", "/api/agent/posts/writer-draft"),
+        env,
+        "writer-draft"
+      );
+      expect(res.status).toBe(404);
+    }
+    const edit = await handleAgentUpdatePost(
+      request("other", "PUT", "/api/agent/posts/writer-draft", { content: EDIT }),
+      env,
+      "writer-draft"
+    );
+    expect(edit.status).toBe(404);
+
+    const own = await handleAgentGetPost(request("writer", "GET", "/api/agent/posts/writer-draft"), env, "writer-draft");
+    expect(own.status).toBe(200);
+    const admin = await handleAgentGetPost(request("admin", "GET", "/api/agent/posts/writer-draft"), env, "writer-draft");
+    expect(admin.status).toBe(200);
+  });
+
+  it("shows a pending edit of another author's post to the key that wrote it", async () => {
+    const env = await createEnv();
+    await publish(env, "editor", "Live Post");
+    await handleAgentUpdatePost(
+      request("writer", "PUT", "/api/agent/posts/live-post", { content: EDIT }),
+      env,
+      "live-post"
+    );
+
+    const list = await handleListDrafts(request("writer", "GET", "/api/agent/drafts"), env);
+    const { drafts } = (await list.json()) as { drafts: Array<{ slug: string; author: string; editor: string }> };
+    expect(drafts).toEqual([expect.objectContaining({ slug: "live-post", author: "editor", editor: "writer" })]);
+    const draft = await handleGetDraft(request("writer", "GET", "/api/agent/drafts/live-post"), env, "live-post");
+    expect(((await draft.json()) as AgentCMSPost).content).toBe(EDIT);
+
+    // Another draft-only key sees the live copy and cannot replace the pending draft
+    const other = await handleAgentGetPost(request("other", "GET", "/api/agent/posts/live-post"), env, "live-post");
+    expect(((await other.json()) as AgentCMSPost).content).toBe(BODY);
+    const clash = await handleAgentUpdatePost(
+      request("other", "PUT", "/api/agent/posts/live-post", { title: "Other Edit" }),
+      env,
+      "live-post"
+    );
+    expect(clash.status).toBe(409);
+
+    // Promoting publishes the edit without the editor field
+    await handlePromoteDraft(request("admin", "POST", "/api/agent/drafts/live-post/promote"), env, "live-post");
+    const live = await env.AGENTCMS_STORAGE.get<AgentCMSPost>(KEYS.post("live-post"), "json");
+    expect(live).toMatchObject({ content: EDIT, author: "editor" });
+    expect(live?.draftEditor).toBeUndefined();
+  });
+
+  it("rejects publishing over an existing draft slug", async () => {
+    const env = await createEnv();
+    await publish(env, "writer", "Writer Draft");
+    const res = await publish(env, "editor", "Writer Draft");
+    expect(res.status).toBe(409);
+  });
+});
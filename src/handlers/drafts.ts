@@ -0,0 +1,289 @@
+// ============================================================================
+// AgentCMS — Draft Workspace Handlers (auth-required)
+// ============================================================================
+//
+// GET  /api/agent/drafts                  — list drafts
+// GET  /api/agent/drafts/:slug            — one draft
+// PUT  /api/agent/drafts/:slug            — edit a draft
+// POST /api/agent/drafts/:slug/promote    — publish a draft
+//
+// Admin keys see every draft; other keys see only the drafts they wrote
+// (see canSeeDraft), including pending edits of other authors' posts.
+// Each route also exists under /api/agent/types/:type/... for the drafts of
+// a content type.
+//
+// ============================================================================
+
+import type { AgentCMSPost } from "../types.js";
+import {
+  kvKeys,
+  getPost,
+  getDraft,
+  putPost,
+  promoteDraft,
+} from "../utils/kv.js";
+import { listAllKeys } from "../utils/storage.js";
+import { computePostEtag } from "../utils/content.js";
+import { recordRevision } from "../utils/revisions.js";
+import { summarizeChanges, POST_AUDIT_FIELDS } from "../utils/audit.js";
+import { sendWebhook } from "../utils/webhook.js";
+import { getStorage, type AgentCMSEnv } from "./public.js";
+import {
+  json,
+  authenticateAgent,
+  withRateLimit,
+  withAudit,
+  isValidSlug,
+  ifMatchSatisfied,
+  preconditionFailed,
+  policyDenied,
+  revisionAuthor,
+  revisionLimit,
+  resolveContentTarget,
+  canSeeDraft,
+  stampDraftEditor,
+} from "./shared.js";
+import { draftUpdateSchemaFor, issueMessage, applyPostUpdate } from "./schemas.js";
+
+const DRAFT_READ_BATCH = 50;
+
+/**
+ * GET /api/agent/drafts — List drafts, most recently edited first.
+ */
+export async function handleListDrafts(
+  request: Request,
+  env: AgentCMSEnv,
+  type?: string
+): Promise<Response> {
+  const kv = getStorage(env);
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
+
+  return withRateLimit(env, agent, "read", async () => {
+    const url = new URL(request.url);
+    const limit = Math.min(
+      100,
+      Math.max(1, parseInt(url.searchParams.get("limit") ?? "20", 10) || 20)
+    );
+    const offset = Math.max(
+      0,
+      parseInt(url.searchParams.get("offset") ?? "0", 10) || 0
+    );
+
+    const names = await listAllKeys(kv, kvKeys(pfx).draft(""));
+    const drafts: AgentCMSPost[] = [];
+    for (let i = 0; i < names.length; i += DRAFT_READ_BATCH) {
+      const batch = await Promise.all(
+        names
+          .slice(i, i + DRAFT_READ_BATCH)
+          .map((name) => kv.get<AgentCMSPost>(name, "json"))
+      );
+      for (const draft of batch) {
+        if (draft && canSeeDraft(agent, draft)) drafts.push(draft);
+      }
+    }
+    drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+    const total = drafts.length;
+    const page = drafts.slice(offset, offset + limit).map((d) => ({
+      slug: d.slug,
+      title: d.title,
+      description: d.description,
+      author: d.author,
+      editor: d.draftEditor ?? d.author,
+      tags: d.tags,
+      category: d.category,
+      updatedAt: d.updatedAt,
+      // A draft of an already-published post carries its original publish date
+      isPublished: Boolean(d.publishedAt),
+    }));
+
+    return json({ drafts: page, total, limit, offset, hasMore: offset + limit < total });
+  });
+}
+
+/**
+ * GET /api/agent/drafts/:slug — Full draft content, with an ETag for If-Match.
+ */
+export async function handleGetDraft(
+  request: Request,
+  env: AgentCMSEnv,
+  slug: string,
+  type?: string
+): Promise<Response> {
+  if (!isValidSlug(slug)) return json({ error: "Invalid slug" }, 400);
+
+  const kv = getStorage(env);
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
+
+  return withRateLimit(env, agent, "read", async () => {
+    const draft = await getDraft(kv, slug, pfx);
+    if (!draft || !canSeeDraft(agent, draft)) {
+      return json({ error: "Draft not found" }, 404);
+    }
+
+    return json(draft, 200, { ETag: await computePostEtag(draft) });
+  });
+}
+
+/**
+ * PUT /api/agent/drafts/:slug — Edit a draft in place. The draft stays a
+ * draft; use promote to publish it.
+ */
+export async function handleUpdateDraft(
+  request: Request,
+  env: AgentCMSEnv,
+  slug: string,
+  type?: string
+): Promise<Response> {
+  if (!isValidSlug(slug)) return json({ error: "Invalid slug" }, 400);
+
+  const kv = getStorage(env);
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  if (agent.scope === "read-only")
+    return json({ error: "API key does not have write access" }, 403);
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
+
+  return withAudit(env, request, agent, "draft.update", slug, (trail) =>
+    withRateLimit(env, agent, "update", async ({ remaining }) => {
+      trail.type = target.type;
+      const existing = await getDraft(kv, slug, pfx);
+      if (!existing || !canSeeDraft(agent, existing)) {
+        return json({ error: "Draft not found" }, 404);
+      }
+
+      const currentEtag = await computePostEtag(existing);
+      if (!ifMatchSatisfied(request.headers.get("If-Match"), currentEtag)) {
+        return preconditionFailed(existing, currentEtag);
+      }
+
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        return json({ error: "Invalid JSON body" }, 400);
+      }
+
+      const parsed = draftUpdateSchemaFor(target.fields).safeParse(body);
+      if (!parsed.success) {
+        return json(
+          { error: "Validation failed", details: parsed.error.flatten(issueMessage) },
+          422
+        );
+      }
+
+      const updated = stampDraftEditor(
+        { ...applyPostUpdate(existing, parsed.data, new Date().toISOString()), status: "draft" },
+        agent
+      );
+      const denied = policyDenied(agent, updated, existing);
+      if (denied) return denied;
+
+      await putPost(kv, updated, pfx);
+      await recordRevision(kv, updated, "update", revisionAuthor(agent, request), revisionLimit(env), pfx);
+      trail.changes = summarizeChanges(existing, updated, POST_AUDIT_FIELDS);
+
+      const etag = await computePostEtag(updated);
+      return json(
+        {
+          success: true,
+          slug,
+          status: updated.status,
+          etag,
+          remainingRequests: remaining,
+        },
+        200,
+        { ETag: etag }
+      );
+    })
+  );
+}
+
+/**
+ * POST /api/agent/drafts/:slug/promote — Publish a draft: move it to the live
+ * key and add it to the index. If the draft is a pending edit of a live post,
+ * it replaces that post and keeps its original publish date.
+ *
+ * Honours If-Match against the draft's ETag.
+ */
+export async function handlePromoteDraft(
+  request: Request,
+  env: AgentCMSEnv,
+  slug: string,
+  type?: string
+): Promise<Response> {
+  if (!isValidSlug(slug)) return json({ error: "Invalid slug" }, 400);
+
+  const kv = getStorage(env);
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+
+  if (agent.scope !== "admin" && agent.scope !== "publish") {
+    return json({ error: "Requires publish or admin scope" }, 403);
+  }
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
+
+  return withAudit(env, request, agent, "draft.promote", slug, (trail) =>
+    withRateLimit(env, agent, "publish", async ({ remaining }) => {
+      trail.type = target.type;
+      const draft = await getDraft(kv, slug, pfx);
+      if (!draft || !canSeeDraft(agent, draft)) {
+        return json({ error: "Draft not found" }, 404);
+      }
+
+      const draftEtag = await computePostEtag(draft);
+      if (!ifMatchSatisfied(request.headers.get("If-Match"), draftEtag)) {
+        return preconditionFailed(draft, draftEtag);
+      }
+
+      const live = await getPost(kv, slug, pfx);
+      const now = new Date().toISOString();
+      const { draftEditor: _editor, ...content } = draft;
+      const promoted: AgentCMSPost = {
+        ...content,
+        status: "published",
+        publishedAt: live?.publishedAt || draft.publishedAt || now,
+        updatedAt: now,
+      };
+      const denied = policyDenied(agent, promoted, live ?? undefined);
+      if (denied) return denied;
+
+      await promoteDraft(kv, promoted, pfx);
+      await recordRevision(kv, promoted, "promote", revisionAuthor(agent, request), revisionLimit(env), pfx);
+      // Against the live post it replaces, or the draft if it is new
+      trail.changes = summarizeChanges(live ?? draft, promoted, POST_AUDIT_FIELDS);
+
+      const siteUrl = new URL(request.url).origin;
+      const event = live ? "post.updated" : "post.published";
+      sendWebhook(kv, event, promoted, siteUrl, env.AGENTCMS_PREFIX, target).catch(() => {});
+
+      const etag = await computePostEtag(promoted);
+      return json(
+        {
+          success: true,
+          slug,
+          ...(target.type ? { type: target.type } : {}),
+          url: `${siteUrl}${target.basePath}/${slug}`,
+          status: promoted.status,
+          publishedAt: promoted.publishedAt,
+          etag,
+          remainingRequests: remaining,
+        },
+        200,
+        { ETag: etag }
+      );
+    })
+  );
+}
@@ -8,6 +8,41 @@
 // ============================================================================
 
 export type { AgentCMSEnv } from "./public.js";
+export { getStorage } from "./public.js";
+
+// --- Storage adapters ---
+export {
+  kvStorage,
+  d1Storage,
+  memoryStorage,
+  listAllKeys,
+} from "../utils/storage.js";
+export type {
+  StorageAdapter,
+  StoragePutOptions,
+  StorageListOptions,
+  StorageListResult,
+} from "../utils/storage.js";
+
+// --- Rate limiters ---
+export {
+  AgentCMSRateLimiter,
+  kvRateLimiter,
+  durableObjectRateLimiter,
+  memoryRateLimiterNamespace,
+  resolveQuota,
+  checkQuota,
+  rateLimitHeaders,
+} from "../utils/rate-limit.js";
+export type {
+  RateLimiter,
+  RateLimitResult,
+  RateLimitWindow,
+  QuotaStatus,
+  ScopeQuotas,
+  RateLimiterNamespace,
+  RateLimiterState,
+} from "../utils/rate-limit.js";
 
 // --- Public read handlers (no auth, cacheable) ---
 export {
@@ -17,10 +52,28 @@ export {
   handleListTags,
   handleSitemap,
   handleRobotsTxt,
+  handleFeed,
+  handleGetImage,
+  imageObjectKey,
 } from "./public.js";
 
+// --- Site registry (multi-site deployments) ---
+export {
+  getSiteByHost,
+  putSite,
+  deleteSite,
+  listSites,
+  normalizeHostname,
+} from "../utils/kv.js";
+
 // --- Types for handler options ---
-export type { SitemapOptions, RobotsTxtOptions } from "../types.js";
+export type {
+  SitemapOptions,
+  RobotsTxtOptions,
+  SiteRegistryEntry,
+  ContentTypeOptions,
+} from "../types.js";
+export type { RssFeedOptions } from "../utils/sitemap.js";
 
 // --- Agent handlers (auth-required) ---
 export {
@@ -29,7 +82,48 @@ export {
   handleAgentGetPost,
   handleAgentUpdatePost,
   handleAgentDeletePost,
+  handleRenamePost,
   handleAgentContext,
   handleAgentUpload,
   handleSkill,
 } from "./agent.js";
+
+// --- Revision handlers (auth-required) ---
+export {
+  handleListRevisions,
+  handleGetRevision,
+  handleDiffRevisions,
+  handleRestoreRevision,
+} from "./revisions.js";
+
+// --- Draft workspace handlers (auth-required) ---
+export {
+  handleListDrafts,
+  handleGetDraft,
+  handleUpdateDraft,
+  handlePromoteDraft,
+} from "./drafts.js";
+
+// --- Scheduled publishing ---
+export { handleScheduled, handleScheduledSites, handleGetSchedule } from "./schedule.js";
+export type { ScheduledRunResult } from "./schedule.js";
+
+// --- Admin handlers (admin scope) ---
+export {
+  handleReindex,
+  handleListTrash,
+  handleRestoreFromTrash,
+  handleListRedirects,
+  handlePutRedirect,
+  handleDeleteRedirect,
+  handleListAudit,
+} from "./admin.js";
+
+// --- Key management handlers (admin scope) ---
+export {
+  handleListKeys,
+  handleCreateKey,
+  handleUpdateKey,
+  handleRevokeKey,
+  handleRotateKey,
+} from "./keys.js";
@@ -0,0 +1,269 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  handleListKeys,
+  handleCreateKey,
+  handleUpdateKey,
+  handleRevokeKey,
+  handleRotateKey,
+} from "./keys.js";
+import type { AgentCMSEnv } from "./public.js";
+import type { AgentKeyRecord } from "../types.js";
+import { hashApiKey, putAgentKey, validateApiKey, KEYS } from "../utils/kv.js";
+import { memoryStorage, type StorageAdapter } from "../utils/storage.js";
+import { signRequest } from "../utils/signing.js";
+
+const ADMIN_KEY = "acms_live_admin";
+const PUBLISH_KEY = "acms_live_publisher";
+
+async function createEnv(): Promise<AgentCMSEnv & { AGENTCMS_STORAGE: StorageAdapter }> {
+  const initial: Record<string, string> = {};
+  for (const [key, scope] of [[ADMIN_KEY, "admin"], [PUBLISH_KEY, "publish"]] as const) {
+    const keyHash = await hashApiKey(key);
+    initial[KEYS.agent(keyHash)] = JSON.stringify({
+      name: scope,
+      keyHash,
+      scope,
+      createdAt: `2025-01-0${scope === "admin" ? 1 : 2}T00:00:00.000Z`,
+      rateLimit: 100,
+    });
+  }
+  return { AGENTCMS_STORAGE: memoryStorage(initial) };
+}
+
+function request(key: string, method: string, path: string, body?: unknown): Request {
+  return new Request(`https://blog.test${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${key}`, "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("key management", () => {
+  it("creates a key whose secret authenticates, and lists it without the secret", async () => {
+    const env = await createEnv();
+
+    const denied = await handleListKeys(request(PUBLISH_KEY, "GET", "/api/agent/keys"), env);
+    expect(denied.status).toBe(403);
+
+    const res = await handleCreateKey(
+      request(ADMIN_KEY, "POST", "/api/agent/keys", { name: "drafter", scope: "draft-only", rateLimit: 5 }),
+      env
+    );
+    expect(res.status).toBe(201);
+    const { apiKey, key } = (await res.json()) as { apiKey: string; key: AgentKeyRecord };
+    expect(apiKey).toMatch(/^acms_draft_[a-f0-9]{64}$/);
+    expect(key).toMatchObject({ name: "drafter", scope: "draft-only", rateLimit: 5 });
+
+    const record = await validateApiKey(env.AGENTCMS_STORAGE, `Bearer ${apiKey}`);
+    expect(record?.keyHash).toBe(key.keyHash);
+
+    const listRes = await handleListKeys(request(ADMIN_KEY, "GET", "/api/agent/keys"), env);
+    const list = (await listRes.json()) as { keys: AgentKeyRecord[]; total: number };
+    expect(list.keys.map((k) => k.name)).toEqual(["admin", "publish", "drafter"]);
+    expect(JSON.stringify(list)).not.toContain(apiKey);
+  });
+
+  it("creates keys restricted to an IP range, enforced from CF-Connecting-IP", async () => {
+    const env = await createEnv();
+    const invalid = await handleCreateKey(
+      request(ADMIN_KEY, "POST", "/api/agent/keys", { name: "ci", allowedIps: ["10.0.0.0/33"] }),
+      env
+    );
+    expect(invalid.status).toBe(422);
+
+    const res = await handleCreateKey(
+      request(ADMIN_KEY, "POST", "/api/agent/keys", { name: "ci", scope: "admin", allowedIps: ["10.0.0.0/8"] }),
+      env
+    );
+    const { apiKey } = (await res.json()) as { apiKey: string };
+
+    const from = (ip: string) => {
+      const req = request(apiKey, "GET", "/api/agent/keys");
+      req.headers.set("CF-Connecting-IP", ip);
+      return handleListKeys(req, env);
+    };
+    const denied = await from("192.0.2.1");
+    expect(denied.status).toBe(403);
+    expect(await denied.json()).toMatchObject({ code: "ip_not_allowed" });
+    expect((await from("10.20.30.40")).status).toBe(200);
+  });
+
+  it("accepts requests signed with a signing key, refusing tampered, stale and replayed ones", async () => {
+    const env = await createEnv();
+    const res = await handleCreateKey(
+      request(ADMIN_KEY, "POST", "/api/agent/keys", { name: "signer", scope: "admin", signing: true }),
+      env
+    );
+    const created = (await res.json()) as { signingSecret: string; key: AgentKeyRecord & { signing: boolean } };
+    expect(created.signingSecret).toMatch(/^[a-f0-9]{64}$/);
+    expect(created.key.signing).toBe(true);
+    expect(created.key).not.toHaveProperty("signingSecret");
+
+    const keyId = created.key.keyHash;
+    const secret = created.signingSecret;
+    const signed = async (body: unknown, options: { nonce?: string; timestamp?: number; sentBody?: string } = {}) => {
+      const text = JSON.stringify(body);
+      const authorization = await signRequest({
+        keyId, secret, method: "POST", path: "/api/agent/keys", body: text, ...options,
+      });
+      return handleCreateKey(
+        new Request("https://blog.test/api/agent/keys", {
+          method: "POST",
+          headers: { Authorization: authorization, "Content-Type": "application/json" },
+          body: options.sentBody ?? text,
+        }),
+        env
+      );
+    };
+
+    expect((await signed({ name: "one" }, { nonce: "nonce-0000000001" })).status).toBe(201);
+
+    const replayed = await signed({ name: "one" }, { nonce: "nonce-0000000001" });
+    expect(await replayed.json()).toMatchObject({ code: "replayed_nonce" });
+
+    const tampered = await signed({ name: "two" }, { sentBody: JSON.stringify({ name: "two", scope: "admin" }) });
+    expect(tampered.status).toBe(401);
+    expect(await tampered.json()).toMatchObject({ code: "invalid_signature" });
+
+    const stale = await signed({ name: "three" }, { timestamp: Math.floor(Date.now() / 1000) - 600 });
+    expect(await stale.json()).toMatchObject({ code: "stale_timestamp" });
+
+    const wrongSecret = await signRequest({ keyId, secret: "0".repeat(64), method: "GET", path: "/api/agent/keys" });
+    const forged = await handleListKeys(
+      new Request("https://blog.test/api/agent/keys", { headers: { Authorization: wrongSecret } }),
+      env
+    );
+    expect(await forged.json()).toMatchObject({ code: "invalid_signature" });
+
+    const list = await handleListKeys(request(ADMIN_KEY, "GET", "/api/agent/keys"), env);
+    expect(JSON.stringify(await list.json())).not.toContain(secret);
+  });
+
+  it("updates scope and limits, and clears quotas with null", async () => {
+    const env = await createEnv();
+    const keyHash = await hashApiKey(PUBLISH_KEY);
+    const path = `/api/agent/keys/${keyHash}`;
+
+    const res = await handleUpdateKey(
+      request(ADMIN_KEY, "PUT", path, { scope: "read-only", rateLimit: 3, quotas: { read: { perDay: 50 } } }),
+      env,
+      keyHash
+    );
+    expect((await res.json()) as { key: AgentKeyRecord }).toMatchObject({
+      key: { scope: "read-only", rateLimit: 3, quotas: { read: { perDay: 50 } } },
+    });
+
+    await handleUpdateKey(request(ADMIN_KEY, "PUT", path, { quotas: null }), env, keyHash);
+    const stored = await env.AGENTCMS_STORAGE.get<AgentKeyRecord>(KEYS.agent(keyHash), "json");
+    expect(stored).not.toHaveProperty("quotas");
+
+    const invalid = await handleUpdateKey(request(ADMIN_KEY, "PUT", path, { scope: "owner" }), env, keyHash);
+    expect(invalid.status).toBe(422);
+
+    const missing = "0".repeat(64);
+    const notFound = await handleUpdateKey(request(ADMIN_KEY, "PUT", path, { rateLimit: 1 }), env, missing);
+    expect(notFound.status).toBe(404);
+  });
+
+  it("revokes other keys but not the calling key", async () => {
+    const env = await createEnv();
+    const adminHash = await hashApiKey(ADMIN_KEY);
+    const publishHash = await hashApiKey(PUBLISH_KEY);
+
+    const self = await handleRevokeKey(request(ADMIN_KEY, "DELETE", `/api/agent/keys/${adminHash}`), env, adminHash);
+    expect(self.status).toBe(409);
+    const demote = await handleUpdateKey(
+      request(ADMIN_KEY, "PUT", `/api/agent/keys/${adminHash}`, { scope: "publish" }),
+      env,
+      adminHash
+    );
+    expect(demote.status).toBe(409);
+
+    const res = await handleRevokeKey(request(ADMIN_KEY, "DELETE", `/api/agent/keys/${publishHash}`), env, publishHash);
+    expect(res.status).toBe(200);
+    expect(await validateApiKey(env.AGENTCMS_STORAGE, `Bearer ${PUBLISH_KEY}`)).toBeNull();
+  });
+
+  it("tracks last use without rewriting the record, so a revoked key stays revoked", async () => {
+    const env = await createEnv();
+    const kv = env.AGENTCMS_STORAGE;
+    const publishHash = await hashApiKey(PUBLISH_KEY);
+    const stored = await kv.get(KEYS.agent(publishHash));
+
+    // A request authenticated before the revocation still has the record in hand
+    const inFlight = await validateApiKey(kv, `Bearer ${PUBLISH_KEY}`);
+    expect(inFlight).not.toBeNull();
+    await vi.waitFor(async () => expect(await kv.get(KEYS.agentUsage(publishHash))).not.toBeNull());
+    expect(await kv.get(KEYS.agent(publishHash))).toBe(stored);
+
+    const listRes = await handleListKeys(request(ADMIN_KEY, "GET", "/api/agent/keys"), env);
+    const list = (await listRes.json()) as { keys: AgentKeyRecord[] };
+    expect(list.keys.find((k) => k.name === "publish")?.lastUsedAt).toEqual(expect.any(String));
+
+    const res = await handleRevokeKey(request(ADMIN_KEY, "DELETE", `/api/agent/keys/${publishHash}`), env, publishHash);
+    expect(res.status).toBe(200);
+
+    // A late write of the old record does not bring the key back
+    await putAgentKey(kv, inFlight!);
+    expect(await validateApiKey(kv, `Bearer ${PUBLISH_KEY}`)).toBeNull();
+    const afterRes = await handleListKeys(request(ADMIN_KEY, "GET", "/api/agent/keys"), env);
+    const after = (await afterRes.json()) as { keys: AgentKeyRecord[] };
+    expect(after.keys.map((k) => k.name)).toEqual(["admin"]);
+  });
+
+  it("rotates a key, keeping the old secret valid for the grace period", async () => {
+    vi.useFakeTimers({ now: new Date("2030-01-01T00:00:00.000Z") });
+    const env = await createEnv();
+    const oldHash = await hashApiKey(PUBLISH_KEY);
+
+    const res = await handleRotateKey(
+      request(ADMIN_KEY, "POST", `/api/agent/keys/${oldHash}/rotate`, { graceSeconds: 3600 }),
+      env,
+      oldHash
+    );
+    expect(res.status).toBe(201);
+    const body = (await res.json()) as {
+      apiKey: string;
+      key: AgentKeyRecord;
+      previous: { keyHash: string; expiresAt: string };
+    };
+    expect(body.key).toMatchObject({ name: "publish", scope: "publish", rateLimit: 100 });
+    expect(body.previous).toEqual({ keyHash: oldHash, expiresAt: "2030-01-01T01:00:00.000Z" });
+
+    const kv = env.AGENTCMS_STORAGE;
+    expect(await validateApiKey(kv, `Bearer ${body.apiKey}`)).not.toBeNull();
+    expect(await validateApiKey(kv, `Bearer ${PUBLISH_KEY}`)).toMatchObject({ rotatedTo: body.key.keyHash });
+
+    const again = await handleRotateKey(request(ADMIN_KEY, "POST", `/api/agent/keys/${oldHash}/rotate`), env, oldHash);
+    expect(again.status).toBe(409);
+
+    vi.setSystemTime(new Date("2030-01-01T01:00:01.000Z"));
+    expect(await validateApiKey(kv, `Bearer ${PUBLISH_KEY}`)).toBeNull();
+    expect(await validateApiKey(kv, `Bearer ${body.apiKey}`)).not.toBeNull();
+  });
+
+  it("hashes new keys with AGENTCMS_KEY_PEPPER and upgrades the calling legacy key", async () => {
+    const env = { ...(await createEnv()), AGENTCMS_KEY_PEPPER: "pepper" };
+    const kv = env.AGENTCMS_STORAGE;
+
+    const res = await handleCreateKey(request(ADMIN_KEY, "POST", "/api/agent/keys", { name: "bot" }), env);
+    expect(res.status).toBe(201);
+    const { apiKey, key } = (await res.json()) as { apiKey: string; key: AgentKeyRecord };
+    expect(key).toMatchObject({ keyHash: await hashApiKey(apiKey, "pepper"), hashVersion: 2 });
+    expect(await validateApiKey(kv, `Bearer ${apiKey}`)).toBeNull();
+    expect(await validateApiKey(kv, `Bearer ${apiKey}`, undefined, { pepper: "pepper" })).not.toBeNull();
+
+    // The admin key authenticated the request, so it has moved to the peppered format
+    const listRes = await handleListKeys(request(ADMIN_KEY, "GET", "/api/agent/keys"), env);
+    const list = (await listRes.json()) as { keys: AgentKeyRecord[] };
+    expect(list.keys.find((k) => k.name === "admin")).toMatchObject({
+      keyHash: await hashApiKey(ADMIN_KEY, "pepper"),
+      hashVersion: 2,
+    });
+    expect(list.keys.find((k) => k.name === "publish")?.hashVersion).toBeUndefined();
+  });
+});
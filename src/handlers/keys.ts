@@ -0,0 +1,343 @@
+// ============================================================================
+// AgentCMS — Agent Key Management Handlers (admin scope required)
+// ============================================================================
+//
+// GET    /api/agent/keys              — list keys
+// POST   /api/agent/keys              — create a key; the secret is returned once
+// PUT    /api/agent/keys/:hash        — change name, scope, limits, expiry or IPs
+// DELETE /api/agent/keys/:hash        — revoke a key
+// POST   /api/agent/keys/:hash/rotate — replace a key, keeping the old one
+//                                       working for a grace period
+//
+// Keys are addressed by their keyHash. Only the hash is stored, so a secret
+// that is lost cannot be recovered — rotate the key instead.
+//
+// ============================================================================
+
+import { z } from "zod";
+import type { AgentKeyRecord } from "../types.js";
+import {
+  getAgentKey,
+  putAgentKey,
+  revokeAgentKey,
+  listAgentKeys,
+} from "../utils/kv.js";
+import {
+  describeAgentKey,
+  issueAgentKey,
+  rotateAgentKey,
+  DEFAULT_KEY_RATE_LIMIT,
+  DEFAULT_ROTATION_GRACE_SECONDS,
+  MAX_ROTATION_GRACE_SECONDS,
+} from "../utils/keys.js";
+import { isValidCidr } from "../utils/ip.js";
+import { summarizeChanges } from "../utils/audit.js";
+import { getStorage, type AgentCMSEnv } from "./public.js";
+import { json, authenticateAgent, withRateLimit, withAudit } from "./shared.js";
+
+const KEY_HASH_REGEX = /^[a-f0-9]{64}$/;
+
+/** Key fields summarised in audit entries. */
+const KEY_AUDIT_FIELDS = [
+  "name",
+  "scope",
+  "rateLimit",
+  "quotas",
+  "expiresAt",
+  "notBefore",
+  "allowedIps",
+  "policy",
+] as const satisfies ReadonlyArray<keyof AgentKeyRecord>;
+
+const QuotaLimitSchema = z.object({
+  perHour: z.number().int().min(1).optional(),
+  perDay: z.number().int().min(1).optional(),
+});
+
+const QuotasSchema = z
+  .object({
+    read: QuotaLimitSchema,
+    publish: QuotaLimitSchema,
+    update: QuotaLimitSchema,
+    delete: QuotaLimitSchema,
+    upload: QuotaLimitSchema,
+  })
+  .partial();
+
+const AllowedIpsSchema = z
+  .array(z.string().refine(isValidCidr, "Expected an IP address or CIDR range"))
+  .min(1)
+  .max(50);
+
+const PolicySchema = z.object({
+  categories: z.array(z.string().min(1)).max(100).optional(),
+  tags: z.array(z.string().min(1)).max(500).optional(),
+  slugPrefixes: z.array(z.string().regex(/^[a-z0-9-]+$/)).max(50).optional(),
+  editOthers: z.boolean().optional(),
+  maxContentLength: z.number().int().min(1).optional(),
+  allowFeatured: z.boolean().optional(),
+  allowNoindex: z.boolean().optional(),
+  allowCanonicalUrl: z.boolean().optional(),
+});
+
+const KeyCreateSchema = z.object({
+  name: z.string().min(1).max(100),
+  scope: z.enum(["admin", "publish", "draft-only", "read-only"]).default("publish"),
+  rateLimit: z.number().int().min(1).max(100_000).default(DEFAULT_KEY_RATE_LIMIT),
+  quotas: QuotasSchema.optional(),
+  expiresAt: z.string().datetime().optional(),
+  notBefore: z.string().datetime().optional(),
+  allowedIps: AllowedIpsSchema.optional(),
+  policy: PolicySchema.optional(),
+  signing: z.boolean().default(false),
+});
+
+/** null clears an optional field. */
+const KeyUpdateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  scope: z.enum(["admin", "publish", "draft-only", "read-only"]).optional(),
+  rateLimit: z.number().int().min(1).max(100_000).optional(),
+  quotas: QuotasSchema.optional().nullable(),
+  expiresAt: z.string().datetime().optional().nullable(),
+  notBefore: z.string().datetime().optional().nullable(),
+  allowedIps: AllowedIpsSchema.optional().nullable(),
+  policy: PolicySchema.optional().nullable(),
+});
+
+const KeyRotateSchema = z.object({
+  graceSeconds: z
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_ROTATION_GRACE_SECONDS)
+    .default(DEFAULT_ROTATION_GRACE_SECONDS),
+});
+
+async function readBody(request: Request): Promise<{ body: unknown } | Response> {
+  // An empty body is allowed where every field has a default
+  const text = await request.text();
+  if (text.trim() === "") return { body: {} };
+  try {
+    return { body: JSON.parse(text) };
+  } catch {
+    return json({ error: "Invalid JSON body" }, 400);
+  }
+}
+
+/**
+ * GET /api/agent/keys — List every key of the site, oldest first. Secrets are
+ * never stored, so none are returned.
+ */
+export async function handleListKeys(
+  request: Request,
+  env: AgentCMSEnv
+): Promise<Response> {
+  const kv = getStorage(env);
+  const pfx = env.AGENTCMS_PREFIX;
+
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  if (agent.scope !== "admin") return json({ error: "Requires admin scope" }, 403);
+
+  return withRateLimit(env, agent, "read", async () => {
+    const keys = (await listAgentKeys(kv, pfx)).map(describeAgentKey);
+    return json({ keys, total: keys.length });
+  });
+}
+
+/**
+ * POST /api/agent/keys — Create a key. Body: { name, scope?, rateLimit?,
+ * quotas?, expiresAt?, notBefore?, allowedIps?, policy?, signing? }. The
+ * response carries the only copy of the secret, and of the signing secret
+ * when signing is true.
+ */
+export async function handleCreateKey(
+  request: Request,
+  env: AgentCMSEnv
+): Promise<Response> {
+  const kv = getStorage(env);
+  const pfx = env.AGENTCMS_PREFIX;
+
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  if (agent.scope !== "admin") return json({ error: "Requires admin scope" }, 403);
+
+  return withAudit(env, request, agent, "key.create", undefined, (trail) =>
+    withRateLimit(env, agent, "update", async () => {
+      const read = await readBody(request);
+      if (read instanceof Response) return read;
+
+      const parsed = KeyCreateSchema.safeParse(read.body);
+      if (!parsed.success) {
+        return json({ error: "Validation failed", details: parsed.error.flatten() }, 422);
+      }
+
+      const { apiKey, signingSecret, record } = await issueAgentKey({
+        ...parsed.data,
+        metadata: { createdBy: agent.name },
+        pepper: env.AGENTCMS_KEY_PEPPER,
+      });
+      await putAgentKey(kv, record, pfx);
+      trail.slug = record.keyHash;
+      trail.changes = summarizeChanges(null, record, KEY_AUDIT_FIELDS);
+
+      return json(
+        { success: true, apiKey, ...(signingSecret ? { signingSecret } : {}), key: describeAgentKey(record) },
+        201
+      );
+    })
+  );
+}
+
+/**
+ * PUT /api/agent/keys/:hash — Change a key's name, scope, rate limit,
+ * quotas, validity window, IP allowlist or policy; null clears an optional
+ * field. A policy is replaced whole, not merged. An admin cannot lower its own
+ * scope, so a site is never left without a working admin key by accident.
+ */
+export async function handleUpdateKey(
+  request: Request,
+  env: AgentCMSEnv,
+  keyHash: string
+): Promise<Response> {
+  if (!KEY_HASH_REGEX.test(keyHash)) return json({ error: "Invalid key id" }, 400);
+
+  const kv = getStorage(env);
+  const pfx = env.AGENTCMS_PREFIX;
+
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  if (agent.scope !== "admin") return json({ error: "Requires admin scope" }, 403);
+
+  return withAudit(env, request, agent, "key.update", keyHash, (trail) =>
+    withRateLimit(env, agent, "update", async () => {
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        return json({ error: "Invalid JSON body" }, 400);
+      }
+
+      const parsed = KeyUpdateSchema.safeParse(body);
+      if (!parsed.success) {
+        return json({ error: "Validation failed", details: parsed.error.flatten() }, 422);
+      }
+
+      const record = await getAgentKey(kv, keyHash, pfx);
+      if (!record) return json({ error: "Key not found" }, 404);
+
+      const { name, scope, rateLimit, ...clearable } = parsed.data;
+      if (keyHash === agent.keyHash && scope && scope !== "admin") {
+        return json({ error: "Cannot lower the scope of the key making this request" }, 409);
+      }
+
+      const updated: AgentKeyRecord = { ...record };
+      if (name !== undefined) updated.name = name;
+      if (scope !== undefined) updated.scope = scope;
+      if (rateLimit !== undefined) updated.rateLimit = rateLimit;
+      for (const [field, value] of Object.entries(clearable)) {
+        if (value === null) delete updated[field as keyof typeof clearable];
+        else if (value !== undefined) Object.assign(updated, { [field]: value });
+      }
+
+      await putAgentKey(kv, updated, pfx);
+      trail.changes = summarizeChanges(record, updated, KEY_AUDIT_FIELDS);
+      return json({ success: true, key: describeAgentKey(updated) });
+    })
+  );
+}
+
+/**
+ * DELETE /api/agent/keys/:hash — Revoke a key immediately. The key making
+ * the request cannot revoke itself.
+ */
+export async function handleRevokeKey(
+  request: Request,
+  env: AgentCMSEnv,
+  keyHash: string
+): Promise<Response> {
+  if (!KEY_HASH_REGEX.test(keyHash)) return json({ error: "Invalid key id" }, 400);
+
+  const kv = getStorage(env);
+  const pfx = env.AGENTCMS_PREFIX;
+
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  if (agent.scope !== "admin") return json({ error: "Requires admin scope" }, 403);
+
+  return withAudit(env, request, agent, "key.revoke", keyHash, () =>
+    withRateLimit(env, agent, "delete", async () => {
+      if (keyHash === agent.keyHash) {
+        return json({ error: "Cannot revoke the key making this request" }, 409);
+      }
+
+      const record = await getAgentKey(kv, keyHash, pfx);
+      if (!record) return json({ error: "Key not found" }, 404);
+
+      await revokeAgentKey(kv, keyHash, pfx);
+      return json({ success: true, revoked: keyHash, name: record.name });
+    })
+  );
+}
+
+/**
+ * POST /api/agent/keys/:hash/rotate — Issue a new secret with the same name,
+ * scope and limits. Body: { graceSeconds? } (default one day, max 30 days,
+ * 0 revokes the old key at once). The old key keeps working until its
+ * expiresAt, giving the agent time to switch over.
+ */
+export async function handleRotateKey(
+  request: Request,
+  env: AgentCMSEnv,
+  keyHash: string
+): Promise<Response> {
+  if (!KEY_HASH_REGEX.test(keyHash)) return json({ error: "Invalid key id" }, 400);
+
+  const kv = getStorage(env);
+  const pfx = env.AGENTCMS_PREFIX;
+
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  if (agent.scope !== "admin") return json({ error: "Requires admin scope" }, 403);
+
+  return withAudit(env, request, agent, "key.rotate", keyHash, (trail) =>
+    withRateLimit(env, agent, "update", async () => {
+      const read = await readBody(request);
+      if (read instanceof Response) return read;
+
+      const parsed = KeyRotateSchema.safeParse(read.body);
+      if (!parsed.success) {
+        return json({ error: "Validation failed", details: parsed.error.flatten() }, 422);
+      }
+
+      const old = await getAgentKey(kv, keyHash, pfx);
+      if (!old) return json({ error: "Key not found" }, 404);
+      if (old.rotatedTo) {
+        return json({ error: "Key was already rotated", rotatedTo: old.rotatedTo }, 409);
+      }
+
+      const { apiKey, signingSecret, record, expiresAt } = await rotateAgentKey(
+        kv,
+        old,
+        parsed.data.graceSeconds,
+        pfx,
+        env.AGENTCMS_KEY_PEPPER
+      );
+      trail.changes = summarizeChanges(old, { ...old, expiresAt, rotatedTo: record.keyHash }, [
+        "expiresAt",
+        "rotatedTo",
+      ]);
+
+      return json(
+        {
+          success: true,
+          apiKey,
+          ...(signingSecret ? { signingSecret } : {}),
+          key: describeAgentKey(record),
+          previous: { keyHash, expiresAt },
+        },
+        201
+      );
+    })
+  );
+}
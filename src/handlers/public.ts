@@ -7,17 +7,98 @@
 //
 // ============================================================================
 
-import type { AgentCMSPost, SitemapOptions, RobotsTxtOptions } from "../types.js";
-import { getPost, getIndex } from "../utils/kv.js";
+import type {
+  AgentCMSPost,
+  ContentTypeOptions,
+  SitemapOptions,
+  RobotsTxtOptions,
+  SiteRegistryEntry,
+} from "../types.js";
+import {
+  getPost,
+  getIndex,
+  getTrashedPost,
+  getRedirect,
+  listRedirectSlugs,
+  getConfig,
+} from "../utils/kv.js";
 import { queryPosts, queryTags, queryCategories } from "../utils/query.js";
-import { generateSitemapXml, generateRobotsTxt } from "../utils/sitemap.js";
+import {
+  generateSitemapXml,
+  generateRobotsTxt,
+  generateRssXml,
+  type RssFeedOptions,
+} from "../utils/sitemap.js";
+import { kvStorage, type StorageAdapter } from "../utils/storage.js";
+import type { RateLimiterNamespace } from "../utils/rate-limit.js";
 import { Marked } from "marked";
 
 export interface AgentCMSEnv {
-  AGENTCMS_KV: KVNamespace;
+  AGENTCMS_KV?: KVNamespace;
   AGENTCMS_R2?: R2Bucket;
   /** Optional KV key prefix to isolate data when sharing a namespace. */
   AGENTCMS_PREFIX?: string;
+  /**
+   * Storage adapter to use instead of AGENTCMS_KV (e.g. d1Storage or
+   * memoryStorage). Set by agentcmsMiddleware's `storage` option.
+   */
+  AGENTCMS_STORAGE?: StorageAdapter;
+  /** Post revisions kept per slug. Default: 20 */
+  AGENTCMS_REVISION_LIMIT?: string;
+  /**
+   * Durable Object namespace bound to AgentCMSRateLimiter. When set, rate
+   * limits are enforced atomically over a sliding window instead of with
+   * the eventually consistent KV counter.
+   */
+  AGENTCMS_RATE_LIMITER?: RateLimiterNamespace;
+  /**
+   * Per-scope quota overrides as JSON, e.g.
+   * {"publish":{"upload":{"perHour":20,"perDay":100}}}. Keys' own `quotas`
+   * take precedence.
+   */
+  AGENTCMS_QUOTAS?: string;
+  /** Days a deleted post stays in the trash before it is purged. Default: 30 */
+  AGENTCMS_TRASH_RETENTION_DAYS?: string;
+  /** Days audit log entries are kept. Default: 90 */
+  AGENTCMS_AUDIT_RETENTION_DAYS?: string;
+  /**
+   * Secret mixed into stored key hashes (HMAC-SHA256). Set it with
+   * `wrangler secret put`; changing or removing it invalidates keys hashed with it.
+   */
+  AGENTCMS_KEY_PEPPER?: string;
+  /**
+   * Site resolved from the request host by agentcmsMiddleware({ sites: true }).
+   * AGENTCMS_PREFIX is set to its prefix, and its images are stored under
+   * that prefix in R2.
+   */
+  AGENTCMS_SITE?: SiteRegistryEntry;
+  /**
+   * Content types the agent API serves, from the integration's contentTypes
+   * or agentcmsMiddleware({ contentTypes }). Not a binding.
+   */
+  AGENTCMS_CONTENT_TYPES?: Record<string, ContentTypeOptions>;
+}
+
+/**
+ * Resolve the storage adapter for a request: an explicit AGENTCMS_STORAGE
+ * adapter wins, otherwise the AGENTCMS_KV binding is wrapped with kvStorage.
+ */
+export function getStorage(env: AgentCMSEnv): StorageAdapter {
+  if (env.AGENTCMS_STORAGE) return env.AGENTCMS_STORAGE;
+  if (!env.AGENTCMS_KV) {
+    throw new Error(
+      "AgentCMS: no storage configured. Bind AGENTCMS_KV or pass a storage adapter."
+    );
+  }
+  return kvStorage(env.AGENTCMS_KV);
+}
+
+/**
+ * R2 key for an uploaded image. Registry sites keep their images under
+ * "<prefix>/"; single-site deployments store them at the top level.
+ */
+export function imageObjectKey(env: AgentCMSEnv, key: string): string {
+  return env.AGENTCMS_SITE ? `${env.AGENTCMS_SITE.prefix}/${key}` : key;
 }
 
 const marked = new Marked();
@@ -35,7 +116,8 @@ function json(data: unknown, status = 200): Response {
 /**
  * GET /api/posts — List published posts with pagination and filtering.
  *
- * Query params: page, limit, tag, category, featured, author, authorType
+ * Query params: page, limit, tag, category, featured, author, authorType,
+ * fields ("summary" returns index entries without reading each post)
  */
 export async function handleListPosts(
   request: Request,
@@ -51,8 +133,9 @@ export async function handleListPosts(
   const author = url.searchParams.get("author") || undefined;
   const authorTypeParam = url.searchParams.get("authorType");
   const authorType = authorTypeParam === "agent" || authorTypeParam === "human" ? authorTypeParam : undefined;
+  const fields = url.searchParams.get("fields") === "summary" ? "summary" : "full";
 
-  const result = await queryPosts(env.AGENTCMS_KV, {
+  const result = await queryPosts(getStorage(env), {
     page,
     limit,
     tag,
@@ -60,6 +143,7 @@ export async function handleListPosts(
     featured,
     author,
     authorType,
+    fields,
   }, env.AGENTCMS_PREFIX);
 
   return json(result);
@@ -75,8 +159,26 @@ export async function handleGetPost(
   env: AgentCMSEnv,
   slug: string
 ): Promise<Response> {
-  const post = await getPost(env.AGENTCMS_KV, slug, env.AGENTCMS_PREFIX);
+  const kv = getStorage(env);
+
+  // Redirects win over a post at the same slug
+  const redirect = await getRedirect(kv, slug, env.AGENTCMS_PREFIX);
+  if (redirect) {
+    const url = new URL(request.url);
+    const location = /^[a-z0-9-]+$/.test(redirect.to)
+      ? url.pathname.replace(/[^/]+$/, redirect.to)
+      : redirect.to;
+    return new Response(null, {
+      status: 301,
+      headers: { Location: location, "Cache-Control": "public, max-age=3600" },
+    });
+  }
+
+  const post = await getPost(kv, slug, env.AGENTCMS_PREFIX);
   if (!post) {
+    if (await getTrashedPost(kv, slug, env.AGENTCMS_PREFIX)) {
+      return json({ error: "Post has been deleted" }, 410);
+    }
     return json({ error: "Post not found" }, 404);
   }
   if (post.status !== "published") {
@@ -98,7 +200,7 @@ export async function handleListCategories(
   request: Request,
   env: AgentCMSEnv
 ): Promise<Response> {
-  const categories = await queryCategories(env.AGENTCMS_KV, env.AGENTCMS_PREFIX);
+  const categories = await queryCategories(getStorage(env), env.AGENTCMS_PREFIX);
   return json({ categories });
 }
 
@@ -109,7 +211,7 @@ export async function handleListTags(
   request: Request,
   env: AgentCMSEnv
 ): Promise<Response> {
-  const tags = await queryTags(env.AGENTCMS_KV, env.AGENTCMS_PREFIX);
+  const tags = await queryTags(getStorage(env), env.AGENTCMS_PREFIX);
   return json({ tags });
 }
 
@@ -122,8 +224,12 @@ export async function handleSitemap(
   options: SitemapOptions = {}
 ): Promise<Response> {
   const siteUrl = new URL(request.url).origin;
-  const index = await getIndex(env.AGENTCMS_KV, env.AGENTCMS_PREFIX);
-  const xml = generateSitemapXml(siteUrl, index.posts, options);
+  const kv = getStorage(env);
+  const index = await getIndex(kv, env.AGENTCMS_PREFIX);
+  // Only list canonical URLs: drop slugs that redirect elsewhere
+  const redirected = new Set(await listRedirectSlugs(kv, env.AGENTCMS_PREFIX));
+  const posts = index.posts.filter((p) => !redirected.has(p.slug));
+  const xml = generateSitemapXml(siteUrl, posts, options);
 
   return new Response(xml, {
     headers: {
@@ -133,6 +239,33 @@ export async function handleSitemap(
   });
 }
 
+/**
+ * GET /feed.xml — RSS feed of the latest published posts, titled from the
+ * site config.
+ */
+export async function handleFeed(
+  request: Request,
+  env: AgentCMSEnv,
+  options: RssFeedOptions = {}
+): Promise<Response> {
+  const siteUrl = new URL(request.url).origin;
+  const kv = getStorage(env);
+  const config = await getConfig(kv, env.AGENTCMS_PREFIX);
+  const { posts } = await queryPosts(kv, { limit: 50, fields: "summary" }, env.AGENTCMS_PREFIX);
+  const xml = generateRssXml(siteUrl, posts, {
+    title: config?.name || env.AGENTCMS_SITE?.name,
+    description: config?.description,
+    ...options,
+  });
+
+  return new Response(xml, {
+    headers: {
+      "Content-Type": "application/rss+xml; charset=utf-8",
+      "Cache-Control": "public, max-age=600",
+    },
+  });
+}
+
 /**
  * GET /robots.txt — Dynamic robots.txt with Sitemap directives.
  */
@@ -151,3 +284,30 @@ export async function handleRobotsTxt(
     },
   });
 }
+
+/**
+ * GET /images/:key — Serve an uploaded image from R2. Only keys in the
+ * upload handler's {8 hex}-{filename} format are read.
+ */
+export async function handleGetImage(
+  _request: Request,
+  env: AgentCMSEnv,
+  key: string
+): Promise<Response> {
+  const r2 = env.AGENTCMS_R2;
+  if (!r2) return new Response("Image storage not configured", { status: 500 });
+  if (!/^[a-f0-9]{8}-[a-z0-9._-]+$/i.test(key) || key.length > 120) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const object = await r2.get(imageObjectKey(env, key));
+  if (!object) return new Response("Not found", { status: 404 });
+
+  return new Response(object.body as ReadableStream, {
+    headers: {
+      "Content-Type": object.httpMetadata?.contentType || "application/octet-stream",
+      "Cache-Control": "public, max-age=31536000, immutable",
+      ETag: object.httpEtag,
+    },
+  });
+}
@@ -0,0 +1,236 @@
+import { describe, it, expect } from "vitest";
+import {
+  handlePublish,
+  handleAgentUpdatePost,
+  handleAgentGetPost,
+  handleAgentDeletePost,
+} from "./agent.js";
+import {
+  handleListRevisions,
+  handleGetRevision,
+  handleDiffRevisions,
+  handleRestoreRevision,
+} from "./revisions.js";
+import type { AgentCMSEnv } from "./public.js";
+import type { AgentKeyRecord, AgentKeyScope, PostRevisionSummary } from "../types.js";
+import { hashApiKey, getDraft, getIndex, getPost, KEYS } from "../utils/kv.js";
+import { memoryStorage } from "../utils/storage.js";
+
+const API_KEY = "acms_live_testkey";
+const DRAFT_KEY = "acms_draft_testkey";
+
+async function createEnv(): Promise<AgentCMSEnv> {
+  const keyHash = await hashApiKey(API_KEY);
+  const storage = memoryStorage({
+    [KEYS.agent(keyHash)]: JSON.stringify({
+      name: "test-agent",
+      keyHash,
+      scope: "publish",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      rateLimit: 100,
+    }),
+  });
+  return { AGENTCMS_STORAGE: storage, AGENTCMS_REVISION_LIMIT: "5" };
+}
+
+async function addKey(
+  env: AgentCMSEnv,
+  apiKey: string,
+  scope: AgentKeyScope,
+  fields: Partial<AgentKeyRecord> = {}
+): Promise<void> {
+  const keyHash = await hashApiKey(apiKey);
+  await env.AGENTCMS_STORAGE!.put(
+    KEYS.agent(keyHash),
+    JSON.stringify({
+      name: `${scope}-agent`,
+      keyHash,
+      scope,
+      createdAt: "2025-01-01T00:00:00.000Z",
+      rateLimit: 100,
+      ...fields,
+    })
+  );
+}
+
+function request(method: string, path: string, body?: unknown, apiKey = API_KEY): Request {
+  return new Request(`https://blog.test${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+      "X-Agent-Model": "test-model",
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+const ORIGINAL = "The original body of this post, long enough to pass the publish schema.";
+const REWRITE = "A rewritten body of this post that replaced the good original version.";
+
+describe("revision handlers", () => {
+  it("records, diffs and restores revisions", async () => {
+    const env = await createEnv();
+    await handlePublish(request("POST", "/api/agent/publish", { title: "Good Post", content: ORIGINAL }), env);
+    await handleAgentUpdatePost(request("PUT", "/api/agent/posts/good-post", { content: REWRITE }), env, "good-post");
+
+    const listRes = await handleListRevisions(request("GET", "/api/agent/posts/good-post/revisions"), env, "good-post");
+    const { revisions } = (await listRes.json()) as { revisions: PostRevisionSummary[] };
+    expect(revisions.map((r) => r.action)).toEqual(["update", "create"]);
+    expect(revisions[0]).toMatchObject({ author: "test-agent", model: "test-model" });
+
+    const original = revisions[1].id;
+    const diffRes = await handleDiffRevisions(
+      request("GET", `/api/agent/posts/good-post/revisions/diff?from=${original}`),
+      env,
+      "good-post"
+    );
+    const { diff } = (await diffRes.json()) as { diff: { content: string } };
+    expect(diff.content).toContain(`-${ORIGINAL}`);
+    expect(diff.content).toContain(`+${REWRITE}`);
+
+    const restoreRes = await handleRestoreRevision(
+      request("POST", `/api/agent/posts/good-post/revisions/${original}/restore`),
+      env,
+      "good-post",
+      original
+    );
+    expect(restoreRes.status).toBe(200);
+
+    const post = await handleAgentGetPost(request("GET", "/api/agent/posts/good-post"), env, "good-post");
+    expect(((await post.json()) as { content: string }).content).toBe(ORIGINAL);
+  });
+
+  it("restores into a pending draft for draft-only keys, leaving the live post listed", async () => {
+    const env = await createEnv();
+    await addKey(env, DRAFT_KEY, "draft-only");
+    await handlePublish(request("POST", "/api/agent/publish", { title: "Good Post", content: ORIGINAL }), env);
+    await handleAgentUpdatePost(request("PUT", "/api/agent/posts/good-post", { content: REWRITE }), env, "good-post");
+
+    const listRes = await handleListRevisions(request("GET", "/api/agent/posts/good-post/revisions"), env, "good-post");
+    const original = ((await listRes.json()) as { revisions: PostRevisionSummary[] }).revisions[1].id;
+    const res = await handleRestoreRevision(
+      request("POST", `/api/agent/posts/good-post/revisions/${original}/restore`, undefined, DRAFT_KEY),
+      env,
+      "good-post",
+      original
+    );
+    expect(res.status).toBe(200);
+    expect(((await res.json()) as { status: string }).status).toBe("draft");
+
+    const kv = env.AGENTCMS_STORAGE!;
+    expect((await getPost(kv, "good-post"))?.content).toBe(REWRITE);
+    expect((await getDraft(kv, "good-post"))?.content).toBe(ORIGINAL);
+    expect((await getIndex(kv)).posts.map((p) => p.slug)).toEqual(["good-post"]);
+  });
+
+  it("hides pending draft revisions from keys that did not write them", async () => {
+    const env = await createEnv();
+    await addKey(env, DRAFT_KEY, "draft-only");
+    await handlePublish(request("POST", "/api/agent/publish", { title: "Good Post", content: ORIGINAL }), env);
+    await handleAgentUpdatePost(
+      request("PUT", "/api/agent/posts/good-post", { content: REWRITE }, DRAFT_KEY),
+      env,
+      "good-post"
+    );
+    const list = async (apiKey: string) => {
+      const req = request("GET", "/api/agent/posts/good-post/revisions", undefined, apiKey);
+      const res = await handleListRevisions(req, env, "good-post");
+      return ((await res.json()) as { revisions: PostRevisionSummary[] }).revisions;
+    };
+
+    const [pending] = await list(DRAFT_KEY);
+    expect(pending).toMatchObject({ status: "draft", author: "draft-only-agent" });
+    expect((await list(API_KEY)).map((r) => r.action)).toEqual(["create"]);
+
+    const path = `/api/agent/posts/good-post/revisions/${pending.id}`;
+    const getRes = await handleGetRevision(request("GET", path), env, "good-post", pending.id);
+    expect(getRes.status).toBe(404);
+    const diffRes = await handleDiffRevisions(
+      request("GET", `/api/agent/posts/good-post/revisions/diff?from=${pending.id}`),
+      env,
+      "good-post"
+    );
+    expect(diffRes.status).toBe(404);
+  });
+
+  it("refuses a restore the key's policy does not allow", async () => {
+    const env = await createEnv();
+    const OTHER_KEY = "acms_live_otherkey";
+    await addKey(env, OTHER_KEY, "publish", { name: "other-agent", policy: { editOthers: false } });
+    await handlePublish(request("POST", "/api/agent/publish", { title: "Good Post", content: ORIGINAL }), env);
+    await handleAgentUpdatePost(request("PUT", "/api/agent/posts/good-post", { content: REWRITE }), env, "good-post");
+
+    const listRes = await handleListRevisions(request("GET", "/api/agent/posts/good-post/revisions"), env, "good-post");
+    const original = ((await listRes.json()) as { revisions: PostRevisionSummary[] }).revisions[1].id;
+    const res = await handleRestoreRevision(
+      request("POST", `/api/agent/posts/good-post/revisions/${original}/restore`, undefined, OTHER_KEY),
+      env,
+      "good-post",
+      original
+    );
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({ code: "policy_violation" });
+    expect((await getPost(env.AGENTCMS_STORAGE!, "good-post"))?.content).toBe(REWRITE);
+  });
+
+  it("refuses to replace another key's pending draft and clears its own on a live restore", async () => {
+    const env = await createEnv();
+    const ADMIN_KEY = "acms_live_adminkey";
+    await addKey(env, DRAFT_KEY, "draft-only");
+    await addKey(env, ADMIN_KEY, "admin");
+    await handlePublish(request("POST", "/api/agent/publish", { title: "Good Post", content: ORIGINAL }), env);
+    const listRes = await handleListRevisions(request("GET", "/api/agent/posts/good-post/revisions"), env, "good-post");
+    const [original] = ((await listRes.json()) as { revisions: PostRevisionSummary[] }).revisions;
+    await handleAgentUpdatePost(
+      request("PUT", "/api/agent/posts/good-post", { content: REWRITE }, DRAFT_KEY),
+      env,
+      "good-post"
+    );
+    const restore = (apiKey: string) =>
+      handleRestoreRevision(
+        request("POST", `/api/agent/posts/good-post/revisions/${original.id}/restore`, undefined, apiKey),
+        env,
+        "good-post",
+        original.id
+      );
+    const kv = env.AGENTCMS_STORAGE!;
+
+    const refused = await restore(API_KEY);
+    expect(refused.status).toBe(409);
+    expect(await refused.json()).toMatchObject({ error: "Post has a pending draft by another key" });
+    expect((await getDraft(kv, "good-post"))?.content).toBe(REWRITE);
+
+    expect((await restore(ADMIN_KEY)).status).toBe(200);
+    expect(await getDraft(kv, "good-post")).toBeNull();
+    expect((await getPost(kv, "good-post"))?.content).toBe(ORIGINAL);
+  });
+
+  it("refuses to restore a post that is in the trash", async () => {
+    const env = await createEnv();
+    await handlePublish(request("POST", "/api/agent/publish", { title: "Good Post", content: ORIGINAL }), env);
+    const listRes = await handleListRevisions(request("GET", "/api/agent/posts/good-post/revisions"), env, "good-post");
+    const [original] = ((await listRes.json()) as { revisions: PostRevisionSummary[] }).revisions;
+    await handleAgentDeletePost(request("DELETE", "/api/agent/posts/good-post"), env, "good-post");
+
+    const res = await handleRestoreRevision(
+      request("POST", `/api/agent/posts/good-post/revisions/${original.id}/restore`),
+      env,
+      "good-post",
+      original.id
+    );
+    expect(res.status).toBe(409);
+    expect(await getPost(env.AGENTCMS_STORAGE!, "good-post")).toBeNull();
+  });
+
+  it("returns 404 for unknown revisions", async () => {
+    const env = await createEnv();
+    const res = await handleRestoreRevision(
+      request("POST", "/api/agent/posts/nope/revisions/abc-0000/restore"),
+      env,
+      "nope",
+      "abc-0000"
+    );
+    expect(res.status).toBe(404);
+  });
+});
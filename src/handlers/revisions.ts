@@ -0,0 +1,258 @@
+// ============================================================================
+// AgentCMS — Revision Handlers (auth-required)
+// ============================================================================
+//
+// GET  /api/agent/posts/:slug/revisions                  — list revisions
+// GET  /api/agent/posts/:slug/revisions/diff?from&to     — diff two revisions
+// GET  /api/agent/posts/:slug/revisions/:id              — one full revision
+// POST /api/agent/posts/:slug/revisions/:id/restore      — restore a revision
+//
+// Each route also exists under /api/agent/types/:type/posts/... for the
+// revisions of a content type's entries.
+//
+// ============================================================================
+
+import type { AgentCMSPost } from "../types.js";
+import {
+  getPost,
+  putPost,
+  deleteDraft,
+  getTrashedPost,
+  unpublishPost,
+  updateIndex,
+} from "../utils/kv.js";
+import {
+  listRevisions,
+  getRevision,
+  recordRevision,
+  diffPosts,
+} from "../utils/revisions.js";
+import { computePostEtag } from "../utils/content.js";
+import { sendWebhook } from "../utils/webhook.js";
+import { summarizeChanges, POST_AUDIT_FIELDS } from "../utils/audit.js";
+import { getStorage, type AgentCMSEnv } from "./public.js";
+import {
+  json,
+  authenticateAgent,
+  canSeeRevision,
+  withRateLimit,
+  withAudit,
+  isValidSlug,
+  ifMatchSatisfied,
+  preconditionFailed,
+  policyDenied,
+  pendingDraftConflict,
+  revisionAuthor,
+  revisionLimit,
+  resolveContentTarget,
+  stampDraftEditor,
+} from "./shared.js";
+
+const REVISION_ID_REGEX = /^[a-z0-9]+-[a-f0-9]{4}$/;
+
+function isValidRevisionId(id: string | undefined): id is string {
+  return typeof id === "string" && REVISION_ID_REGEX.test(id);
+}
+
+/**
+ * GET /api/agent/posts/:slug/revisions — List stored revisions, newest first.
+ * Draft revisions another key wrote are left out (see canSeeRevision).
+ */
+export async function handleListRevisions(
+  request: Request,
+  env: AgentCMSEnv,
+  slug: string,
+  type?: string
+): Promise<Response> {
+  if (!isValidSlug(slug)) return json({ error: "Invalid slug" }, 400);
+
+  const kv = getStorage(env);
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
+
+  return withRateLimit(env, agent, "read", async () => {
+    const revisions = (await listRevisions(kv, slug, pfx)).filter((r) => canSeeRevision(agent, r));
+    return json({ slug, revisions, total: revisions.length });
+  });
+}
+
+/**
+ * GET /api/agent/posts/:slug/revisions/:id — Full post snapshot of one revision.
+ */
+export async function handleGetRevision(
+  request: Request,
+  env: AgentCMSEnv,
+  slug: string,
+  id: string,
+  type?: string
+): Promise<Response> {
+  if (!isValidSlug(slug)) return json({ error: "Invalid slug" }, 400);
+  if (!isValidRevisionId(id)) return json({ error: "Invalid revision id" }, 400);
+
+  const kv = getStorage(env);
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
+
+  return withRateLimit(env, agent, "read", async () => {
+    const revision = await getRevision(kv, slug, id, pfx);
+    if (!revision || !canSeeRevision(agent, revision)) {
+      return json({ error: "Revision not found" }, 404);
+    }
+
+    return json(revision);
+  });
+}
+
+/**
+ * GET /api/agent/posts/:slug/revisions/diff?from=<id>&to=<id|current>
+ *
+ * `to` defaults to the current live post.
+ */
+export async function handleDiffRevisions(
+  request: Request,
+  env: AgentCMSEnv,
+  slug: string,
+  type?: string
+): Promise<Response> {
+  if (!isValidSlug(slug)) return json({ error: "Invalid slug" }, 400);
+
+  const kv = getStorage(env);
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
+
+  return withRateLimit(env, agent, "read", async () => {
+    const url = new URL(request.url);
+    const fromId = url.searchParams.get("from") ?? undefined;
+    const toId = url.searchParams.get("to") || "current";
+    if (!isValidRevisionId(fromId)) {
+      return json({ error: "Query param 'from' must be a revision id" }, 400);
+    }
+    if (toId !== "current" && !isValidRevisionId(toId)) {
+      return json({ error: "Query param 'to' must be a revision id or 'current'" }, 400);
+    }
+
+    const from = await getRevision(kv, slug, fromId, pfx);
+    if (!from || !canSeeRevision(agent, from)) return json({ error: "Revision not found", id: fromId }, 404);
+
+    let to: AgentCMSPost | null;
+    if (toId === "current") {
+      to = await getPost(kv, slug, pfx);
+      if (!to) return json({ error: "Post not found" }, 404);
+    } else {
+      const revision = await getRevision(kv, slug, toId, pfx);
+      if (!revision || !canSeeRevision(agent, revision)) return json({ error: "Revision not found", id: toId }, 404);
+      to = revision.post;
+    }
+
+    return json({ slug, from: fromId, to: toId, diff: diffPosts(from.post, to) });
+  });
+}
+
+/**
+ * POST /api/agent/posts/:slug/revisions/:id/restore — Make a revision the
+ * current version. The restore itself is recorded as a new revision.
+ * Honours If-Match like PUT /api/agent/posts/:slug.
+ *
+ * Either way the restore replaces the post's pending draft, so it is refused
+ * while another key's draft is pending, and while the post is in the trash.
+ */
+export async function handleRestoreRevision(
+  request: Request,
+  env: AgentCMSEnv,
+  slug: string,
+  id: string,
+  type?: string
+): Promise<Response> {
+  if (!isValidSlug(slug)) return json({ error: "Invalid slug" }, 400);
+  if (!isValidRevisionId(id)) return json({ error: "Invalid revision id" }, 400);
+
+  const kv = getStorage(env);
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+  if (agent.scope === "read-only")
+    return json({ error: "API key does not have write access" }, 403);
+  const target = await resolveContentTarget(env, type);
+  if (target instanceof Response) return target;
+  const pfx = target.prefix;
+
+  return withAudit(env, request, agent, "revision.restore", slug, (trail) =>
+    withRateLimit(env, agent, "update", async ({ remaining }) => {
+      trail.type = target.type;
+      const revision = await getRevision(kv, slug, id, pfx);
+      if (!revision || !canSeeRevision(agent, revision)) {
+        return json({ error: "Revision not found" }, 404);
+      }
+      if (await getTrashedPost(kv, slug, pfx)) {
+        return json({ error: "Post is in the trash", slug }, 409);
+      }
+
+      const current = await getPost(kv, slug, pfx);
+      if (current) {
+        const currentEtag = await computePostEtag(current);
+        if (!ifMatchSatisfied(request.headers.get("If-Match"), currentEtag)) {
+          return preconditionFailed(current, currentEtag);
+        }
+      }
+
+      const now = new Date().toISOString();
+      let restored: AgentCMSPost = { ...revision.post, slug, updatedAt: now };
+      if (agent.scope === "draft-only") restored.status = "draft";
+      if (restored.status === "published" && !restored.publishedAt) {
+        restored.publishedAt = now;
+      }
+      const denied = policyDenied(agent, restored, current ?? undefined);
+      if (denied) return denied;
+      restored = stampDraftEditor(restored, agent);
+      const conflict = await pendingDraftConflict(kv, agent, slug, pfx);
+      if (conflict) return conflict;
+
+      // Like an update: a draft-only restore becomes a pending draft and
+      // leaves the live post and index alone, while restoring a draft
+      // revision with publish scope takes the live post off the site. A live
+      // restore drops the pending draft, which a promote would otherwise undo.
+      await putPost(kv, restored, pfx);
+      if (restored.status !== "draft") {
+        await deleteDraft(kv, slug, pfx);
+        await updateIndex(kv, restored, "upsert", pfx);
+      } else if (current && agent.scope !== "draft-only") {
+        await unpublishPost(kv, current, pfx);
+      }
+      const summary = await recordRevision(
+        kv,
+        restored,
+        "restore",
+        revisionAuthor(agent, request),
+        revisionLimit(env),
+        pfx
+      );
+      trail.changes = summarizeChanges(current, restored, POST_AUDIT_FIELDS);
+
+      const siteUrl = new URL(request.url).origin;
+      sendWebhook(kv, "post.updated", restored, siteUrl, env.AGENTCMS_PREFIX, target).catch(() => {});
+
+      const etag = await computePostEtag(restored);
+      return json(
+        {
+          success: true,
+          slug,
+          status: restored.status,
+          restoredFrom: id,
+          revision: summary.id,
+          etag,
+          remainingRequests: remaining,
+        },
+        200,
+        { ETag: etag }
+      );
+    })
+  );
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { handlePublish, handleAgentUpdatePost } from "./agent.js";
+import { handleScheduled, handleGetSchedule } from "./schedule.js";
+import type { AgentCMSEnv } from "./public.js";
+import type { AgentCMSPost } from "../types.js";
+import { hashApiKey, getIndex, getSchedule, KEYS } from "../utils/kv.js";
+import { memoryStorage, type StorageAdapter } from "../utils/storage.js";
+
+const API_KEY = "acms_live_testkey";
+const BODY = "A scheduled post body that is comfortably longer than fifty characters.";
+
+async function createEnv(): Promise<AgentCMSEnv & { AGENTCMS_STORAGE: StorageAdapter }> {
+  const keyHash = await hashApiKey(API_KEY);
+  const storage = memoryStorage({
+    [KEYS.agent(keyHash)]: JSON.stringify({
+      name: "test-agent",
+      keyHash,
+      scope: "publish",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      rateLimit: 100,
+    }),
+  });
+  return { AGENTCMS_STORAGE: storage };
+}
+
+function request(method: string, path: string, body?: unknown): Request {
+  return new Request(`https://blog.test${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${API_KEY}`, "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+function schedule(env: AgentCMSEnv, title: string, scheduledFor?: string) {
+  return handlePublish(
+    request("POST", "/api/agent/publish", { title, content: BODY, status: "scheduled", scheduledFor }),
+    env
+  );
+}
+
+describe("scheduled publishing", () => {
+  it("requires scheduledFor for scheduled posts", async () => {
+    const env = await createEnv();
+    const res = await schedule(env, "No Time Given");
+    expect(res.status).toBe(422);
+  });
+
+  it("publishes due posts and leaves future ones queued", async () => {
+    const env = await createEnv();
+    await schedule(env, "Due Post", "2030-01-01T09:00:00.000Z");
+    await schedule(env, "Later Post", "2030-06-01T09:00:00.000Z");
+    expect((await getIndex(env.AGENTCMS_STORAGE)).totalCount).toBe(0);
+
+    const result = await handleScheduled(env, new Date("2030-01-01T09:05:00.000Z"));
+    expect(result.published).toEqual(["due-post"]);
+
+    const post = await env.AGENTCMS_STORAGE.get<AgentCMSPost>(KEYS.post("due-post"), "json");
+    expect(post).toMatchObject({ status: "published", publishedAt: "2030-01-01T09:00:00.000Z" });
+    expect((await getIndex(env.AGENTCMS_STORAGE)).posts.map((p) => p.slug)).toEqual(["due-post"]);
+    expect((await getSchedule(env.AGENTCMS_STORAGE)).map((e) => e.slug)).toEqual(["later-post"]);
+  });
+
+  it("publishes due entries of content types too", async () => {
+    const env = { ...(await createEnv()), AGENTCMS_CONTENT_TYPES: { changelog: { basePath: "/changelog" } } };
+    await handlePublish(
+      request("POST", "/api/agent/types/changelog/publish", {
+        title: "Release 2.0",
+        content: BODY,
+        status: "scheduled",
+        scheduledFor: "2030-01-01T09:00:00.000Z",
+      }),
+      env,
+      "changelog"
+    );
+
+    const result = await handleScheduled(env, new Date("2030-01-01T09:05:00.000Z"));
+    expect(result.published).toEqual(["changelog/release-20"]);
+    expect((await getIndex(env.AGENTCMS_STORAGE, "types:changelog")).totalCount).toBe(1);
+    expect((await getIndex(env.AGENTCMS_STORAGE)).totalCount).toBe(0);
+  });
+
+  it("follows reschedules and unschedules", async () => {
+    const env = await createEnv();
+    await schedule(env, "Moved Post", "2030-01-01T09:00:00.000Z");
+    await handleAgentUpdatePost(
+      request("PUT", "/api/agent/posts/moved-post", { scheduledFor: "2030-02-01T09:00:00.000Z" }),
+      env,
+      "moved-post"
+    );
+
+    const early = await handleScheduled(env, new Date("2030-01-15T00:00:00.000Z"));
+    expect(early.published).toEqual([]);
+
+    await handleAgentUpdatePost(
+      request("PUT", "/api/agent/posts/moved-post", { status: "draft" }),
+      env,
+      "moved-post"
+    );
+    expect(await getSchedule(env.AGENTCMS_STORAGE)).toEqual([]);
+  });
+
+  it("lists the queue with due flags", async () => {
+    const env = await createEnv();
+    await schedule(env, "Past Post", "2020-01-01T00:00:00.000Z");
+    await schedule(env, "Future Post", "2999-01-01T00:00:00.000Z");
+
+    const res = await handleGetSchedule(request("GET", "/api/agent/schedule"), env);
+    const { posts } = (await res.json()) as { posts: Array<{ slug: string; due: boolean }> };
+    expect(posts).toMatchObject([
+      { slug: "past-post", due: true },
+      { slug: "future-post", due: false },
+    ]);
+  });
+});
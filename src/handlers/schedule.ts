@@ -0,0 +1,168 @@
+// ============================================================================
+// AgentCMS — Scheduled Publishing
+// ============================================================================
+//
+// handleScheduled(env) publishes every scheduled post whose scheduledFor has
+// passed. Call it from a Workers cron trigger:
+//
+//   export default {
+//     scheduled(_event, env, ctx) {
+//       ctx.waitUntil(handleScheduled(env));
+//     },
+//   };
+//
+// Pages projects have no cron triggers; agentcmsMiddleware({ scheduled: true })
+// runs it from request traffic instead. Multi-site deployments call
+// handleScheduledSites(env) to run it for every site in the registry.
+//
+// GET /api/agent/schedule — upcoming scheduled posts
+//
+// ============================================================================
+
+import type { AgentCMSPost, ScheduledPostEntry } from "../types.js";
+import {
+  getPost,
+  putPost,
+  updateIndex,
+  getSchedule,
+  syncSchedule,
+  unschedulePost,
+  getConfig,
+  listSites,
+} from "../utils/kv.js";
+import type { StorageAdapter } from "../utils/storage.js";
+import { recordRevision, type RevisionAuthor } from "../utils/revisions.js";
+import { sendWebhook } from "../utils/webhook.js";
+import { getStorage, type AgentCMSEnv } from "./public.js";
+import {
+  json,
+  authenticateAgent,
+  withRateLimit,
+  revisionLimit,
+  contentTypes,
+  resolveContentTarget,
+  type ContentTarget,
+} from "./shared.js";
+
+const SCHEDULER_AUTHOR: RevisionAuthor = { name: "scheduler", model: "none" };
+
+export interface ScheduledRunResult {
+  /** Slugs published by this run; content type entries as `<type>/<slug>`. */
+  published: string[];
+  /** Schedule entries dropped because the post no longer exists or is no longer scheduled. */
+  dropped: string[];
+}
+
+/**
+ * Publish scheduled posts that are due, then the due entries of each content
+ * type. publishedAt is set to the post's scheduledFor, so a late run still
+ * dates posts when they were meant to go out. Safe to run concurrently: a
+ * post already published by another run is no longer "scheduled" and is
+ * skipped.
+ */
+export async function handleScheduled(
+  env: AgentCMSEnv,
+  now: Date = new Date()
+): Promise<ScheduledRunResult> {
+  const kv = getStorage(env);
+  const pfx = env.AGENTCMS_PREFIX;
+  const result: ScheduledRunResult = { published: [], dropped: [] };
+
+  const config = (await getConfig(kv, pfx)) || globalThis.__AGENTCMS_CONFIG__?.site;
+  const siteUrl = config?.url || undefined;
+
+  await publishDue(env, kv, now, result, siteUrl);
+  for (const type of Object.keys(contentTypes(env))) {
+    const target = await resolveContentTarget(env, type);
+    if (!(target instanceof Response)) await publishDue(env, kv, now, result, siteUrl, target);
+  }
+  return result;
+}
+
+/** One namespace's share of handleScheduled: blog posts, or one content type. */
+async function publishDue(
+  env: AgentCMSEnv,
+  kv: StorageAdapter,
+  now: Date,
+  result: ScheduledRunResult,
+  siteUrl: string | undefined,
+  target?: ContentTarget
+): Promise<void> {
+  const pfx = target ? target.prefix : env.AGENTCMS_PREFIX;
+  const label = (slug: string) => (target?.type ? `${target.type}/${slug}` : slug);
+
+  const due = (await getSchedule(kv, pfx)).filter(
+    (e) => Date.parse(e.scheduledFor) <= now.getTime()
+  );
+
+  for (const entry of due) {
+    const post = await getPost(kv, entry.slug, pfx);
+    if (!post || post.status !== "scheduled" || !post.scheduledFor) {
+      await unschedulePost(kv, entry.slug, pfx);
+      result.dropped.push(label(entry.slug));
+      continue;
+    }
+
+    // Rescheduled since the entry was written: fix the entry, publish later
+    if (Date.parse(post.scheduledFor) > now.getTime()) {
+      await syncSchedule(kv, post, pfx);
+      continue;
+    }
+
+    const published: AgentCMSPost = {
+      ...post,
+      status: "published",
+      publishedAt: post.scheduledFor,
+      updatedAt: now.toISOString(),
+    };
+
+    await putPost(kv, published, pfx);
+    await updateIndex(kv, published, "upsert", pfx);
+    await recordRevision(kv, published, "update", SCHEDULER_AUTHOR, revisionLimit(env), pfx);
+    await sendWebhook(kv, "post.published", published, siteUrl, env.AGENTCMS_PREFIX, target);
+    result.published.push(label(published.slug));
+  }
+}
+
+/**
+ * Run handleScheduled for every site in the registry, each under its own
+ * prefix. Results are keyed by hostname.
+ */
+export async function handleScheduledSites(
+  env: AgentCMSEnv,
+  now: Date = new Date()
+): Promise<Record<string, ScheduledRunResult>> {
+  const results: Record<string, ScheduledRunResult> = {};
+  for (const site of await listSites(getStorage(env))) {
+    results[site.hostname] = await handleScheduled(
+      { ...env, AGENTCMS_PREFIX: site.prefix, AGENTCMS_SITE: site },
+      now
+    );
+  }
+  return results;
+}
+
+/**
+ * GET /api/agent/schedule — Scheduled posts, soonest first. Posts whose time
+ * has passed but which the scheduler has not run for yet are marked due.
+ */
+export async function handleGetSchedule(
+  request: Request,
+  env: AgentCMSEnv
+): Promise<Response> {
+  const kv = getStorage(env);
+  const pfx = env.AGENTCMS_PREFIX;
+  const agent = await authenticateAgent(request, env);
+  if (agent instanceof Response) return agent;
+
+  return withRateLimit(env, agent, "read", async () => {
+    const now = Date.now();
+    const schedule = await getSchedule(kv, pfx);
+    const posts = schedule.map((entry: ScheduledPostEntry) => ({
+      ...entry,
+      due: Date.parse(entry.scheduledFor) <= now,
+    }));
+
+    return json({ posts, total: posts.length, now: new Date(now).toISOString() });
+  });
+}
@@ -0,0 +1,204 @@
+// ============================================================================
+// AgentCMS — Agent Request Schemas
+// ============================================================================
+
+import { z } from "zod";
+import type { AgentCMSPost, CustomFieldDefinition } from "../types.js";
+import { calculateReadingTime, generateDescription } from "../utils/content.js";
+
+type CustomFields = Record<string, CustomFieldDefinition>;
+
+const MAX_CUSTOM_STRING_LENGTH = 2000;
+const MAX_CUSTOM_LIST_LENGTH = 50;
+
+export const PublishSchema = z.object({
+  title: z.string().min(5).max(200),
+  content: z.string().min(50),
+  contentHtml: z.string().optional(),
+  description: z.string().max(300).optional(),
+  tags: z.array(z.string()).max(10).default([]),
+  category: z.string().optional(),
+  status: z.enum(["published", "draft", "scheduled"]).default("published"),
+  scheduledFor: z.string().datetime().optional(),
+  featuredImage: z.string().url().optional(),
+  slug: z
+    .string()
+    .regex(/^[a-z0-9-]+$/)
+    .max(80)
+    .optional(),
+  featured: z.boolean().default(false),
+  noindex: z.boolean().default(false),
+  canonicalUrl: z.string().url().optional(),
+});
+
+export const UpdateSchema = z.object({
+  title: z.string().min(5).max(200).optional(),
+  content: z.string().min(50).optional(),
+  contentHtml: z.string().optional(),
+  description: z.string().max(300).optional(),
+  tags: z.array(z.string()).max(10).optional(),
+  category: z.string().optional(),
+  status: z.enum(["published", "draft", "scheduled"]).optional(),
+  scheduledFor: z.string().datetime().optional(),
+  featuredImage: z.string().url().optional().nullable(),
+  ogImage: z.string().url().optional().nullable(),
+  featured: z.boolean().optional(),
+  noindex: z.boolean().optional(),
+  canonicalUrl: z.string().url().optional().nullable(),
+});
+
+export const RenameSchema = z.object({
+  slug: z
+    .string()
+    .regex(/^[a-z0-9-]+$/)
+    .max(80),
+});
+
+/** Draft edits never change status — promote is the only way out. */
+export const DraftUpdateSchema = UpdateSchema.omit({ status: true });
+
+function customFieldValue(field: CustomFieldDefinition): z.ZodType {
+  const allowed = field.enum?.length ? z.literal(field.enum) : null;
+  switch (field.type) {
+    case "number":
+      return allowed ?? z.number();
+    case "boolean":
+      return z.boolean();
+    case "url":
+      return z.string().url();
+    case "date":
+      return z.string().date();
+    case "string[]":
+      return z.array(allowed ?? z.string().max(MAX_CUSTOM_STRING_LENGTH)).max(MAX_CUSTOM_LIST_LENGTH);
+    default:
+      return allowed ?? z.string().max(MAX_CUSTOM_STRING_LENGTH);
+  }
+}
+
+/**
+ * Schema for a post's `metadata`, generated from the site's custom fields.
+ * On publish, required fields must be present; on update every field is
+ * optional and null clears one that is not required. Undeclared fields are
+ * refused.
+ */
+export function customFieldsSchema(fields: CustomFields, mode: "publish" | "update") {
+  const shape: Record<string, z.ZodType> = {};
+  for (const [name, field] of Object.entries(fields)) {
+    const value = customFieldValue(field);
+    if (mode === "publish") shape[name] = field.required ? value : value.optional();
+    else shape[name] = field.required ? value.optional() : value.nullable().optional();
+  }
+  return z.strictObject(shape);
+}
+
+/** PublishSchema plus `metadata` checked against the site's custom fields. */
+export function publishSchemaFor(fields: CustomFields = {}) {
+  // prefault, unlike default, runs a missing metadata through the schema so
+  // required fields are reported
+  return PublishSchema.extend({ metadata: customFieldsSchema(fields, "publish").prefault({}) });
+}
+
+/** UpdateSchema plus `metadata` checked against the site's custom fields. */
+export function updateSchemaFor(fields: CustomFields = {}) {
+  return UpdateSchema.extend({ metadata: customFieldsSchema(fields, "update").optional() });
+}
+
+/** DraftUpdateSchema plus `metadata` checked against the site's custom fields. */
+export function draftUpdateSchemaFor(fields: CustomFields = {}) {
+  return updateSchemaFor(fields).omit({ status: true });
+}
+
+/** The custom fields as a JSON Schema object, for the skill definition. */
+export function customFieldsJsonSchema(fields: CustomFields): Record<string, unknown> {
+  const properties: Record<string, Record<string, unknown>> = {};
+  for (const [name, field] of Object.entries(fields)) {
+    const enumValues = field.enum?.length ? { enum: field.enum } : {};
+    const property: Record<string, unknown> =
+      field.type === "string[]"
+        ? { type: "array", items: { type: "string", ...enumValues } }
+        : field.type === "url"
+          ? { type: "string", format: "uri" }
+          : field.type === "date"
+            ? { type: "string", format: "date" }
+            : { type: field.type, ...enumValues };
+    properties[name] = field.description ? { ...property, description: field.description } : property;
+  }
+  const required = Object.keys(fields).filter((name) => fields[name].required);
+  return {
+    type: "object",
+    description: "Site-defined custom fields.",
+    ...(required.length ? { required } : {}),
+    properties,
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Message for a validation issue. Nested issues are prefixed with their full
+ * path (e.g. `metadata.sku: ...`), since flatten() files them under the
+ * top-level field only.
+ */
+export function issueMessage(issue: z.core.$ZodIssue): string {
+  return issue.path.length > 1 ? `${issue.path.map(String).join(".")}: ${issue.message}` : issue.message;
+}
+
+export type PostUpdate = z.infer<ReturnType<typeof updateSchemaFor>>;
+
+/** Custom field changes are merged field by field; null removes one. */
+function mergeMetadata(
+  existing: Record<string, unknown> | undefined,
+  changes: Record<string, unknown>
+): Record<string, unknown> {
+  const merged = { ...existing };
+  for (const [name, value] of Object.entries(changes)) {
+    if (value === null) delete merged[name];
+    else if (value !== undefined) merged[name] = value;
+  }
+  return merged;
+}
+
+/**
+ * Apply a validated partial update to a post. Null clears an optional field;
+ * slug and authorship are never changed.
+ */
+export function applyPostUpdate(
+  existing: AgentCMSPost,
+  data: PostUpdate,
+  now: string
+): AgentCMSPost {
+  const updated: AgentCMSPost = {
+    ...existing,
+    ...data,
+    featuredImage:
+      data.featuredImage === null
+        ? undefined
+        : (data.featuredImage ?? existing.featuredImage),
+    ogImage:
+      data.ogImage === null
+        ? undefined
+        : (data.ogImage ?? existing.ogImage),
+    canonicalUrl:
+      data.canonicalUrl === null
+        ? undefined
+        : (data.canonicalUrl ?? existing.canonicalUrl),
+    metadata: data.metadata ? mergeMetadata(existing.metadata, data.metadata) : existing.metadata,
+    slug: existing.slug,
+    author: existing.author,
+    authorType: existing.authorType,
+    updatedAt: now,
+  };
+
+  if (data.content) {
+    updated.readingTime = calculateReadingTime(data.content);
+    if (!data.description) {
+      updated.description =
+        existing.description || generateDescription(data.content);
+    }
+  }
+
+  if (data.status === "published" && !existing.publishedAt) {
+    updated.publishedAt = now;
+  }
+
+  return updated;
+}
@@ -0,0 +1,372 @@
+// ============================================================================
+// AgentCMS — Shared Agent Handler Helpers
+// ============================================================================
+
+import type {
+  AgentCMSPost,
+  AgentKeyRecord,
+  AuditAction,
+  ContentTypeOptions,
+  CustomFieldDefinition,
+  PostRevisionSummary,
+  RateLimitOperation,
+} from "../types.js";
+import { DEFAULT_AUDIT_RETENTION_DAYS, recordAudit } from "../utils/audit.js";
+import {
+  checkApiKey,
+  contentTypePrefix,
+  getConfig,
+  getDraft,
+  type ApiKeyErrorCode,
+} from "../utils/kv.js";
+import { checkPostPolicy } from "../utils/policy.js";
+import { SIGNATURE_SCHEME, sha256Hex } from "../utils/signing.js";
+import { DEFAULT_REVISION_LIMIT, type RevisionAuthor } from "../utils/revisions.js";
+import {
+  checkQuota,
+  durableObjectRateLimiter,
+  kvRateLimiter,
+  rateLimitHeaders,
+  type QuotaStatus,
+  type RateLimiter,
+  type ScopeQuotas,
+} from "../utils/rate-limit.js";
+import type { StorageAdapter } from "../utils/storage.js";
+import { getStorage, type AgentCMSEnv } from "./public.js";
+
+export function json(
+  data: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+const SLUG_REGEX = /^[a-z0-9-]+$/;
+const SLUG_MAX_LEN = 80;
+
+export function isValidSlug(slug: string | undefined): slug is string {
+  return (
+    typeof slug === "string" &&
+    slug.length > 0 &&
+    slug.length <= SLUG_MAX_LEN &&
+    SLUG_REGEX.test(slug)
+  );
+}
+
+/**
+ * Check an If-Match header against the current ETag. A missing header always
+ * matches (unconditional write); "*" matches any existing post. If-Match uses
+ * strong comparison (RFC 9110), so a weak validator never matches.
+ */
+export function ifMatchSatisfied(header: string | null, etag: string): boolean {
+  if (header === null) return true;
+  const tags = header.split(",").map((t) => t.trim());
+  return tags.includes("*") || tags.includes(etag);
+}
+
+/**
+ * 412 response carrying the current version so the agent can re-apply its
+ * change on top of it and retry.
+ */
+export function preconditionFailed(current: unknown, etag: string): Response {
+  return json(
+    {
+      error: "Precondition failed: the post was modified by another writer",
+      etag,
+      current,
+    },
+    412,
+    { ETag: etag }
+  );
+}
+
+/**
+ * Read a positive integer setting from an env var, falling back when unset
+ * or malformed.
+ */
+export function intFromEnv(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const AUTH_ERRORS: Record<ApiKeyErrorCode, { status: number; error: string }> = {
+  missing_key: { status: 401, error: "Invalid or missing API key" },
+  invalid_key: { status: 401, error: "Invalid or missing API key" },
+  key_expired: { status: 401, error: "API key has expired" },
+  key_not_yet_valid: { status: 401, error: "API key is not valid yet" },
+  ip_not_allowed: { status: 403, error: "API key may not be used from this IP address" },
+  invalid_signature: { status: 401, error: "Invalid request signature" },
+  stale_timestamp: { status: 401, error: "Request timestamp is too far from the server clock" },
+  replayed_nonce: { status: 401, error: "Request nonce was already used" },
+  invalid_token: { status: 401, error: "Invalid or unrecognised JWT" },
+};
+
+/**
+ * Authenticate the request's agent — a Bearer key or JWT, or a signed
+ * request — or build the error response to send instead. Refusals carry a
+ * machine-readable `code` next to `error`.
+ */
+export async function authenticateAgent(
+  request: Request,
+  env: AgentCMSEnv
+): Promise<AgentKeyRecord | Response> {
+  const authHeader = request.headers.get("Authorization");
+  const url = new URL(request.url);
+  // Only signed requests need the body; clone so the handler can still read it
+  const signed = authHeader?.startsWith(`${SIGNATURE_SCHEME} `)
+    ? {
+        method: request.method,
+        path: url.pathname + url.search,
+        bodyHash: await sha256Hex(await request.clone().arrayBuffer()),
+      }
+    : undefined;
+  const check = await checkApiKey(getStorage(env), authHeader, env.AGENTCMS_PREFIX, {
+    ip: request.headers.get("CF-Connecting-IP"),
+    request: signed,
+    pepper: env.AGENTCMS_KEY_PEPPER,
+  });
+  if (check.ok) return check.record;
+  const { status, error } = AUTH_ERRORS[check.code];
+  return json({ error, code: check.code }, status);
+}
+
+/**
+ * 403 listing the key policy rules a write would break, or null when the
+ * policy allows it. See checkPostPolicy for what `post` and `previous` are.
+ */
+export function policyDenied(
+  agent: AgentKeyRecord,
+  post: AgentCMSPost,
+  previous?: AgentCMSPost
+): Response | null {
+  const violations = checkPostPolicy(agent, post, previous);
+  if (violations.length === 0) return null;
+  return json(
+    { error: "Key policy does not allow this change", code: "policy_violation", violations },
+    403
+  );
+}
+
+/**
+ * Whether a key can see a draft: admin keys see every draft, other keys only
+ * those they wrote. Drafts from before draftEditor was recorded fall back to
+ * their author.
+ */
+export function canSeeDraft(agent: AgentKeyRecord, draft: AgentCMSPost): boolean {
+  return agent.scope === "admin" || (draft.draftEditor ?? draft.author) === agent.name;
+}
+
+/**
+ * 409 when the post has a pending draft `agent` cannot see, which a write
+ * replacing the draft would throw away; null otherwise.
+ */
+export async function pendingDraftConflict(
+  kv: StorageAdapter,
+  agent: AgentKeyRecord,
+  slug: string,
+  prefix?: string
+): Promise<Response | null> {
+  const pending = await getDraft(kv, slug, prefix);
+  if (pending && !canSeeDraft(agent, pending)) {
+    return json({ error: "Post has a pending draft by another key", slug }, 409);
+  }
+  return null;
+}
+
+/**
+ * Whether a key can see a revision. Draft snapshots follow canSeeDraft, with
+ * the key that wrote the revision as the draft's editor; snapshots of a live
+ * post are visible to every key.
+ */
+export function canSeeRevision(agent: AgentKeyRecord, revision: PostRevisionSummary): boolean {
+  return revision.status !== "draft" || agent.scope === "admin" || revision.author === agent.name;
+}
+
+/**
+ * The copy of a post to store after `agent` writes it: a draft records the
+ * key as its editor, a live copy carries no editor.
+ */
+export function stampDraftEditor(post: AgentCMSPost, agent: AgentKeyRecord): AgentCMSPost {
+  const { draftEditor: _editor, ...rest } = post;
+  return post.status === "draft" ? { ...rest, draftEditor: agent.name } : rest;
+}
+
+/**
+ * Identify the writer of a revision from the agent key and request headers.
+ */
+export function revisionAuthor(agent: AgentKeyRecord, request: Request): RevisionAuthor {
+  return {
+    name: agent.name,
+    keyHash: agent.keyHash,
+    model: request.headers.get("X-Agent-Model") || "unknown",
+  };
+}
+
+export function revisionLimit(env: AgentCMSEnv): number {
+  return intFromEnv(env.AGENTCMS_REVISION_LIMIT, DEFAULT_REVISION_LIMIT);
+}
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export function trashRetentionDays(env: AgentCMSEnv): number {
+  return intFromEnv(env.AGENTCMS_TRASH_RETENTION_DAYS, DEFAULT_TRASH_RETENTION_DAYS);
+}
+
+export function auditRetentionDays(env: AgentCMSEnv): number {
+  return intFromEnv(env.AGENTCMS_AUDIT_RETENTION_DAYS, DEFAULT_AUDIT_RETENTION_DAYS);
+}
+
+/** The site's custom post fields: KV config first, then the inline site config. */
+export async function siteCustomFields(
+  env: AgentCMSEnv
+): Promise<Record<string, CustomFieldDefinition>> {
+  const config =
+    (await getConfig(getStorage(env), env.AGENTCMS_PREFIX)) || globalThis.__AGENTCMS_CONFIG__?.site;
+  return config?.customFields ?? {};
+}
+
+/** Declared content types: the env's, else the integration's page global. */
+export function contentTypes(env: AgentCMSEnv): Record<string, ContentTypeOptions> {
+  return env.AGENTCMS_CONTENT_TYPES ?? globalThis.__AGENTCMS_CONFIG__?.contentTypes ?? {};
+}
+
+/** Where an agent call reads and writes: blog posts, or one content type. */
+export interface ContentTarget {
+  /** Content type name; unset for blog posts. */
+  type?: string;
+  /** Prefix passed to the post helpers in place of the site prefix. */
+  prefix?: string;
+  basePath: string;
+  /** Custom fields checked in `metadata`. */
+  fields: Record<string, CustomFieldDefinition>;
+}
+
+/** The target for a content type, or 404 when the type is not declared. */
+export async function resolveContentTarget(
+  env: AgentCMSEnv,
+  type?: string
+): Promise<ContentTarget | Response> {
+  if (type === undefined) {
+    return {
+      prefix: env.AGENTCMS_PREFIX,
+      basePath: globalThis.__AGENTCMS_CONFIG__?.basePath || "/blog",
+      fields: await siteCustomFields(env),
+    };
+  }
+  const declared = contentTypes(env);
+  const definition = Object.hasOwn(declared, type) ? declared[type] : undefined;
+  if (!definition) return json({ error: "Unknown content type", type }, 404);
+  return {
+    type,
+    prefix: contentTypePrefix(type, env.AGENTCMS_PREFIX),
+    basePath: definition.basePath.replace(/\/$/, ""),
+    fields: definition.fields ?? {},
+  };
+}
+
+/** What a mutating call touched, filled in by the handler as it learns it. */
+export interface AuditTrail {
+  slug?: string;
+  /** Content type, for entries that are not blog posts. */
+  type?: string;
+  changes?: string[];
+}
+
+/**
+ * Run a mutating handler body and append an audit entry recording its
+ * outcome. The body sets `trail.slug` and `trail.changes` once it knows
+ * them. Failing to write the entry never fails the call.
+ */
+export async function withAudit(
+  env: AgentCMSEnv,
+  request: Request,
+  agent: AgentKeyRecord,
+  action: AuditAction,
+  slug: string | undefined,
+  run: (trail: AuditTrail) => Promise<Response>
+): Promise<Response> {
+  const trail: AuditTrail = { slug };
+  const ip = request.headers.get("CF-Connecting-IP");
+  const record = (status: number, error?: string) =>
+    recordAudit(
+      getStorage(env),
+      {
+        action,
+        keyName: agent.name,
+        keyHash: agent.keyHash,
+        scope: agent.scope,
+        ...(trail.slug ? { slug: trail.slug } : {}),
+        ...(trail.type ? { type: trail.type } : {}),
+        ...(ip ? { ip } : {}),
+        model: request.headers.get("X-Agent-Model") || "unknown",
+        outcome: status < 400 ? "success" : "failure",
+        status,
+        ...(error ? { error } : {}),
+        ...(status < 400 && trail.changes?.length ? { changes: trail.changes } : {}),
+      },
+      auditRetentionDays(env),
+      env.AGENTCMS_PREFIX
+    ).catch(() => {});
+
+  let res: Response;
+  try {
+    res = await run(trail);
+  } catch (err) {
+    await record(500, err instanceof Error ? err.message : "Internal error");
+    throw err;
+  }
+
+  let error: string | undefined;
+  if (res.status >= 400) {
+    const body = (await res.clone().json().catch(() => null)) as { code?: string; error?: string } | null;
+    error = body?.code ?? body?.error;
+  }
+  await record(res.status, error);
+  return res;
+}
+
+/**
+ * The Durable Object limiter when AGENTCMS_RATE_LIMITER is bound, otherwise
+ * the KV counter.
+ */
+export function getRateLimiter(env: AgentCMSEnv): RateLimiter {
+  return env.AGENTCMS_RATE_LIMITER
+    ? durableObjectRateLimiter(env.AGENTCMS_RATE_LIMITER, env.AGENTCMS_PREFIX)
+    : kvRateLimiter(getStorage(env), env.AGENTCMS_PREFIX);
+}
+
+/** Per-scope quota overrides from AGENTCMS_QUOTAS (JSON); {} when unset or invalid. */
+export function scopeQuotas(env: AgentCMSEnv): ScopeQuotas {
+  if (!env.AGENTCMS_QUOTAS) return {};
+  try {
+    return JSON.parse(env.AGENTCMS_QUOTAS) as ScopeQuotas;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Meter a request against the agent's quota for `operation`, then run the
+ * handler body if it is allowed. The response — the handler's, or the 429 —
+ * carries RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset and
+ * Retry-After so clients can back off without parsing the body.
+ */
+export async function withRateLimit(
+  env: AgentCMSEnv,
+  agent: AgentKeyRecord,
+  operation: RateLimitOperation,
+  run: (quota: QuotaStatus) => Promise<Response>
+): Promise<Response> {
+  const quota = await checkQuota(getRateLimiter(env), agent, operation, scopeQuotas(env));
+  const res = quota.allowed
+    ? await run(quota)
+    : json({ error: "Rate limit exceeded", operation, window: quota.window }, 429);
+  for (const [name, value] of Object.entries(rateLimitHeaders(quota))) {
+    res.headers.set(name, value);
+  }
+  return res;
+}
@@ -34,20 +34,47 @@ export type {
   AgentCMSPost,
   AgentCMSOptions,
   AgentCMSSiteConfig,
+  ContentTypeOptions,
+  CustomFieldDefinition,
+  JwtAuthConfig,
+  JwtPublicKey,
   PostIndex,
   PostIndexEntry,
+  PostIndexManifest,
+  PostIndexShard,
+  PostIndexFacet,
+  PostFacetIndex,
+  PostFacetCounts,
+  PostRevision,
+  PostRevisionSummary,
+  PostRevisionAction,
+  ScheduledPostEntry,
+  TrashedPost,
+  PostRedirect,
+  AuditAction,
+  AuditEntry,
+  SiteRegistryEntry,
   GetPostsOptions,
   GetPostsResult,
   AgentMetadata,
   AgentKeyRecord,
   AgentKeyScope,
+  AgentKeyQuotas,
+  AgentKeyPolicy,
+  QuotaLimit,
+  RateLimitOperation,
   AgentSkillDefinition,
+  AgentAuthScheme,
   SitemapOptions,
   RobotsTxtOptions,
   X402Config,
   X402SubmissionRecord,
 } from "./types.js";
 
+// --- Storage ---
+export { kvStorage, d1Storage, memoryStorage } from "./utils/storage.js";
+export type { StorageAdapter } from "./utils/storage.js";
+
 // --- Utils ---
 export {
   slugify,
@@ -55,6 +82,7 @@ export {
   generateDescription,
   extractHeadings,
 } from "./utils/content.js";
+export { signRequest, SIGNATURE_SCHEME } from "./utils/signing.js";
 
 // --- Data Helpers ---
 // These are the primary API for reading posts in .astro pages.
@@ -68,16 +96,24 @@ import type {
   AgentCMSPost,
   GetPostsOptions,
   GetPostsResult,
+  PostIndexEntry,
   AgentCMSSiteConfig,
 } from "./types.js";
-import { getPost } from "./utils/kv.js";
+import {
+  getPost,
+  getTrashedPost,
+  getRedirect,
+  redirectLocation,
+  contentTypePrefix,
+} from "./utils/kv.js";
 import { queryPosts, queryTags, queryCategories, queryConfig } from "./utils/query.js";
+import { kvStorage, type StorageAdapter } from "./utils/storage.js";
 
 /**
- * Get the KV namespace binding.
+ * Get the KV namespace binding, wrapped as a storage adapter.
  * Works in both Astro 6 (cloudflare:workers) and older patterns.
  */
-async function getKV(): Promise<KVNamespace> {
+async function getKV(): Promise<StorageAdapter> {
   // Astro 6 + Cloudflare: direct import
   const { env } = await import("cloudflare:workers");
   const bindingName =
@@ -90,7 +126,7 @@ async function getKV(): Promise<KVNamespace> {
         `"${bindingName}"`
     );
   }
-  return kv;
+  return kvStorage(kv);
 }
 
 /**
@@ -111,23 +147,53 @@ async function getKvPrefix(): Promise<string | undefined> {
 }
 
 /**
- * Get paginated, filterable posts
+ * Get paginated, filterable posts. Pass `fields: "summary"` for listings:
+ * index entries only, no read per post. `type` reads a content type's
+ * entries instead of blog posts.
  */
+export async function getAgentCMSPosts(
+  options: GetPostsOptions & { fields: "summary" }
+): Promise<GetPostsResult<PostIndexEntry>>;
+export async function getAgentCMSPosts(options?: GetPostsOptions): Promise<GetPostsResult>;
 export async function getAgentCMSPosts(
   options: GetPostsOptions = {}
-): Promise<GetPostsResult> {
+): Promise<GetPostsResult<AgentCMSPost | PostIndexEntry>> {
   const kv = await getKV();
-  return queryPosts(kv, options, await getKvPrefix());
+  return queryPosts(kv, options, contentTypePrefix(options.type, await getKvPrefix()));
 }
 
 /**
- * Get a single post by slug
+ * Get a single post by slug, or an entry of the given content type
  */
 export async function getAgentCMSPost(
-  slug: string
+  slug: string,
+  type?: string
 ): Promise<AgentCMSPost | null> {
   const kv = await getKV();
-  return getPost(kv, slug, await getKvPrefix());
+  return getPost(kv, slug, contentTypePrefix(type, await getKvPrefix()));
+}
+
+/**
+ * Where a redirected slug now lives (a path or absolute URL), or null when
+ * the slug has no redirect.
+ */
+export async function getAgentCMSRedirect(slug: string, type?: string): Promise<string | null> {
+  const kv = await getKV();
+  const redirect = await getRedirect(kv, slug, contentTypePrefix(type, await getKvPrefix()));
+  if (!redirect) return null;
+  const basePath = type
+    ? globalThis.__AGENTCMS_CONFIG__?.contentTypes?.[type]?.basePath ?? ""
+    : globalThis.__AGENTCMS_CONFIG__?.basePath || "/blog";
+  return redirectLocation(redirect.to, basePath);
+}
+
+/**
+ * Whether a slug belongs to a deleted post that is still in the trash.
+ * Pages use this to answer 410 Gone instead of 404.
+ */
+export async function isAgentCMSPostTrashed(slug: string, type?: string): Promise<boolean> {
+  const kv = await getKV();
+  return (await getTrashedPost(kv, slug, contentTypePrefix(type, await getKvPrefix()))) !== null;
 }
 
 /**
@@ -171,6 +237,7 @@ declare global {
         kvPrefix?: string;
         additionalSitemaps?: string[];
         site?: import("./types.js").AgentCMSSiteConfig;
+        contentTypes?: Record<string, import("./types.js").ContentTypeOptions>;
       }
     | undefined;
 }
@@ -1,5 +1,5 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
-import { resolveKvPrefix } from "./index.js";
+import { resolveContentTypes, resolveKvPrefix } from "./index.js";
 
 describe("resolveKvPrefix", () => {
   afterEach(() => {
@@ -29,3 +29,20 @@ describe("resolveKvPrefix", () => {
     expect(result === undefined || typeof result === "string").toBe(true);
   });
 });
+
+describe("resolveContentTypes", () => {
+  it("drops trailing slashes and serves root types at an empty base path", () => {
+    expect(
+      resolveContentTypes({ docs: { basePath: "/docs/" }, landing: { basePath: "/" } }, "/blog")
+    ).toEqual({ docs: { basePath: "/docs" }, landing: { basePath: "" } });
+  });
+
+  it("rejects bad names and base paths taken by the blog or another type", () => {
+    expect(() => resolveContentTypes({ Docs: { basePath: "/docs" } }, "/blog")).toThrow(/lowercase/);
+    expect(() => resolveContentTypes({ docs: { basePath: "docs" } }, "/blog")).toThrow(/start with/);
+    expect(() => resolveContentTypes({ news: { basePath: "/blog/" } }, "/blog")).toThrow(/the blog/);
+    expect(() =>
+      resolveContentTypes({ docs: { basePath: "/docs" }, guides: { basePath: "/docs" } }, "/blog")
+    ).toThrow(/content type "docs"/);
+  });
+});
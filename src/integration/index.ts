@@ -11,7 +11,12 @@
 // ============================================================================
 
 import type { AstroIntegration } from "astro";
-import type { AgentCMSOptions } from "../types.js";
+import type { AgentCMSOptions, ContentTypeOptions } from "../types.js";
+
+/** Module that hands the content types to endpoints, which never see the page-ssr global. */
+const CONTENT_TYPES_MODULE = "virtual:agentcms/content-types";
+
+const CONTENT_TYPE_NAME_REGEX = /^[a-z0-9-]+$/;
 
 /**
  * Resolve the KV key prefix used to isolate this site's data when several sites
@@ -48,6 +53,35 @@ export async function resolveKvPrefix(
   return undefined;
 }
 
+/**
+ * Check content type names and normalize their base paths: no trailing
+ * slash, and "" for a type served at the site root. Throws on a name that
+ * cannot appear in a URL or key, or on a base path another route owns.
+ */
+export function resolveContentTypes(
+  types: Record<string, ContentTypeOptions>,
+  blogBase: string
+): Record<string, ContentTypeOptions> {
+  const resolved: Record<string, ContentTypeOptions> = {};
+  const taken = new Map<string, string>([[blogBase, "the blog"], ["/api", "the API"]]);
+  for (const [name, definition] of Object.entries(types)) {
+    if (!CONTENT_TYPE_NAME_REGEX.test(name)) {
+      throw new Error(`AgentCMS: content type "${name}" must use lowercase letters, digits and dashes`);
+    }
+    if (!definition.basePath.startsWith("/")) {
+      throw new Error(`AgentCMS: basePath of content type "${name}" must start with "/"`);
+    }
+    const basePath = definition.basePath.replace(/\/$/, "");
+    const owner = taken.get(basePath);
+    if (owner) {
+      throw new Error(`AgentCMS: basePath "${definition.basePath}" of content type "${name}" is already used by ${owner}`);
+    }
+    taken.set(basePath, `content type "${name}"`);
+    resolved[name] = { ...definition, basePath };
+  }
+  return resolved;
+}
+
 export default function agentcms(
   options: AgentCMSOptions = {}
 ): AstroIntegration {
@@ -64,10 +98,13 @@ export default function agentcms(
     r2Binding = "AGENTCMS_R2",
     kvPrefix: kvPrefixOption,
     site,
+    contentTypes: contentTypeOptions = {},
   } = options;
 
   // Normalize basePath (no trailing slash)
   const base = basePath.replace(/\/$/, "");
+  const contentTypes = resolveContentTypes(contentTypeOptions, base || "/blog");
+  const hasContentTypes = Object.keys(contentTypes).length > 0;
 
   return {
     name: "agentcms",
@@ -83,6 +120,23 @@ export default function agentcms(
         // Resolve the KV prefix that isolates this site's data in a shared namespace.
         const kvPrefix = await resolveKvPrefix(kvPrefixOption);
 
+        // Serve the content types to endpoints as a virtual module
+        updateConfig({
+          vite: {
+            plugins: [
+              {
+                name: "agentcms:content-types",
+                resolveId: (id: string) =>
+                  id === CONTENT_TYPES_MODULE ? `\0${CONTENT_TYPES_MODULE}` : undefined,
+                load: (id: string) =>
+                  id === `\0${CONTENT_TYPES_MODULE}`
+                    ? `export default ${JSON.stringify(contentTypes)};`
+                    : undefined,
+              },
+            ],
+          },
+        });
+
         // ---------------------------------------------------------------
         // Always inject: Agent write API
         // ---------------------------------------------------------------
@@ -98,6 +152,140 @@ export default function agentcms(
           pattern: "/api/agent/posts/[slug]",
           entrypoint: "@agentcms/agentcms/routes/api/post.ts",
         });
+        injectRoute({
+          pattern: "/api/agent/posts/[slug]/revisions",
+          entrypoint: "@agentcms/agentcms/routes/api/revisions.ts",
+        });
+        injectRoute({
+          pattern: "/api/agent/posts/[slug]/revisions/diff",
+          entrypoint: "@agentcms/agentcms/routes/api/revision-diff.ts",
+        });
+        injectRoute({
+          pattern: "/api/agent/posts/[slug]/revisions/[id]",
+          entrypoint: "@agentcms/agentcms/routes/api/revision.ts",
+        });
+        injectRoute({
+          pattern: "/api/agent/posts/[slug]/revisions/[id]/restore",
+          entrypoint: "@agentcms/agentcms/routes/api/revision-restore.ts",
+        });
+        injectRoute({
+          pattern: "/api/agent/drafts",
+          entrypoint: "@agentcms/agentcms/routes/api/drafts.ts",
+        });
+        injectRoute({
+          pattern: "/api/agent/drafts/[slug]",
+          entrypoint: "@agentcms/agentcms/routes/api/draft.ts",
+        });
+        injectRoute({
+          pattern: "/api/agent/drafts/[slug]/promote",
+          entrypoint: "@agentcms/agentcms/routes/api/draft-promote.ts",
+        });
+        injectRoute({
+          pattern: "/api/agent/schedule",
+          entrypoint: "@agentcms/agentcms/routes/api/schedule.ts",
+        });
+        injectRoute({
+          pattern: "/api/agent/posts/[slug]/rename",
+          entrypoint: "@agentcms/agentcms/routes/api/rename.ts",
+        });
+        injectRoute({
+          pattern: "/api/agent/redirects",
+          entrypoint: "@agentcms/agentcms/routes/api/redirects.ts",
+        });
+        injectRoute({
+          pattern: "/api/agent/redirects/[from]",
+          entrypoint: "@agentcms/agentcms/routes/api/redirect.ts",
+        });
+        injectRoute({
+          pattern: "/api/agent/trash",
+          entrypoint: "@agentcms/agentcms/routes/api/trash.ts",
+        });
+        injectRoute({
+          pattern: "/api/agent/trash/[slug]/restore",
+          entrypoint: "@agentcms/agentcms/routes/api/trash-restore.ts",
+        });
+        injectRoute({
+          pattern: "/api/agent/keys",
+          entrypoint: "@agentcms/agentcms/routes/api/keys.ts",
+        });
+        injectRoute({
+          pattern: "/api/agent/keys/[hash]",
+          entrypoint: "@agentcms/agentcms/routes/api/key.ts",
+        });
+        injectRoute({
+          pattern: "/api/agent/keys/[hash]/rotate",
+          entrypoint: "@agentcms/agentcms/routes/api/key-rotate.ts",
+        });
+        injectRoute({
+          pattern: "/api/agent/audit",
+          entrypoint: "@agentcms/agentcms/routes/api/audit.ts",
+        });
+        if (hasContentTypes) {
+          injectRoute({
+            pattern: "/api/agent/types/[type]/publish",
+            entrypoint: "@agentcms/agentcms/routes/api/type-publish.ts",
+          });
+          injectRoute({
+            pattern: "/api/agent/types/[type]/posts",
+            entrypoint: "@agentcms/agentcms/routes/api/type-list.ts",
+          });
+          injectRoute({
+            pattern: "/api/agent/types/[type]/posts/[slug]",
+            entrypoint: "@agentcms/agentcms/routes/api/type-post.ts",
+          });
+          injectRoute({
+            pattern: "/api/agent/types/[type]/posts/[slug]/rename",
+            entrypoint: "@agentcms/agentcms/routes/api/type-rename.ts",
+          });
+          injectRoute({
+            pattern: "/api/agent/types/[type]/posts/[slug]/revisions",
+            entrypoint: "@agentcms/agentcms/routes/api/type-revisions.ts",
+          });
+          injectRoute({
+            pattern: "/api/agent/types/[type]/posts/[slug]/revisions/diff",
+            entrypoint: "@agentcms/agentcms/routes/api/type-revision-diff.ts",
+          });
+          injectRoute({
+            pattern: "/api/agent/types/[type]/posts/[slug]/revisions/[id]",
+            entrypoint: "@agentcms/agentcms/routes/api/type-revision.ts",
+          });
+          injectRoute({
+            pattern: "/api/agent/types/[type]/posts/[slug]/revisions/[id]/restore",
+            entrypoint: "@agentcms/agentcms/routes/api/type-revision-restore.ts",
+          });
+          injectRoute({
+            pattern: "/api/agent/types/[type]/drafts",
+            entrypoint: "@agentcms/agentcms/routes/api/type-drafts.ts",
+          });
+          injectRoute({
+            pattern: "/api/agent/types/[type]/drafts/[slug]",
+            entrypoint: "@agentcms/agentcms/routes/api/type-draft.ts",
+          });
+          injectRoute({
+            pattern: "/api/agent/types/[type]/drafts/[slug]/promote",
+            entrypoint: "@agentcms/agentcms/routes/api/type-draft-promote.ts",
+          });
+          injectRoute({
+            pattern: "/api/agent/types/[type]/trash",
+            entrypoint: "@agentcms/agentcms/routes/api/type-trash.ts",
+          });
+          injectRoute({
+            pattern: "/api/agent/types/[type]/trash/[slug]/restore",
+            entrypoint: "@agentcms/agentcms/routes/api/type-trash-restore.ts",
+          });
+          injectRoute({
+            pattern: "/api/agent/types/[type]/redirects",
+            entrypoint: "@agentcms/agentcms/routes/api/type-redirects.ts",
+          });
+          injectRoute({
+            pattern: "/api/agent/types/[type]/redirects/[from]",
+            entrypoint: "@agentcms/agentcms/routes/api/type-redirect.ts",
+          });
+          injectRoute({
+            pattern: "/api/agent/types/[type]/reindex",
+            entrypoint: "@agentcms/agentcms/routes/api/type-reindex.ts",
+          });
+        }
         injectRoute({
           pattern: "/api/agent/context",
           entrypoint: "@agentcms/agentcms/routes/api/context.ts",
@@ -106,6 +294,10 @@ export default function agentcms(
           pattern: "/api/agent/upload",
           entrypoint: "@agentcms/agentcms/routes/api/upload.ts",
         });
+        injectRoute({
+          pattern: "/api/agent/reindex",
+          entrypoint: "@agentcms/agentcms/routes/api/reindex.ts",
+        });
 
         // ---------------------------------------------------------------
         // Always inject: Image serving from R2
@@ -164,6 +356,23 @@ export default function agentcms(
           logger.info(
             `Auto routes: ${base}/, ${base}/[slug], ${base}/tag/[tag]`
           );
+
+          // One index and entry page per content type; a type at the site
+          // root gets entry pages only, leaving "/" to the site
+          for (const [name, definition] of Object.entries(contentTypes)) {
+            if (definition.routes === false) continue;
+            if (definition.basePath) {
+              injectRoute({
+                pattern: definition.basePath,
+                entrypoint: "@agentcms/agentcms/routes/content/index.astro",
+              });
+            }
+            injectRoute({
+              pattern: `${definition.basePath}/[slug]`,
+              entrypoint: "@agentcms/agentcms/routes/content/[slug].astro",
+            });
+            logger.info(`Auto routes (${name}): ${definition.basePath}/[slug]`);
+          }
         }
 
         // ---------------------------------------------------------------
@@ -196,6 +405,7 @@ export default function agentcms(
             ...(kvPrefix ? { kvPrefix } : {}),
             ...(additionalSitemaps ? { additionalSitemaps } : {}),
             ...(site ? { site } : {}),
+            ...(hasContentTypes ? { contentTypes } : {}),
           })};`
         );
 
@@ -218,6 +428,9 @@ export default function agentcms(
         logger.info("AgentCMS build complete");
         logger.info(`  Blog:    ${base || "/blog"}`);
         logger.info("  API:     /api/agent/*");
+        for (const [name, definition] of Object.entries(contentTypes)) {
+          logger.info(`  Type:    ${name} at ${definition.basePath || "/"}`);
+        }
         logger.info("  Images:  /images/*");
         logger.info("  Skill:   /.well-known/agent-skill.json");
         if (sitemap) logger.info("  Sitemap: /sitemap.xml");
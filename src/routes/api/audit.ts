@@ -0,0 +1,10 @@
+// ============================================================================
+// GET /api/agent/audit — Query the audit log (admin)
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleListAudit } from "../../handlers/admin.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const GET: APIRoute = ({ request }) =>
+  handleListAudit(request, getAgentCMSEnv());
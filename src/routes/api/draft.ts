@@ -0,0 +1,13 @@
+// ============================================================================
+// GET/PUT /api/agent/drafts/[slug] — Read or edit a draft
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleGetDraft, handleUpdateDraft } from "../../handlers/drafts.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const GET: APIRoute = ({ params, request }) =>
+  handleGetDraft(request, getAgentCMSEnv(), params.slug ?? "");
+
+export const PUT: APIRoute = ({ params, request }) =>
+  handleUpdateDraft(request, getAgentCMSEnv(), params.slug ?? "");
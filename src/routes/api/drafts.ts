@@ -0,0 +1,10 @@
+// ============================================================================
+// GET /api/agent/drafts — List drafts
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleListDrafts } from "../../handlers/drafts.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const GET: APIRoute = ({ request }) =>
+  handleListDrafts(request, getAgentCMSEnv());
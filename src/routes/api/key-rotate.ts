@@ -0,0 +1,10 @@
+// ============================================================================
+// POST /api/agent/keys/[hash]/rotate — Rotate an agent key (admin)
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleRotateKey } from "../../handlers/keys.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const POST: APIRoute = ({ params, request }) =>
+  handleRotateKey(request, getAgentCMSEnv(), params.hash ?? "");
@@ -0,0 +1,13 @@
+// ============================================================================
+// PUT/DELETE /api/agent/keys/[hash] — Update or revoke one agent key (admin)
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleUpdateKey, handleRevokeKey } from "../../handlers/keys.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const PUT: APIRoute = ({ params, request }) =>
+  handleUpdateKey(request, getAgentCMSEnv(), params.hash ?? "");
+
+export const DELETE: APIRoute = ({ params, request }) =>
+  handleRevokeKey(request, getAgentCMSEnv(), params.hash ?? "");
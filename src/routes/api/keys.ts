@@ -0,0 +1,13 @@
+// ============================================================================
+// GET/POST /api/agent/keys — List or create agent keys (admin)
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleListKeys, handleCreateKey } from "../../handlers/keys.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const GET: APIRoute = ({ request }) =>
+  handleListKeys(request, getAgentCMSEnv());
+
+export const POST: APIRoute = ({ request }) =>
+  handleCreateKey(request, getAgentCMSEnv());
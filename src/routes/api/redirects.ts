@@ -0,0 +1,10 @@
+// ============================================================================
+// GET /api/agent/redirects — List redirects (admin)
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleListRedirects } from "../../handlers/admin.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const GET: APIRoute = ({ request }) =>
+  handleListRedirects(request, getAgentCMSEnv());
@@ -0,0 +1,9 @@
+// ============================================================================
+// POST /api/agent/reindex — Rebuild the post index (admin)
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleReindex } from "../../handlers/admin.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const POST: APIRoute = ({ request }) => handleReindex(request, getAgentCMSEnv());
@@ -0,0 +1,10 @@
+// ============================================================================
+// POST /api/agent/posts/[slug]/rename — Change a post's slug
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleRenamePost } from "../../handlers/agent.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const POST: APIRoute = ({ params, request }) =>
+  handleRenamePost(request, getAgentCMSEnv(), params.slug ?? "");
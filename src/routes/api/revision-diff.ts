@@ -0,0 +1,10 @@
+// ============================================================================
+// GET /api/agent/posts/[slug]/revisions/diff — Diff two revisions
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleDiffRevisions } from "../../handlers/revisions.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const GET: APIRoute = ({ params, request }) =>
+  handleDiffRevisions(request, getAgentCMSEnv(), params.slug ?? "");
@@ -0,0 +1,10 @@
+// ============================================================================
+// POST /api/agent/posts/[slug]/revisions/[id]/restore — Restore a revision
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleRestoreRevision } from "../../handlers/revisions.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const POST: APIRoute = ({ params, request }) =>
+  handleRestoreRevision(request, getAgentCMSEnv(), params.slug ?? "", params.id ?? "");
@@ -0,0 +1,10 @@
+// ============================================================================
+// GET /api/agent/posts/[slug]/revisions/[id] — Get one revision
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleGetRevision } from "../../handlers/revisions.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const GET: APIRoute = ({ params, request }) =>
+  handleGetRevision(request, getAgentCMSEnv(), params.slug ?? "", params.id ?? "");
@@ -0,0 +1,10 @@
+// ============================================================================
+// GET /api/agent/schedule — Upcoming scheduled posts
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleGetSchedule } from "../../handlers/schedule.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const GET: APIRoute = ({ request }) =>
+  handleGetSchedule(request, getAgentCMSEnv());
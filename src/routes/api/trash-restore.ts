@@ -0,0 +1,10 @@
+// ============================================================================
+// POST /api/agent/trash/[slug]/restore — Restore a trashed post (admin)
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleRestoreFromTrash } from "../../handlers/admin.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const POST: APIRoute = ({ params, request }) =>
+  handleRestoreFromTrash(request, getAgentCMSEnv(), params.slug ?? "");
@@ -0,0 +1,10 @@
+// ============================================================================
+// GET /api/agent/trash — List trashed posts (admin)
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleListTrash } from "../../handlers/admin.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const GET: APIRoute = ({ request }) =>
+  handleListTrash(request, getAgentCMSEnv());
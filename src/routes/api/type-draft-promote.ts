@@ -0,0 +1,10 @@
+// ============================================================================
+// POST /api/agent/types/[type]/drafts/[slug]/promote — Publish a draft
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handlePromoteDraft } from "../../handlers/drafts.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const POST: APIRoute = ({ params, request }) =>
+  handlePromoteDraft(request, getAgentCMSEnv(), params.slug ?? "", params.type ?? "");
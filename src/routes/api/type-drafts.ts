@@ -0,0 +1,10 @@
+// ============================================================================
+// GET /api/agent/types/[type]/drafts — List a content type's drafts
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleListDrafts } from "../../handlers/drafts.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const GET: APIRoute = ({ params, request }) =>
+  handleListDrafts(request, getAgentCMSEnv(), params.type ?? "");
@@ -0,0 +1,10 @@
+// ============================================================================
+// GET /api/agent/types/[type]/posts — List entries of a content type
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleAgentListPosts } from "../../handlers/agent.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const GET: APIRoute = ({ params, request }) =>
+  handleAgentListPosts(request, getAgentCMSEnv(), params.type ?? "");
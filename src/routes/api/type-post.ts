@@ -0,0 +1,20 @@
+// ============================================================================
+// /api/agent/types/[type]/posts/[slug] — GET, PUT, DELETE a content type entry
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import {
+  handleAgentGetPost,
+  handleAgentUpdatePost,
+  handleAgentDeletePost,
+} from "../../handlers/agent.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const GET: APIRoute = ({ params, request }) =>
+  handleAgentGetPost(request, getAgentCMSEnv(), params.slug ?? "", params.type ?? "");
+
+export const PUT: APIRoute = ({ params, request }) =>
+  handleAgentUpdatePost(request, getAgentCMSEnv(), params.slug ?? "", params.type ?? "");
+
+export const DELETE: APIRoute = ({ params, request }) =>
+  handleAgentDeletePost(request, getAgentCMSEnv(), params.slug ?? "", params.type ?? "");
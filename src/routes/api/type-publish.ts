@@ -0,0 +1,10 @@
+// ============================================================================
+// POST /api/agent/types/[type]/publish — Create an entry of a content type
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handlePublish } from "../../handlers/agent.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const POST: APIRoute = ({ params, request }) =>
+  handlePublish(request, getAgentCMSEnv(), params.type ?? "");
@@ -0,0 +1,13 @@
+// ============================================================================
+// PUT/DELETE /api/agent/types/[type]/redirects/[from] — Manage one redirect (admin)
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handlePutRedirect, handleDeleteRedirect } from "../../handlers/admin.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const PUT: APIRoute = ({ params, request }) =>
+  handlePutRedirect(request, getAgentCMSEnv(), params.from ?? "", params.type ?? "");
+
+export const DELETE: APIRoute = ({ params, request }) =>
+  handleDeleteRedirect(request, getAgentCMSEnv(), params.from ?? "", params.type ?? "");
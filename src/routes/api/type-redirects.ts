@@ -0,0 +1,10 @@
+// ============================================================================
+// GET /api/agent/types/[type]/redirects — List a content type's redirects (admin)
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleListRedirects } from "../../handlers/admin.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const GET: APIRoute = ({ params, request }) =>
+  handleListRedirects(request, getAgentCMSEnv(), params.type ?? "");
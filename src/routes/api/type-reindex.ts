@@ -0,0 +1,10 @@
+// ============================================================================
+// POST /api/agent/types/[type]/reindex — Rebuild a content type's index (admin)
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleReindex } from "../../handlers/admin.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const POST: APIRoute = ({ params, request }) =>
+  handleReindex(request, getAgentCMSEnv(), params.type ?? "");
@@ -0,0 +1,10 @@
+// ============================================================================
+// POST /api/agent/types/[type]/posts/[slug]/rename — Change an entry's slug
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleRenamePost } from "../../handlers/agent.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const POST: APIRoute = ({ params, request }) =>
+  handleRenamePost(request, getAgentCMSEnv(), params.slug ?? "", params.type ?? "");
@@ -0,0 +1,16 @@
+// ============================================================================
+// GET /api/agent/types/[type]/posts/[slug]/revisions/[id] — Get one revision
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleGetRevision } from "../../handlers/revisions.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const GET: APIRoute = ({ params, request }) =>
+  handleGetRevision(
+    request,
+    getAgentCMSEnv(),
+    params.slug ?? "",
+    params.id ?? "",
+    params.type ?? ""
+  );
@@ -0,0 +1,10 @@
+// ============================================================================
+// GET /api/agent/types/[type]/posts/[slug]/revisions — List an entry's revisions
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleListRevisions } from "../../handlers/revisions.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const GET: APIRoute = ({ params, request }) =>
+  handleListRevisions(request, getAgentCMSEnv(), params.slug ?? "", params.type ?? "");
@@ -0,0 +1,10 @@
+// ============================================================================
+// POST /api/agent/types/[type]/trash/[slug]/restore — Restore a trashed entry (admin)
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleRestoreFromTrash } from "../../handlers/admin.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const POST: APIRoute = ({ params, request }) =>
+  handleRestoreFromTrash(request, getAgentCMSEnv(), params.slug ?? "", params.type ?? "");
@@ -0,0 +1,10 @@
+// ============================================================================
+// GET /api/agent/types/[type]/trash — List trashed entries (admin)
+// ============================================================================
+
+import type { APIRoute } from "astro";
+import { handleListTrash } from "../../handlers/admin.js";
+import { getAgentCMSEnv } from "../env.js";
+
+export const GET: APIRoute = ({ params, request }) =>
+  handleListTrash(request, getAgentCMSEnv(), params.type ?? "");
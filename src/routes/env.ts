@@ -0,0 +1,32 @@
+// ============================================================================
+// AgentCMS — Astro endpoint env
+// ============================================================================
+//
+// Builds the AgentCMSEnv the framework-agnostic handlers expect from the
+// cloudflare:workers bindings, honouring the integration's binding names.
+// Content types come from a virtual module the integration serves, since
+// endpoints never see the page-ssr config global.
+//
+// ============================================================================
+
+import { env } from "cloudflare:workers";
+import contentTypes from "virtual:agentcms/content-types";
+import type { AgentCMSEnv } from "../handlers/public.js";
+
+export function getAgentCMSEnv(): AgentCMSEnv {
+  const bindings = env as Record<string, unknown>;
+  const kvBinding = globalThis.__AGENTCMS_CONFIG__?.kvBinding || "AGENTCMS_KV";
+  const r2Binding = globalThis.__AGENTCMS_CONFIG__?.r2Binding || "AGENTCMS_R2";
+
+  return {
+    ...bindings,
+    AGENTCMS_KV: bindings[kvBinding] as KVNamespace | undefined,
+    AGENTCMS_R2: bindings[r2Binding] as R2Bucket | undefined,
+    // API endpoints don't get the integration's page-ssr global, so prefer the env var
+    // (set via wrangler [vars] AGENTCMS_PREFIX); fall back to the global for the option-only case.
+    AGENTCMS_PREFIX:
+      (bindings.AGENTCMS_PREFIX as string | undefined) ??
+      globalThis.__AGENTCMS_CONFIG__?.kvPrefix,
+    AGENTCMS_CONTENT_TYPES: contentTypes,
+  };
+}
@@ -3,33 +3,17 @@
 // ============================================================================
 
 import type { APIRoute } from "astro";
-import { getIndex } from "../utils/kv.js";
-import { generateSitemapXml } from "../utils/sitemap.js";
+import { handleSitemap } from "../handlers/public.js";
+import { getAgentCMSEnv } from "./env.js";
 
-export const GET: APIRoute = async ({ request }) => {
-  const { env } = await import("cloudflare:workers");
-  const bindingName = globalThis.__AGENTCMS_CONFIG__?.kvBinding || "AGENTCMS_KV";
-  const kv = (env as Record<string, unknown>)[bindingName] as KVNamespace;
-  const prefix =
-    ((env as Record<string, unknown>).AGENTCMS_PREFIX as string | undefined) ??
-    globalThis.__AGENTCMS_CONFIG__?.kvPrefix;
+export const GET: APIRoute = ({ request }) => {
   const basePath = globalThis.__AGENTCMS_CONFIG__?.basePath || "/blog";
-  const siteUrl = new URL(request.url).origin;
 
-  const index = await getIndex(kv, prefix);
-
-  const xml = generateSitemapXml(siteUrl, index.posts, {
+  return handleSitemap(request, getAgentCMSEnv(), {
     basePath,
     staticPages: [
       { loc: "/", changefreq: "weekly", priority: 1.0 },
       { loc: basePath, changefreq: "daily", priority: 0.8 },
     ],
   });
-
-  return new Response(xml, {
-    headers: {
-      "Content-Type": "application/xml; charset=utf-8",
-      "Cache-Control": "public, max-age=3600",
-    },
-  });
 };
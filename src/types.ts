@@ -28,6 +28,12 @@ export interface AgentCMSPost {
   canonicalUrl?: string;
   metadata: Record<string, unknown>;
   agentMetadata?: AgentMetadata;
+  /**
+   * Name of the key that wrote this draft, which with admin keys is the only
+   * one that sees it. Set on draft copies only; can differ from `author` when
+   * the draft is a pending edit of someone else's post.
+   */
+  draftEditor?: string;
 }
 
 export interface AgentMetadata {
@@ -47,6 +53,49 @@ export interface PostIndex {
   lastUpdated: string;
 }
 
+/**
+ * Stored at posts:index. The index itself is split across `shardCount`
+ * shards (posts:index:shard:<n>); each slug lives in the shard its hash
+ * selects, so an upsert rewrites a single shard.
+ */
+export interface PostIndexManifest {
+  version: 2;
+  shardCount: number;
+  lastUpdated: string;
+}
+
+export interface PostIndexShard {
+  posts: PostIndexEntry[];
+  lastUpdated: string;
+}
+
+/** Fields with a secondary index. */
+export type PostIndexFacet = "tag" | "category" | "author";
+
+/**
+ * Stored at index:<facet>:<value>: the index entries of every published post
+ * with that tag, category or author, newest first.
+ */
+export interface PostFacetIndex {
+  posts: PostIndexEntry[];
+  lastUpdated: string;
+}
+
+/**
+ * Stored at index:counts: published post counts per facet value. Its
+ * presence also marks the secondary indexes as built.
+ */
+export interface PostFacetCounts {
+  tag: Record<string, number>;
+  category: Record<string, number>;
+  author: Record<string, number>;
+  lastUpdated: string;
+}
+
+/**
+ * A post's listing fields, kept in the index so cards, feeds and the sitemap
+ * render without reading the post itself.
+ */
 export interface PostIndexEntry {
   slug: string;
   title: string;
@@ -59,6 +108,140 @@ export interface PostIndexEntry {
   featuredImage?: string;
   featured?: boolean;
   noindex?: boolean;
+  readingTime?: number;
+}
+
+// --- Scheduled Publishing ---
+
+/** One upcoming post in the publish queue stored at schedule:posts. */
+export interface ScheduledPostEntry {
+  slug: string;
+  title: string;
+  author: string;
+  scheduledFor: string;
+}
+
+// --- Trash ---
+
+/**
+ * A soft-deleted post, stored at trash:<slug> until restored or purged. Holds
+ * the live copy and any pending draft as they were at deletion.
+ */
+export interface TrashedPost {
+  slug: string;
+  post: AgentCMSPost;
+  draft?: AgentCMSPost;
+  deletedAt: string;
+  deletedBy: { name: string; keyHash: string };
+  /** When the entry expires and the post is gone for good. */
+  purgeAt: string;
+}
+
+// --- Audit Log ---
+
+export type AuditAction =
+  | "publish"
+  | "update"
+  | "delete"
+  | "rename"
+  | "upload"
+  | "draft.update"
+  | "draft.promote"
+  | "revision.restore"
+  | "trash.restore"
+  | "redirect.put"
+  | "redirect.delete"
+  | "reindex"
+  | "key.create"
+  | "key.update"
+  | "key.revoke"
+  | "key.rotate";
+
+/**
+ * One mutating agent call, stored at audit:<YYYY-MM-DD>:<id> and never
+ * changed afterwards. Entries expire after the retention period.
+ */
+export interface AuditEntry {
+  /** Sorts chronologically; also the cursor for paging. */
+  id: string;
+  timestamp: string;
+  action: AuditAction;
+  keyName: string;
+  keyHash: string;
+  scope: AgentKeyScope;
+  /** Post slug, redirect source or key hash the call acted on. */
+  slug?: string;
+  /** Content type of the entry, when it is not a blog post. */
+  type?: string;
+  /** CF-Connecting-IP of the request. */
+  ip?: string;
+  /** X-Agent-Model header, or "unknown". */
+  model: string;
+  outcome: "success" | "failure";
+  status: number;
+  /** `code` or `error` from a failed call's response. */
+  error?: string;
+  /** Short per-field summary, e.g. `status: "draft" → "published"`. */
+  changes?: string[];
+}
+
+// --- Redirects ---
+
+/**
+ * A permanent redirect stored at redirects:<from>. `to` is a slug, a
+ * site-relative path or an absolute URL.
+ */
+export interface PostRedirect {
+  from: string;
+  to: string;
+  /** "rename" redirects are written by the rename operation. */
+  type: "rename" | "manual";
+  createdAt: string;
+  createdBy: string;
+}
+
+// --- Site Registry ---
+
+/**
+ * Maps a request hostname to the site it serves, stored unprefixed at
+ * sites:<hostname>. The site's posts, config, keys and R2 images all live
+ * under `prefix`.
+ */
+export interface SiteRegistryEntry {
+  hostname: string;
+  prefix: string;
+  name?: string;
+  createdAt: string;
+}
+
+// --- Post Revisions ---
+
+export type PostRevisionAction =
+  | "create"
+  | "update"
+  | "restore"
+  | "promote"
+  | "rename"
+  | "delete";
+
+/** Metadata for one immutable post snapshot (stored newest first per slug). */
+export interface PostRevisionSummary {
+  id: string;
+  slug: string;
+  action: PostRevisionAction;
+  createdAt: string;
+  /** Name of the agent key that made the write. */
+  author: string;
+  /** Hash of the agent key that made the write. */
+  keyHash?: string;
+  /** X-Agent-Model header of the writing request. */
+  model: string;
+  title: string;
+  status: AgentCMSPost["status"];
+}
+
+export interface PostRevision extends PostRevisionSummary {
+  post: AgentCMSPost;
 }
 
 // --- Agent API Key ---
@@ -68,13 +251,73 @@ export interface AgentKeyRecord {
   keyHash: string;
   scope: AgentKeyScope;
   createdAt: string;
+  /**
+   * Filled in by listAgentKeys from the key's usage entry; authentication
+   * never writes it to the record itself.
+   */
   lastUsedAt?: string;
   rateLimit: number; // per hour
+  /** Per-operation overrides; unset fields fall back to scope defaults. */
+  quotas?: AgentKeyQuotas;
+  /** The key stops working at this time; set on rotated-out keys too. */
+  expiresAt?: string;
+  /** The key does not work before this time. */
+  notBefore?: string;
+  /** CIDR ranges (or single addresses) the key may be used from, matched against CF-Connecting-IP. */
+  allowedIps?: string[];
+  /** Limits on what the key may write, on top of its scope. */
+  policy?: AgentKeyPolicy;
+  /** HMAC secret for signed requests (utils/signing.ts). Never returned by the API. */
+  signingSecret?: string;
+  /**
+   * How keyHash was derived: unset or 1 is a plain SHA-256 of the secret, 2 an
+   * HMAC-SHA256 keyed by AGENTCMS_KEY_PEPPER.
+   */
+  hashVersion?: number;
+  /** Hash of the key that replaced this one on rotation. */
+  rotatedTo?: string;
   metadata?: Record<string, unknown>;
 }
 
 export type AgentKeyScope = "admin" | "publish" | "draft-only" | "read-only";
 
+/**
+ * Per-key write restrictions, enforced on publish, update, delete and rename.
+ * Unset fields place no restriction. Categories and tags compare
+ * case-insensitively.
+ */
+export interface AgentKeyPolicy {
+  /** Categories the key may publish into; its posts must have one. */
+  categories?: string[];
+  /** Tags the key may add to posts. */
+  tags?: string[];
+  /** Slug prefixes (e.g. "changelog-") the key's posts must start with. */
+  slugPrefixes?: string[];
+  /** false limits the key to posts it authored. Default true. */
+  editOthers?: boolean;
+  /** Maximum markdown content length, in characters. */
+  maxContentLength?: number;
+  /** false stops the key from changing featured. Default true. */
+  allowFeatured?: boolean;
+  /** false stops the key from changing noindex. Default true. */
+  allowNoindex?: boolean;
+  /** false stops the key from changing canonicalUrl. Default true. */
+  allowCanonicalUrl?: boolean;
+}
+
+/**
+ * Operations metered separately. Each has its own hourly and daily window
+ * per key, so uploads do not eat into the publish allowance.
+ */
+export type RateLimitOperation = "read" | "publish" | "update" | "delete" | "upload";
+
+export interface QuotaLimit {
+  perHour?: number;
+  perDay?: number;
+}
+
+export type AgentKeyQuotas = Partial<Record<RateLimitOperation, QuotaLimit>>;
+
 // --- Site Config (stored in KV at config:site) ---
 
 export interface AgentCMSSiteConfig {
@@ -85,6 +328,24 @@ export interface AgentCMSSiteConfig {
   writingGuidelines: WritingGuidelines;
   seo: SEOConfig;
   moderation: ModerationConfig;
+  /** Accept JWTs as Bearer tokens alongside AgentCMS keys. */
+  jwt?: JwtAuthConfig;
+  /** Typed fields agents set in a post's `metadata`, keyed by field name. */
+  customFields?: Record<string, CustomFieldDefinition>;
+}
+
+/**
+ * A site-defined post field. Values are validated on publish and update;
+ * `date` takes YYYY-MM-DD and `string[]` a list of strings.
+ */
+export interface CustomFieldDefinition {
+  type: "string" | "number" | "boolean" | "url" | "date" | "string[]";
+  /** Must be set when a post is published. Updates may not clear it. */
+  required?: boolean;
+  /** Allowed values; for `string[]`, allowed items. */
+  enum?: Array<string | number>;
+  /** Shown to agents in the context and skill definition. */
+  description?: string;
 }
 
 export interface WritingGuidelines {
@@ -109,6 +370,40 @@ export interface ModerationConfig {
   notifyOnPublish?: string;
 }
 
+/**
+ * JWT bearer tokens, verified against a locally stored JWKS (RS256 or
+ * ES256). Tokens must carry exp; iss and aud are checked when set here.
+ */
+export interface JwtAuthConfig {
+  /** Public keys, as served from the issuer's JWKS endpoint. */
+  jwks: { keys: JwtPublicKey[] };
+  issuer?: string;
+  audience?: string;
+  /** Claim names. Defaults: sub, scope, rate_limit. */
+  claims?: { subject?: string; scope?: string; rateLimit?: string };
+  /**
+   * Scope claim values and the scope each grants. Default: the scope names
+   * themselves (admin, publish, draft-only, read-only).
+   */
+  scopes?: Record<string, AgentKeyScope>;
+  /** Requests per hour when the token has no rate-limit claim. Default 10. */
+  defaultRateLimit?: number;
+}
+
+export interface JwtPublicKey {
+  kty: string;
+  kid?: string;
+  alg?: string;
+  use?: string;
+  /** RSA modulus and exponent. */
+  n?: string;
+  e?: string;
+  /** EC curve and coordinates. */
+  crv?: string;
+  x?: string;
+  y?: string;
+}
+
 // --- Integration Options ---
 
 export interface AgentCMSOptions {
@@ -136,6 +431,32 @@ export interface AgentCMSOptions {
   kvPrefix?: string;
   /** Inline site config. Used as fallback when KV has no config:site key. */
   site?: AgentCMSSiteConfig;
+  /**
+   * Content beyond blog posts, keyed by type name (lowercase letters, digits
+   * and dashes), e.g. `docs` or `changelog`. Each type has its own entries,
+   * index, pages and agent API under /api/agent/types/<name>.
+   */
+  contentTypes?: Record<string, ContentTypeOptions>;
+}
+
+/**
+ * A content type. Entries have the same shape as posts and are stored under
+ * their own KV namespace (`types:<name>:`), so slugs never clash with posts
+ * or other types.
+ */
+export interface ContentTypeOptions {
+  /** Human-readable name, e.g. "Docs page". Default: the type name. */
+  label?: string;
+  /** Shown to agents in the skill definition and context. */
+  description?: string;
+  /** Where entries are served in auto mode, e.g. "/docs". "/" serves them at the site root. */
+  basePath: string;
+  /** Inject the index and entry pages in auto mode. Default: true */
+  routes?: boolean;
+  /** Entries per index page. Default: postsPerPage */
+  perPage?: number;
+  /** Typed fields agents set in an entry's `metadata`, like the site's customFields. */
+  fields?: Record<string, CustomFieldDefinition>;
 }
 
 // --- Sitemap & Robots.txt Options ---
@@ -159,6 +480,8 @@ export interface RobotsTxtOptions {
 // --- Data Helper Options ---
 
 export interface GetPostsOptions {
+  /** Content type to read. Default: blog posts. */
+  type?: string;
   page?: number;
   limit?: number;
   tag?: string;
@@ -167,10 +490,15 @@ export interface GetPostsOptions {
   featured?: boolean;
   author?: string;
   authorType?: "agent" | "human";
+  /**
+   * "full" (default) reads every post on the page; "summary" answers from
+   * the index alone and returns PostIndexEntry objects, enough for cards.
+   */
+  fields?: "summary" | "full";
 }
 
-export interface GetPostsResult {
-  posts: AgentCMSPost[];
+export interface GetPostsResult<T = AgentCMSPost> {
+  posts: T[];
   totalPages: number;
   totalPosts: number;
   currentPage: number;
@@ -188,6 +516,10 @@ export interface AgentSkillDefinition {
     type: "bearer";
     header: string;
     description: string;
+    /** Every accepted scheme; `type` above is the default. */
+    schemes?: AgentAuthScheme[];
+    /** Machine-readable `code` values in refused requests' JSON bodies. */
+    errorCodes?: Array<{ status: number; code: string; description: string }>;
   };
   capabilities: AgentCapability[];
   setup?: {
@@ -202,6 +534,23 @@ export interface AgentSkillDefinition {
   };
 }
 
+export interface AgentAuthScheme {
+  type: "bearer" | "hmac-sha256" | "jwt";
+  header: string;
+  /** The header value, with placeholders in angle brackets. */
+  format: string;
+  description: string;
+  /** Lines of the string to sign, in order, joined by "\n". */
+  canonicalRequest?: string[];
+  /** How far the signed timestamp may be from the server clock. */
+  maxSkewSeconds?: number;
+  /** JWT signing algorithms accepted. */
+  algorithms?: string[];
+  /** Required iss and aud claims, when the site sets them. */
+  issuer?: string;
+  audience?: string;
+}
+
 export interface AgentCapability {
   name: string;
   method: string;
@@ -0,0 +1,200 @@
+// ============================================================================
+// AgentCMS — Audit Log
+// ============================================================================
+//
+// Every mutating agent call appends one AuditEntry, bucketed by UTC day:
+//
+//   audit:<YYYY-MM-DD>:<id>  — AuditEntry, written once with a TTL
+//
+// Entry ids start with a zero-padded base36 timestamp, so keys list in time
+// order within a bucket and a time range only touches the buckets it spans.
+// Entries are never updated; the storage layer drops them once the
+// retention period is over.
+//
+// ============================================================================
+
+import type { AuditAction, AuditEntry } from "../types.js";
+import { KEYS, kvKeys } from "./kv.js";
+import { diffLines } from "./diff.js";
+import { DIFF_FIELDS } from "./revisions.js";
+import { listAllKeys, type StorageAdapter } from "./storage.js";
+
+/** Days entries are kept when AGENTCMS_AUDIT_RETENTION_DAYS is not set. */
+export const DEFAULT_AUDIT_RETENTION_DAYS = 90;
+/** Range searched when a query gives no `from`. */
+export const DEFAULT_AUDIT_WINDOW_DAYS = 7;
+export const DEFAULT_AUDIT_LIMIT = 50;
+export const MAX_AUDIT_LIMIT = 500;
+
+/** Post fields summarised in post write entries. */
+export const POST_AUDIT_FIELDS = ["content", ...DIFF_FIELDS] as const;
+
+const DAY_MS = 86_400_000;
+/** Entries read in parallel while filtering a bucket. */
+const READ_BATCH = 25;
+/** Longest value shown in a change summary. */
+const MAX_VALUE_LENGTH = 60;
+
+export interface AuditQuery {
+  /** Key name or keyHash. */
+  key?: string;
+  slug?: string;
+  action?: AuditAction;
+  /** Epoch milliseconds, inclusive. Default: DEFAULT_AUDIT_WINDOW_DAYS before `to`. */
+  from?: number;
+  /** Epoch milliseconds, inclusive. Default: now. */
+  to?: number;
+  limit?: number;
+  /** Id of the last entry of the previous page. */
+  cursor?: string;
+}
+
+function dayBucket(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/** Zero-padded base36 timestamp plus a random suffix. */
+export function createAuditId(now = Date.now()): string {
+  const suffix = Array.from(crypto.getRandomValues(new Uint8Array(4)))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `${now.toString(36).padStart(9, "0")}-${suffix}`;
+}
+
+function auditIdTime(id: string): number {
+  return parseInt(id.split("-")[0], 36);
+}
+
+/**
+ * Append an entry. The id and timestamp are assigned here; the entry expires
+ * after retentionDays.
+ */
+export async function recordAudit(
+  kv: StorageAdapter,
+  entry: Omit<AuditEntry, "id" | "timestamp">,
+  retentionDays = DEFAULT_AUDIT_RETENTION_DAYS,
+  prefix?: string
+): Promise<AuditEntry> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  const now = Date.now();
+  const stored: AuditEntry = {
+    id: createAuditId(now),
+    timestamp: new Date(now).toISOString(),
+    ...entry,
+  };
+  await kv.put(keys.audit(dayBucket(now), stored.id), JSON.stringify(stored), {
+    expirationTtl: retentionDays * 86_400,
+  });
+  return stored;
+}
+
+function matches(entry: AuditEntry, query: AuditQuery): boolean {
+  if (query.key && entry.keyName !== query.key && entry.keyHash !== query.key) return false;
+  if (query.slug && entry.slug !== query.slug) return false;
+  if (query.action && entry.action !== query.action) return false;
+  return true;
+}
+
+/**
+ * Entries matching the query, newest first. A `cursor` is returned when the
+ * page filled up; pass it back to continue. Only the day buckets between
+ * `from` and `to` are listed.
+ */
+export async function queryAudit(
+  kv: StorageAdapter,
+  query: AuditQuery = {},
+  prefix?: string
+): Promise<{ entries: AuditEntry[]; cursor?: string }> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  const cursorTime = query.cursor ? auditIdTime(query.cursor) : Infinity;
+  const to = Math.min(query.to ?? Date.now(), cursorTime);
+  const from = query.from ?? to - DEFAULT_AUDIT_WINDOW_DAYS * DAY_MS;
+  const limit = Math.min(query.limit ?? DEFAULT_AUDIT_LIMIT, MAX_AUDIT_LIMIT);
+
+  const entries: AuditEntry[] = [];
+  const lastDay = Date.parse(dayBucket(from));
+  for (let day = Date.parse(dayBucket(to)); day >= lastDay; day -= DAY_MS) {
+    const bucket = dayBucket(day);
+    const bucketPrefix = keys.auditDay(bucket);
+    const ids = (await listAllKeys(kv, bucketPrefix))
+      .map((name) => name.slice(bucketPrefix.length))
+      .filter((id) => {
+        const time = auditIdTime(id);
+        return time >= from && time <= to && (!query.cursor || id < query.cursor);
+      })
+      .sort()
+      .reverse();
+
+    for (let i = 0; i < ids.length; i += READ_BATCH) {
+      const batch = await Promise.all(
+        ids.slice(i, i + READ_BATCH).map((id) => kv.get<AuditEntry>(keys.audit(bucket, id), "json"))
+      );
+      for (const entry of batch) {
+        if (!entry || !matches(entry, query)) continue;
+        entries.push(entry);
+        if (entries.length === limit) return { entries, cursor: entry.id };
+      }
+    }
+  }
+  return { entries };
+}
+
+/** Unset, null, "", [] and {} all count as no value. */
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (typeof value === "object" && Object.keys(value).length === 0)
+  );
+}
+
+function shortValue(value: unknown): string {
+  if (isEmpty(value)) return "∅";
+  const text = JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+}
+
+function lineCount(text: unknown): number {
+  return typeof text === "string" && text !== "" ? text.split("\n").length : 0;
+}
+
+/**
+ * One short line per changed field: array fields list what was added and
+ * removed, `content` counts changed lines, and other values are shown before
+ * and after, truncated. `before` is null for creations.
+ */
+export function summarizeChanges<T extends object>(
+  before: T | null | undefined,
+  after: T | null | undefined,
+  fields: ReadonlyArray<keyof T & string>
+): string[] {
+  const summary: string[] = [];
+  for (const field of fields) {
+    const from: unknown = before?.[field];
+    const to: unknown = after?.[field];
+    if (JSON.stringify(from) === JSON.stringify(to) || (isEmpty(from) && isEmpty(to))) continue;
+
+    if (field === "content" && (typeof from === "string" || typeof to === "string")) {
+      let added = lineCount(to);
+      let removed = lineCount(from);
+      if (added > 0 && removed > 0) {
+        const lines = diffLines(String(from), String(to));
+        added = lines.filter((l) => l.op === "add").length;
+        removed = lines.filter((l) => l.op === "remove").length;
+      }
+      summary.push(`content: +${added} -${removed} lines`);
+    } else if (Array.isArray(from) || Array.isArray(to)) {
+      const old = Array.isArray(from) ? from.map(String) : [];
+      const next = Array.isArray(to) ? to.map(String) : [];
+      const changes = [
+        ...next.filter((v) => !old.includes(v)).map((v) => `+${v}`),
+        ...old.filter((v) => !next.includes(v)).map((v) => `-${v}`),
+      ];
+      summary.push(`${field}: ${changes.length ? changes.join(", ") : "reordered"}`);
+    } else {
+      summary.push(`${field}: ${shortValue(from)} → ${shortValue(to)}`);
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,280 @@
+import { describe, it, expect } from "vitest";
+import {
+  exportArchive,
+  importArchive,
+  parseArchive,
+  type ArchiveImageStore,
+  type ArchiveRecord,
+} from "./backup.js";
+import {
+  KEYS,
+  kvKeys,
+  contentTypePrefix,
+  getIndex,
+  getPost,
+  getRedirect,
+  getTrashedPost,
+  putPost,
+  putRedirect,
+  putSite,
+  putTrashedPost,
+  updateIndex,
+} from "./kv.js";
+import { listRevisions, recordRevision } from "./revisions.js";
+import { memoryStorage, type StorageAdapter } from "./storage.js";
+import type { AgentCMSPost, AgentKeyRecord } from "../types.js";
+
+function makePost(overrides: Partial<AgentCMSPost> = {}): AgentCMSPost {
+  return {
+    slug: "test-post",
+    title: "Test Post",
+    description: "A test post",
+    content: "# Test\n\nHello world.",
+    author: "TestAgent",
+    authorType: "agent",
+    tags: ["test"],
+    publishedAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:00:00.000Z",
+    status: "published",
+    metadata: {},
+    ...overrides,
+  };
+}
+
+function memoryImages(initial: Record<string, string> = {}): ArchiveImageStore & {
+  objects: Map<string, string>;
+} {
+  const objects = new Map(Object.entries(initial));
+  return {
+    objects,
+    async get(key) {
+      const text = objects.get(key);
+      return text === undefined
+        ? null
+        : { body: new TextEncoder().encode(text).buffer, contentType: "image/png" };
+    },
+    async put(key, body) {
+      objects.set(key, new TextDecoder().decode(body));
+    },
+  };
+}
+
+async function sourceSite(prefix?: string): Promise<StorageAdapter> {
+  const kv = memoryStorage();
+  const post = makePost({ slug: "hello", featuredImage: "/images/0123abcd-cover.png" });
+  await putPost(kv, post, prefix);
+  await updateIndex(kv, post, "upsert", prefix);
+  await putPost(kv, makePost({ slug: "wip", status: "draft" }), prefix);
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  await kv.put(keys.config, JSON.stringify({ name: "Source", url: "https://a.test" }));
+  await kv.put(keys.agent("abc"), JSON.stringify({ name: "bot", keyHash: "abc", scope: "publish" }));
+  return kv;
+}
+
+async function collect(iterable: AsyncIterable<ArchiveRecord>): Promise<ArchiveRecord[]> {
+  const records: ArchiveRecord[] = [];
+  for await (const record of iterable) records.push(record);
+  return records;
+}
+
+describe("exportArchive", () => {
+  it("dumps posts, drafts, index, config, keys and linked images", async () => {
+    const kv = await sourceSite("a");
+    const images = memoryImages({ "0123abcd-cover.png": "png", "ffffffff-other.png": "x" });
+    const records = await collect(exportArchive(kv, { prefix: "a", images }));
+
+    expect(records.map((r) => r.type)).toEqual([
+      "header",
+      "post",
+      "draft",
+      "index",
+      "config",
+      "agent",
+      "image",
+    ]);
+    expect(records[0]).toMatchObject({ format: "agentcms-archive", prefix: "a" });
+
+    // Survives a JSONL round trip
+    const text = records.map((r) => JSON.stringify(r)).join("\n");
+    expect(parseArchive(text)).toEqual(records);
+  });
+
+  it("leaves signing secrets out unless asked to include them", async () => {
+    const kv = memoryStorage();
+    const record = { name: "bot", keyHash: "abc", scope: "publish", signingSecret: "s3cret" };
+    await kv.put(KEYS.agent("abc"), JSON.stringify(record));
+    const agents = (records: ArchiveRecord[]) =>
+      records.flatMap((r) => (r.type === "agent" ? [r.data] : []));
+
+    const [stripped] = agents(await collect(exportArchive(kv)));
+    expect(stripped).toEqual({ name: "bot", keyHash: "abc", scope: "publish" });
+
+    const [full] = agents(await collect(exportArchive(kv, { includeSecrets: true })));
+    expect(full.signingSecret).toBe("s3cret");
+  });
+
+  it("rejects files without an archive header", () => {
+    expect(() => parseArchive('{"type":"post","data":{}}')).toThrow(/not an AgentCMS archive/);
+  });
+});
+
+describe("importArchive", () => {
+  async function archive(): Promise<ArchiveRecord[]> {
+    return collect(exportArchive(await sourceSite(), { images: memoryImages({ "0123abcd-cover.png": "png" }) }));
+  }
+
+  it("restores into a different prefix and merges the index", async () => {
+    const target = memoryStorage();
+    await putPost(target, makePost({ slug: "existing" }), "b");
+    await updateIndex(target, makePost({ slug: "existing" }), "upsert", "b");
+    const images = memoryImages();
+
+    const report = await importArchive(target, await archive(), { prefix: "b", images });
+
+    expect(report).toMatchObject({
+      imported: ["hello", "wip"],
+      config: "imported",
+      agents: { imported: 1, skipped: 0 },
+      images: 1,
+    });
+    expect(await target.get(kvKeys("b").draft("wip"))).not.toBeNull();
+    expect(await target.get(kvKeys("b").agent("abc"))).not.toBeNull();
+    expect((await getIndex(target, "b")).posts.map((p) => p.slug).sort()).toEqual(["existing", "hello"]);
+    expect(images.objects.get("0123abcd-cover.png")).toBe("png");
+  });
+
+  it("keeps a registry site's images under its prefix", async () => {
+    const source = await sourceSite("a");
+    await putSite(source, { hostname: "a.test", prefix: "a", createdAt: "2025-01-01T00:00:00.000Z" });
+    const sourceImages = memoryImages({ "a/0123abcd-cover.png": "png", "0123abcd-cover.png": "other" });
+    const records = await collect(exportArchive(source, { prefix: "a", images: sourceImages }));
+
+    const image = records.find((r) => r.type === "image");
+    expect(image).toMatchObject({ key: "0123abcd-cover.png", data: btoa("png") });
+
+    const target = memoryStorage();
+    await putSite(target, { hostname: "b.test", prefix: "b", createdAt: "2025-01-01T00:00:00.000Z" });
+    const targetImages = memoryImages();
+    const report = await importArchive(target, records, { prefix: "b", images: targetImages });
+
+    expect(report.images).toBe(1);
+    expect([...targetImages.objects]).toEqual([["b/0123abcd-cover.png", "png"]]);
+  });
+
+  it("restores expiring keys with their expiration", async () => {
+    const expiresAt = new Date(Date.now() + 3_600_000).toISOString();
+    const record: AgentKeyRecord = {
+      name: "old",
+      keyHash: "def",
+      scope: "publish",
+      createdAt: expiresAt,
+      rateLimit: 10,
+      expiresAt,
+    };
+    const records: ArchiveRecord[] = [
+      { type: "header", format: "agentcms-archive", version: 1, prefix: null, exportedAt: expiresAt },
+      { type: "agent", data: record },
+    ];
+    const target = memoryStorage();
+
+    await importArchive(target, records);
+
+    const { keys } = await target.list({ prefix: KEYS.agent("def") });
+    expect(keys[0].expiration).toBeGreaterThan(Date.parse(expiresAt) / 1000);
+  });
+
+  it("restores redirects, trash and revision history", async () => {
+    const source = await sourceSite();
+    const author = { name: "bot", model: "test" };
+    await recordRevision(source, makePost({ slug: "hello", title: "First" }), "create", author);
+    await recordRevision(source, makePost({ slug: "hello" }), "update", author);
+    await putRedirect(source, {
+      from: "old-hello",
+      to: "hello",
+      type: "rename",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      createdBy: "bot",
+    });
+    const purgeAt = new Date(Date.now() + 3_600_000).toISOString();
+    await putTrashedPost(source, {
+      slug: "gone",
+      post: makePost({ slug: "gone" }),
+      deletedAt: "2025-01-01T00:00:00.000Z",
+      deletedBy: { name: "bot", keyHash: "abc" },
+      purgeAt,
+    });
+    const records = await collect(exportArchive(source));
+    const target = memoryStorage();
+
+    const report = await importArchive(target, records, { onConflict: "rename" });
+
+    expect(report).toMatchObject({
+      redirects: { imported: 1, skipped: 0 },
+      trash: { imported: 1, skipped: 0 },
+      revisions: { imported: 1, skipped: 0 },
+    });
+    expect(await getRedirect(target, "old-hello")).toMatchObject({ to: "hello" });
+    expect(await getTrashedPost(target, "gone")).toMatchObject({ purgeAt });
+    const { keys } = await target.list({ prefix: KEYS.trash("gone") });
+    expect(keys[0].expiration).toBeLessThanOrEqual(Math.ceil(Date.parse(purgeAt) / 1000) + 1);
+    expect((await listRevisions(target, "hello")).map((r) => r.title)).toEqual(["Test Post", "First"]);
+
+    // A renamed post takes its history along
+    const again = await importArchive(target, records, { onConflict: "rename" });
+    expect(again.renamed).toContainEqual({ from: "hello", to: "hello-2" });
+    expect(await listRevisions(target, "hello-2")).toHaveLength(2);
+    expect(again.redirects.skipped).toBe(1);
+  });
+
+  it("round-trips content type entries under their type", async () => {
+    const source = await sourceSite("a");
+    const recipe = makePost({ slug: "soup", metadata: { servings: 4 } });
+    await putPost(source, recipe, contentTypePrefix("recipes", "a"));
+    await updateIndex(source, recipe, "upsert", contentTypePrefix("recipes", "a"));
+    const records = await collect(exportArchive(source, { prefix: "a" }));
+    expect(records.find((r) => r.type === "post" && r.data.slug === "soup")).toMatchObject({
+      contentType: "recipes",
+    });
+
+    const target = memoryStorage();
+    await putPost(target, makePost({ slug: "soup" }), "b");
+    const report = await importArchive(target, records, { prefix: "b" });
+
+    expect(report.imported).toEqual(["hello", "wip", "recipes/soup"]);
+    expect(await getPost(target, "soup", "b:types:recipes")).toMatchObject({ metadata: { servings: 4 } });
+    expect((await getIndex(target, "b:types:recipes")).posts.map((p) => p.slug)).toEqual(["soup"]);
+    expect((await getIndex(target, "b")).posts.map((p) => p.slug)).toEqual(["hello"]);
+  });
+
+  it("skips, overwrites or renames conflicting slugs", async () => {
+    const records = await archive();
+    const seed = async () => {
+      const kv = memoryStorage();
+      await putPost(kv, makePost({ slug: "hello", title: "Mine" }));
+      await updateIndex(kv, makePost({ slug: "hello", title: "Mine" }));
+      return kv;
+    };
+
+    const skipped = await seed();
+    expect((await importArchive(skipped, records)).skipped).toEqual(["hello"]);
+    expect(await skipped.get<AgentCMSPost>(KEYS.post("hello"), "json")).toMatchObject({ title: "Mine" });
+
+    const overwritten = await seed();
+    await importArchive(overwritten, records, { onConflict: "overwrite" });
+    expect(await overwritten.get<AgentCMSPost>(KEYS.post("hello"), "json")).toMatchObject({ title: "Test Post" });
+    expect((await getIndex(overwritten)).posts).toHaveLength(1);
+
+    const renamed = await seed();
+    const report = await importArchive(renamed, records, { onConflict: "rename" });
+    expect(report.renamed).toEqual([{ from: "hello", to: "hello-2" }]);
+    expect(await renamed.get<AgentCMSPost>(KEYS.post("hello-2"), "json")).toMatchObject({ slug: "hello-2" });
+    expect((await getIndex(renamed)).posts.map((p) => p.slug).sort()).toEqual(["hello", "hello-2"]);
+  });
+
+  it("writes nothing on a dry run", async () => {
+    const target = memoryStorage();
+    const report = await importArchive(target, await archive(), { dryRun: true });
+    expect(report.imported).toEqual(["hello", "wip"]);
+    expect((await target.list()).keys).toHaveLength(0);
+  });
+});
@@ -0,0 +1,517 @@
+// ============================================================================
+// AgentCMS — Site Backup & Restore
+// ============================================================================
+//
+// A site archive is JSONL: one record per line, starting with a header.
+//
+//   {"type":"header","format":"agentcms-archive","version":2,…}
+//   {"type":"post","data":{…}}       live post (posts:<slug>)
+//   {"type":"draft","data":{…}}      draft (posts:draft:<slug>)
+//   {"type":"index","data":[…]}      index entries at export time
+//   {"type":"redirect","data":{…}}   redirect (redirects:<from>)
+//   {"type":"trash","data":{…}}      trashed post (trash:<slug>)
+//   {"type":"revisions","slug":…,"data":[…]}
+//                                    a post's revisions, newest first
+//   {"type":"config","data":{…}}     site config
+//   {"type":"agent","data":{…}}      agent key record (hash only; the HMAC
+//                                    signing secret only with includeSecrets)
+//   {"type":"image","key":…,"contentType":…,"data":"<base64>"}
+//
+// Post, draft, index, redirect, trash and revisions records are written for
+// blog posts and then for each content type found under "types:<type>:";
+// the latter carry "contentType" and are restored under that type.
+//
+// Records carry no prefix, so an archive can be restored under any prefix or
+// into another namespace. Image keys are unprefixed too; registry sites keep
+// their images under "<prefix>/" in R2, which export and import add back.
+// Used by the `agentcms export` and `agentcms import` CLI commands.
+//
+// ============================================================================
+
+import type {
+  AgentCMSPost,
+  AgentCMSSiteConfig,
+  AgentKeyRecord,
+  PostIndexEntry,
+  PostRedirect,
+  PostRevision,
+  TrashedPost,
+} from "../types.js";
+import {
+  KEYS,
+  kvKeys,
+  contentTypePrefix,
+  getConfig,
+  getIndex,
+  getRedirect,
+  getTrashedPost,
+  indexEntryFromPost,
+  listRedirects,
+  listSites,
+  putAgentKey,
+  putConfig,
+  putRedirect,
+  putTrashedPost,
+  syncSchedule,
+  writeIndex,
+} from "./kv.js";
+import { listPostSlugs } from "./reindex.js";
+import { getRevision, listRevisions, putRevisionHistory } from "./revisions.js";
+import { listAllKeys, type StorageAdapter } from "./storage.js";
+
+export const ARCHIVE_FORMAT = "agentcms-archive";
+/** Version 2 added redirects, trash, revisions and content types; version 1 archives still import. */
+export const ARCHIVE_VERSION = 2;
+
+/** Records fetched in parallel while exporting. */
+const READ_BATCH_SIZE = 50;
+
+/** Image URLs written by the upload handler: /images/{8 hex}-{filename}. */
+const IMAGE_REF = /\/images\/([a-f0-9]{8}-[a-z0-9._-]+)/gi;
+
+export type ArchiveRecord =
+  | {
+      type: "header";
+      format: typeof ARCHIVE_FORMAT;
+      version: number;
+      /** Prefix the archive was exported from, for reference only. */
+      prefix: string | null;
+      exportedAt: string;
+    }
+  | NamespaceRecord
+  | { type: "config"; data: AgentCMSSiteConfig }
+  | { type: "agent"; data: AgentKeyRecord }
+  | { type: "image"; key: string; contentType: string; data: string };
+
+/** Records of one post namespace: blog posts, or one content type's entries. */
+export type NamespaceRecord = (
+  | { type: "post"; data: AgentCMSPost }
+  | { type: "draft"; data: AgentCMSPost }
+  | { type: "index"; data: PostIndexEntry[] }
+  | { type: "redirect"; data: PostRedirect }
+  | { type: "trash"; data: TrashedPost }
+  | { type: "revisions"; slug: string; data: PostRevision[] }
+) & {
+  /** Content type the record belongs to; unset for blog posts. */
+  contentType?: string;
+};
+
+const NAMESPACE_RECORDS = new Set(["post", "draft", "index", "redirect", "trash", "revisions"]);
+
+/** The parts of an R2 bucket the archive reads and writes images through. */
+export interface ArchiveImageStore {
+  get(key: string): Promise<{ body: ArrayBuffer; contentType: string } | null>;
+  put(key: string, body: ArrayBuffer, contentType: string): Promise<void>;
+}
+
+/** What to do when an archived record already exists in the target. */
+export type ConflictPolicy = "skip" | "overwrite" | "rename";
+
+/** Post slugs are reported as "<type>/<slug>" for content type entries. */
+export interface ImportReport {
+  /** Slugs written under their archived slug. */
+  imported: string[];
+  /** Slugs left alone because the target already had them. */
+  skipped: string[];
+  /** Slugs written under a new slug to avoid a conflict. */
+  renamed: Array<{ from: string; to: string }>;
+  config: "imported" | "skipped" | "absent";
+  agents: { imported: number; skipped: number };
+  redirects: { imported: number; skipped: number };
+  /** Entries already past their purge date are skipped. */
+  trash: { imported: number; skipped: number };
+  /** Counted per post history. */
+  revisions: { imported: number; skipped: number };
+  images: number;
+  dryRun: boolean;
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  let binary = "";
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+function fromBase64(data: string): ArrayBuffer {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
+
+/** R2 keys of the uploaded images a post links to. */
+export function imageKeysForPost(post: AgentCMSPost): string[] {
+  const text = `${post.featuredImage ?? ""}\n${post.content}`;
+  return [...text.matchAll(IMAGE_REF)].map((m) => m[1]);
+}
+
+/**
+ * The image store as seen from one site. A registry site keeps its uploads
+ * under "<prefix>/" (see imageObjectKey), so map archive keys onto that.
+ */
+async function siteImageStore(
+  kv: StorageAdapter,
+  images: ArchiveImageStore | undefined,
+  prefix: string | undefined
+): Promise<ArchiveImageStore | undefined> {
+  if (!images || !prefix) return images;
+  const sites = await listSites(kv);
+  if (!sites.some((site) => site.prefix === prefix)) return images;
+  return {
+    get: (key) => images.get(`${prefix}/${key}`),
+    put: (key, body, contentType) => images.put(`${prefix}/${key}`, body, contentType),
+  };
+}
+
+async function readAll<T>(kv: StorageAdapter, names: string[]): Promise<T[]> {
+  const records: T[] = [];
+  for (let i = 0; i < names.length; i += READ_BATCH_SIZE) {
+    const batch = await Promise.all(
+      names.slice(i, i + READ_BATCH_SIZE).map((name) => kv.get<T>(name, "json"))
+    );
+    records.push(...batch.filter((r): r is Awaited<T> & {} => r !== null));
+  }
+  return records;
+}
+
+/** Content types with entries under the site, from their "types:<type>:" keys. */
+async function listContentTypes(kv: StorageAdapter, prefix?: string): Promise<string[]> {
+  const typesPrefix = prefix ? `${prefix}:types:` : "types:";
+  const names = await listAllKeys(kv, typesPrefix);
+  return [...new Set(names.map((name) => name.slice(typesPrefix.length).split(":")[0]))].sort();
+}
+
+/**
+ * Yield the records of one namespace, where `prefix` is the one the post
+ * helpers take, and collect the images its posts link to.
+ */
+async function* exportNamespace(
+  kv: StorageAdapter,
+  prefix: string | undefined,
+  contentType: string | undefined,
+  imageKeys: Set<string>
+): AsyncGenerator<NamespaceRecord> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  const tag = contentType ? { contentType } : {};
+
+  const slugs = await listPostSlugs(kv, prefix);
+  for (const post of await readAll<AgentCMSPost>(kv, slugs.map((s) => keys.post(s)))) {
+    for (const key of imageKeysForPost(post)) imageKeys.add(key);
+    yield { type: "post", data: post, ...tag };
+  }
+
+  const draftNames = await listAllKeys(kv, keys.draft(""));
+  for (const draft of await readAll<AgentCMSPost>(kv, draftNames)) {
+    for (const key of imageKeysForPost(draft)) imageKeys.add(key);
+    yield { type: "draft", data: draft, ...tag };
+  }
+
+  yield { type: "index", data: (await getIndex(kv, prefix)).posts, ...tag };
+
+  for (const redirect of await listRedirects(kv, prefix)) {
+    yield { type: "redirect", data: redirect, ...tag };
+  }
+
+  for (const entry of await readAll<TrashedPost>(kv, await listAllKeys(kv, keys.trash("")))) {
+    for (const post of [entry.post, entry.draft]) {
+      if (post) for (const key of imageKeysForPost(post)) imageKeys.add(key);
+    }
+    yield { type: "trash", data: entry, ...tag };
+  }
+
+  // revisions:<slug> lists a post's history; its snapshots add ":<id>"
+  const historyPrefix = keys.revisions("");
+  for (const name of await listAllKeys(kv, historyPrefix)) {
+    const slug = name.slice(historyPrefix.length);
+    if (slug.includes(":")) continue;
+    const summaries = await listRevisions(kv, slug, prefix);
+    const revisions = await Promise.all(summaries.map((s) => getRevision(kv, slug, s.id, prefix)));
+    yield {
+      type: "revisions",
+      slug,
+      data: revisions.filter((r): r is PostRevision => r !== null),
+      ...tag,
+    };
+  }
+}
+
+/**
+ * Yield every record of a site as archive records, header first. Images are
+ * included only when an image store is given, and only those the exported
+ * posts and drafts link to, so a bucket shared between sites is not copied
+ * wholesale. Key records lose their plaintext `signingSecret` unless
+ * `includeSecrets` is set; restored signing keys then need a rotation.
+ */
+export async function* exportArchive(
+  kv: StorageAdapter,
+  options: { prefix?: string; images?: ArchiveImageStore; includeSecrets?: boolean } = {}
+): AsyncGenerator<ArchiveRecord> {
+  const { prefix, includeSecrets = false } = options;
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  const images = await siteImageStore(kv, options.images, prefix);
+
+  yield {
+    type: "header",
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    prefix: prefix ?? null,
+    exportedAt: new Date().toISOString(),
+  };
+
+  const imageKeys = new Set<string>();
+  for (const contentType of [undefined, ...(await listContentTypes(kv, prefix))]) {
+    yield* exportNamespace(kv, contentTypePrefix(contentType, prefix), contentType, imageKeys);
+  }
+
+  const config = await getConfig(kv, prefix);
+  if (config) yield { type: "config", data: config };
+
+  const agentNames = await listAllKeys(kv, keys.agent(""));
+  for (const agent of await readAll<AgentKeyRecord>(kv, agentNames)) {
+    if (includeSecrets) {
+      yield { type: "agent", data: agent };
+      continue;
+    }
+    const { signingSecret: _secret, ...record } = agent;
+    yield { type: "agent", data: record };
+  }
+
+  if (images) {
+    for (const key of [...imageKeys].sort()) {
+      const object = await images.get(key);
+      if (!object) continue;
+      yield {
+        type: "image",
+        key,
+        contentType: object.contentType,
+        data: toBase64(object.body),
+      };
+    }
+  }
+}
+
+/**
+ * Restore one namespace's records under `prefix`, the one the post helpers
+ * take, adding to the report.
+ */
+async function importNamespace(
+  kv: StorageAdapter,
+  records: NamespaceRecord[],
+  prefix: string | undefined,
+  contentType: string | undefined,
+  report: ImportReport,
+  options: { onConflict: ConflictPolicy; dryRun: boolean }
+): Promise<void> {
+  const { onConflict, dryRun } = options;
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  const label = (slug: string) => (contentType ? `${contentType}/${slug}` : slug);
+
+  const bySlug = new Map<string, { post?: AgentCMSPost; draft?: AgentCMSPost }>();
+  for (const record of records) {
+    if (record.type !== "post" && record.type !== "draft") continue;
+    const group = bySlug.get(record.data.slug) ?? {};
+    group[record.type] = record.data;
+    bySlug.set(record.data.slug, group);
+  }
+
+  const slugTaken = async (slug: string) =>
+    (await kv.get(keys.post(slug))) !== null || (await kv.get(keys.draft(slug))) !== null;
+
+  const indexed: PostIndexEntry[] = [];
+  const written: string[] = [];
+  // Where each archived slug went; null when it was skipped
+  const targets = new Map<string, string | null>();
+  for (const [slug, group] of bySlug) {
+    let target = slug;
+    if (await slugTaken(slug)) {
+      if (onConflict === "skip") {
+        report.skipped.push(label(slug));
+        targets.set(slug, null);
+        continue;
+      }
+      if (onConflict === "rename") {
+        let n = 2;
+        while (await slugTaken(`${slug}-${n}`)) n++;
+        target = `${slug}-${n}`;
+      }
+    }
+
+    if (target === slug) report.imported.push(label(slug));
+    else report.renamed.push({ from: label(slug), to: label(target) });
+    written.push(target);
+    targets.set(slug, target);
+    if (dryRun) continue;
+
+    if (group.post) {
+      const post = { ...group.post, slug: target };
+      await kv.put(keys.post(target), JSON.stringify(post));
+      await syncSchedule(kv, post, prefix);
+      if (post.status === "published") indexed.push(indexEntryFromPost(post));
+    } else if (onConflict === "overwrite") {
+      // The archive has only a draft here; don't leave a stale live copy beside it
+      await kv.delete(keys.post(target));
+    }
+    if (group.draft) {
+      const draft = { ...group.draft, slug: target };
+      await kv.put(keys.draft(target), JSON.stringify(draft));
+    }
+  }
+
+  if (!dryRun && written.length > 0) {
+    const replaced = new Set(written);
+    const kept = (await getIndex(kv, prefix)).posts.filter((e) => !replaced.has(e.slug));
+    await writeIndex(kv, [...kept, ...indexed], prefix);
+  }
+
+  for (const record of records) {
+    if (record.type !== "redirect") continue;
+    if ((await getRedirect(kv, record.data.from, prefix)) && onConflict !== "overwrite") {
+      report.redirects.skipped++;
+      continue;
+    }
+    report.redirects.imported++;
+    if (!dryRun) await putRedirect(kv, record.data, prefix);
+  }
+
+  const now = Date.now();
+  for (const record of records) {
+    if (record.type !== "trash") continue;
+    const entry = record.data;
+    const expired = Date.parse(entry.purgeAt) <= now;
+    if (expired || ((await getTrashedPost(kv, entry.slug, prefix)) && onConflict !== "overwrite")) {
+      report.trash.skipped++;
+      continue;
+    }
+    report.trash.imported++;
+    // putTrashedPost sets the TTL from purgeAt, so the entry keeps its remaining time
+    if (!dryRun) await putTrashedPost(kv, entry, prefix);
+  }
+
+  for (const record of records) {
+    if (record.type !== "revisions") continue;
+    // History goes where its post went; without a post here, it is a conflict of its own
+    let target = targets.get(record.slug);
+    if (target === undefined) {
+      const exists = (await listRevisions(kv, record.slug, prefix)).length > 0;
+      target = exists && onConflict !== "overwrite" ? null : record.slug;
+    }
+    if (target === null) {
+      report.revisions.skipped++;
+      continue;
+    }
+    report.revisions.imported++;
+    if (!dryRun) await putRevisionHistory(kv, target, record.data, prefix);
+  }
+}
+
+/** Parse a JSONL archive, checking its header. */
+export function parseArchive(text: string): ArchiveRecord[] {
+  const records = text
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line, i) => {
+      try {
+        return JSON.parse(line) as ArchiveRecord;
+      } catch {
+        throw new Error(`AgentCMS: archive line ${i + 1} is not valid JSON`);
+      }
+    });
+
+  const header = records[0];
+  if (header?.type !== "header" || header.format !== ARCHIVE_FORMAT) {
+    throw new Error("AgentCMS: not an AgentCMS archive (missing header)");
+  }
+  if (header.version > ARCHIVE_VERSION) {
+    throw new Error(`AgentCMS: archive version ${header.version} is newer than supported`);
+  }
+  return records;
+}
+
+/**
+ * Restore archive records into a site. Posts and drafts are grouped by slug,
+ * so a live post and its pending draft share one conflict decision; "rename"
+ * moves both to the first free `<slug>-<n>`. Config and agent keys cannot be
+ * renamed: under "rename" an existing one is kept, as with "skip".
+ *
+ * The archived index is not written back. Entries for the imported published
+ * posts are merged into the target's index, so posts already there stay
+ * listed. A post's revision history follows its conflict decision; trash
+ * entries keep the time they had left before being purged.
+ */
+export async function importArchive(
+  kv: StorageAdapter,
+  records: ArchiveRecord[],
+  options: {
+    prefix?: string;
+    onConflict?: ConflictPolicy;
+    images?: ArchiveImageStore;
+    dryRun?: boolean;
+  } = {}
+): Promise<ImportReport> {
+  const { prefix, onConflict = "skip", dryRun = false } = options;
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  const images = await siteImageStore(kv, options.images, prefix);
+  const report: ImportReport = {
+    imported: [],
+    skipped: [],
+    renamed: [],
+    config: "absent",
+    agents: { imported: 0, skipped: 0 },
+    redirects: { imported: 0, skipped: 0 },
+    trash: { imported: 0, skipped: 0 },
+    revisions: { imported: 0, skipped: 0 },
+    images: 0,
+    dryRun,
+  };
+
+  // Blog posts first, then content types in archive order
+  const namespaces = new Map<string | undefined, NamespaceRecord[]>([[undefined, []]]);
+  for (const record of records) {
+    if (!NAMESPACE_RECORDS.has(record.type)) continue;
+    const entry = record as NamespaceRecord;
+    const group = namespaces.get(entry.contentType) ?? [];
+    group.push(entry);
+    namespaces.set(entry.contentType, group);
+  }
+  for (const [contentType, group] of namespaces) {
+    await importNamespace(kv, group, contentTypePrefix(contentType, prefix), contentType, report, {
+      onConflict,
+      dryRun,
+    });
+  }
+
+  const config = records.find((r) => r.type === "config");
+  if (config) {
+    const exists = (await getConfig(kv, prefix)) !== null;
+    if (exists && onConflict !== "overwrite") {
+      report.config = "skipped";
+    } else {
+      report.config = "imported";
+      if (!dryRun) await putConfig(kv, config.data, prefix);
+    }
+  }
+
+  for (const record of records) {
+    if (record.type !== "agent") continue;
+    const key = keys.agent(record.data.keyHash);
+    if ((await kv.get(key)) !== null && onConflict !== "overwrite") {
+      report.agents.skipped++;
+      continue;
+    }
+    report.agents.imported++;
+    // Through putAgentKey, so expiring and rotated-out keys keep their TTL
+    if (!dryRun) await putAgentKey(kv, record.data, prefix);
+  }
+
+  if (images) {
+    for (const record of records) {
+      if (record.type !== "image") continue;
+      // Upload keys are content-addressed, so rewriting one is harmless
+      report.images++;
+      if (!dryRun) await images.put(record.key, fromBase64(record.data), record.contentType);
+    }
+  }
+
+  return report;
+}
@@ -5,6 +5,7 @@ import {
   generateDescription,
   extractHeadings,
   generateApiKey,
+  computePostEtag,
 } from "./content.js";
 
 // ============================================================================
@@ -180,3 +181,22 @@ describe("generateApiKey", () => {
     expect(key1).not.toBe(key2);
   });
 });
+
+// ============================================================================
+// computePostEtag
+// ============================================================================
+
+describe("computePostEtag", () => {
+  it("returns a quoted strong ETag", async () => {
+    const etag = await computePostEtag({ updatedAt: "2025-01-01T00:00:00.000Z" });
+    expect(etag).toMatch(/^"[0-9a-f]{24}"$/);
+  });
+
+  it("changes when updatedAt or content changes", async () => {
+    const base = { updatedAt: "2025-01-01T00:00:00.000Z", content: "a" };
+    const same = await computePostEtag({ ...base });
+    expect(await computePostEtag(base)).toBe(same);
+    expect(await computePostEtag({ ...base, content: "b" })).not.toBe(same);
+    expect(await computePostEtag({ ...base, updatedAt: "2025-01-02T00:00:00.000Z" })).not.toBe(same);
+  });
+});
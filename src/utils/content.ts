@@ -76,3 +76,19 @@ export function generateApiKey(prefix: "acms_live" | "acms_draft"): string {
     .join("");
   return `${prefix}_${key}`;
 }
+
+/**
+ * Compute a strong ETag for a post. Any stored change — content, metadata or
+ * updatedAt — produces a new tag.
+ */
+export async function computePostEtag(post: {
+  updatedAt: string;
+  content?: string;
+}): Promise<string> {
+  const data = new TextEncoder().encode(JSON.stringify(post));
+  const hash = await crypto.subtle.digest("SHA-256", data);
+  const hex = Array.from(new Uint8Array(hash).slice(0, 12))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `"${hex}"`;
+}
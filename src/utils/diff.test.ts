@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { diffLines, formatUnifiedDiff } from "./diff.js";
+
+describe("diffLines", () => {
+  it("marks unchanged text as equal", () => {
+    expect(diffLines("a\nb", "a\nb")).toEqual([
+      { op: "equal", text: "a" },
+      { op: "equal", text: "b" },
+    ]);
+  });
+
+  it("detects added, removed and replaced lines", () => {
+    const ops = diffLines("a\nb\nc\nd", "a\nc\nx\nd");
+    expect(ops).toEqual([
+      { op: "equal", text: "a" },
+      { op: "remove", text: "b" },
+      { op: "equal", text: "c" },
+      { op: "add", text: "x" },
+      { op: "equal", text: "d" },
+    ]);
+  });
+});
+
+describe("formatUnifiedDiff", () => {
+  it("returns an empty string when nothing changed", () => {
+    expect(formatUnifiedDiff(diffLines("same", "same"))).toBe("");
+  });
+
+  it("renders hunks with context lines", () => {
+    const before = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10"].join("\n");
+    const after = ["1", "2", "3", "4", "FIVE", "6", "7", "8", "9", "10"].join("\n");
+    expect(formatUnifiedDiff(diffLines(before, after), 1)).toBe(
+      ["@@ -4,3 +4,3 @@", " 4", "-5", "+FIVE", " 6"].join("\n")
+    );
+  });
+
+  it("splits distant changes into separate hunks", () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i}`).join("\n");
+    const after = before.replace("line 1\n", "changed 1\n").replace("line 18", "changed 18");
+    const hunks = formatUnifiedDiff(diffLines(before, after), 2).match(/^@@/gm);
+    expect(hunks).toHaveLength(2);
+  });
+});
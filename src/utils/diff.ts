@@ -0,0 +1,126 @@
+// ============================================================================
+// AgentCMS — Line Diff
+// ============================================================================
+//
+// Minimal LCS line diff used to compare post revisions. Pure functions.
+//
+// ============================================================================
+
+export interface DiffLine {
+  op: "equal" | "add" | "remove";
+  text: string;
+}
+
+/** Above this many LCS cells the diff degrades to "replace everything". */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Compute a line-level diff between two strings.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // Strip the common prefix and suffix — most edits touch a few lines
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (
+    tail < a.length - head &&
+    tail < b.length - head &&
+    a[a.length - 1 - tail] === b[b.length - 1 - tail]
+  ) {
+    tail++;
+  }
+
+  const prefix: DiffLine[] = a.slice(0, head).map((text) => ({ op: "equal", text }));
+  const suffix: DiffLine[] = a
+    .slice(a.length - tail)
+    .map((text) => ({ op: "equal", text }));
+  const midA = a.slice(head, a.length - tail);
+  const midB = b.slice(head, b.length - tail);
+
+  return [...prefix, ...diffMiddle(midA, midB), ...suffix];
+}
+
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const removeAll: DiffLine[] = a.map((text) => ({ op: "remove", text }));
+  const addAll: DiffLine[] = b.map((text) => ({ op: "add", text }));
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_LCS_CELLS) {
+    return [...removeAll, ...addAll];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..], flattened row-major
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const out: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      out.push({ op: "equal", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      out.push({ op: "remove", text: a[i++] });
+    } else {
+      out.push({ op: "add", text: b[j++] });
+    }
+  }
+  while (i < a.length) out.push({ op: "remove", text: a[i++] });
+  while (j < b.length) out.push({ op: "add", text: b[j++] });
+  return out;
+}
+
+/**
+ * Render diff lines as unified-diff hunks with `context` lines around each
+ * change. Returns an empty string when nothing changed.
+ */
+export function formatUnifiedDiff(lines: DiffLine[], context = 3): string {
+  const oldLine: number[] = [];
+  const newLine: number[] = [];
+  let o = 1;
+  let n = 1;
+  for (const line of lines) {
+    oldLine.push(o);
+    newLine.push(n);
+    if (line.op !== "add") o++;
+    if (line.op !== "remove") n++;
+  }
+
+  const changed = lines.flatMap((line, idx) => (line.op === "equal" ? [] : [idx]));
+  const out: string[] = [];
+
+  let start = 0;
+  while (start < changed.length) {
+    // Merge changes separated by no more than 2 * context unchanged lines
+    let end = start;
+    while (end + 1 < changed.length && changed[end + 1] - changed[end] <= context * 2 + 1) {
+      end++;
+    }
+
+    const from = Math.max(0, changed[start] - context);
+    const to = Math.min(lines.length - 1, changed[end] + context);
+    const hunk = lines.slice(from, to + 1);
+    const oldCount = hunk.filter((l) => l.op !== "add").length;
+    const newCount = hunk.filter((l) => l.op !== "remove").length;
+
+    out.push(`@@ -${oldLine[from]},${oldCount} +${newLine[from]},${newCount} @@`);
+    for (const line of hunk) {
+      const marker = line.op === "add" ? "+" : line.op === "remove" ? "-" : " ";
+      out.push(`${marker}${line.text}`);
+    }
+    start = end + 1;
+  }
+
+  return out.join("\n");
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { ipInRanges, isValidCidr, parseIp } from "./ip.js";
+
+describe("ipInRanges", () => {
+  it("matches IPv4 addresses against ranges and single hosts", () => {
+    expect(ipInRanges("203.0.113.7", ["203.0.113.0/24"])).toBe(true);
+    expect(ipInRanges("203.0.114.7", ["203.0.113.0/24"])).toBe(false);
+    expect(ipInRanges("10.1.2.3", ["192.168.0.0/16", "10.1.2.3"])).toBe(true);
+    expect(ipInRanges("8.8.8.8", ["0.0.0.0/0"])).toBe(true);
+  });
+
+  it("matches IPv6, including shorthand and IPv4-mapped addresses", () => {
+    expect(ipInRanges("2001:db8::1", ["2001:db8::/32"])).toBe(true);
+    expect(ipInRanges("2001:db9::1", ["2001:db8::/32"])).toBe(false);
+    expect(ipInRanges("::ffff:203.0.113.7", ["203.0.113.0/24"])).toBe(true);
+    expect(ipInRanges("2001:db8::1", ["203.0.113.0/24"])).toBe(false);
+  });
+
+  it("never matches malformed input", () => {
+    expect(ipInRanges("not-an-ip", ["0.0.0.0/0"])).toBe(false);
+    expect(ipInRanges("1.2.3.4", ["1.2.3.0/33"])).toBe(false);
+  });
+});
+
+describe("isValidCidr", () => {
+  it("accepts addresses and ranges and rejects the rest", () => {
+    expect(isValidCidr("198.51.100.0/24")).toBe(true);
+    expect(isValidCidr("::1")).toBe(true);
+    expect(isValidCidr("256.0.0.1")).toBe(false);
+    expect(isValidCidr("1:2:3:4:5:6:7:8:9")).toBe(false);
+    expect(parseIp("1::2::3")).toBeNull();
+  });
+});
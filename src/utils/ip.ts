@@ -0,0 +1,94 @@
+// ============================================================================
+// AgentCMS — IP Address Matching
+// ============================================================================
+//
+// CIDR matching for per-key IP allowlists. Handles IPv4, IPv6 (including ::
+// shorthand) and IPv4-mapped IPv6 addresses, which are compared as IPv4.
+//
+// ============================================================================
+
+interface ParsedIp {
+  version: 4 | 6;
+  value: bigint;
+}
+
+function parseIpv4(text: string): bigint | null {
+  const parts = text.split(".");
+  if (parts.length !== 4) return null;
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const n = Number(part);
+    if (n > 255) return null;
+    value = (value << 8n) | BigInt(n);
+  }
+  return value;
+}
+
+function parseIpv6(text: string): bigint | null {
+  // A trailing dotted quad stands for the last two groups
+  let groups = text;
+  const lastColon = text.lastIndexOf(":");
+  if (text.includes(".")) {
+    const v4 = parseIpv4(text.slice(lastColon + 1));
+    if (v4 === null) return null;
+    groups = `${text.slice(0, lastColon + 1)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = groups.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  let value = 0n;
+  for (const group of [...head, ...Array(missing).fill("0"), ...tail]) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    value = (value << 16n) | BigInt(parseInt(group, 16));
+  }
+  return value;
+}
+
+/** Parse an IPv4 or IPv6 address. IPv4-mapped IPv6 addresses become IPv4. */
+export function parseIp(text: string): ParsedIp | null {
+  const address = text.trim();
+  if (address.includes(":")) {
+    const value = parseIpv6(address);
+    if (value === null) return null;
+    if (value >> 32n === 0xffffn) return { version: 4, value: value & 0xffffffffn };
+    return { version: 6, value };
+  }
+  const value = parseIpv4(address);
+  return value === null ? null : { version: 4, value };
+}
+
+/** Parse "addr/len", or a bare address as a single-host range. */
+function parseCidr(cidr: string): { network: ParsedIp; bits: number } | null {
+  const [address, length, ...rest] = cidr.trim().split("/");
+  if (rest.length > 0) return null;
+  const network = parseIp(address);
+  if (!network) return null;
+  const max = network.version === 4 ? 32 : 128;
+  if (length === undefined) return { network, bits: max };
+  if (!/^\d{1,3}$/.test(length) || Number(length) > max) return null;
+  return { network, bits: Number(length) };
+}
+
+export function isValidCidr(cidr: string): boolean {
+  return parseCidr(cidr) !== null;
+}
+
+/** Whether ip falls inside any of the CIDR ranges. Unparseable entries never match. */
+export function ipInRanges(ip: string, ranges: string[]): boolean {
+  const address = parseIp(ip);
+  if (!address) return false;
+
+  return ranges.some((cidr) => {
+    const range = parseCidr(cidr);
+    if (!range || range.network.version !== address.version) return false;
+    const width = BigInt(address.version === 4 ? 32 : 128);
+    const shift = width - BigInt(range.bits);
+    return address.value >> shift === range.network.value >> shift;
+  });
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { jwtPrincipal } from "./jwt.js";
+import { checkApiKey, hashApiKey, KEYS } from "./kv.js";
+import { memoryStorage } from "./storage.js";
+import type { AgentCMSSiteConfig, JwtAuthConfig, JwtPublicKey } from "../types.js";
+
+function base64Url(data: Uint8Array | string): string {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+interface TestKey {
+  privateKey: CryptoKey;
+  jwk: JwtPublicKey;
+  alg: "RS256" | "ES256";
+}
+
+async function generate(alg: "RS256" | "ES256", kid: string): Promise<TestKey> {
+  const params =
+    alg === "RS256"
+      ? { name: "RSASSA-PKCS1-v1_5", modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: "SHA-256" }
+      : { name: "ECDSA", namedCurve: "P-256" };
+  const pair = (await crypto.subtle.generateKey(params, true, ["sign", "verify"])) as CryptoKeyPair;
+  const jwk = (await crypto.subtle.exportKey("jwk", pair.publicKey)) as JwtPublicKey;
+  return { privateKey: pair.privateKey, jwk: { ...jwk, kid, alg }, alg };
+}
+
+async function sign(key: TestKey, claims: Record<string, unknown>, kid = key.jwk.kid): Promise<string> {
+  const head = `${base64Url(JSON.stringify({ alg: key.alg, typ: "JWT", kid }))}.${base64Url(JSON.stringify(claims))}`;
+  const algorithm =
+    key.alg === "RS256" ? { name: "RSASSA-PKCS1-v1_5" } : { name: "ECDSA", hash: "SHA-256" };
+  const signature = await crypto.subtle.sign(algorithm, key.privateKey, new TextEncoder().encode(head));
+  return `${head}.${base64Url(new Uint8Array(signature))}`;
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+let rsa: TestKey;
+let ec: TestKey;
+let config: JwtAuthConfig;
+
+beforeAll(async () => {
+  rsa = await generate("RS256", "rsa-1");
+  ec = await generate("ES256", "ec-1");
+  config = { jwks: { keys: [rsa.jwk, ec.jwk] }, issuer: "https://idp.test", audience: "blog" };
+});
+
+describe("jwtPrincipal", () => {
+  it("maps sub, scope and the rate-limit claim onto a key record", async () => {
+    const token = await sign(rsa, {
+      iss: "https://idp.test",
+      aud: ["blog", "other"],
+      sub: "agent-7",
+      scope: "openid publish read-only",
+      rate_limit: 40,
+      exp: now() + 600,
+    });
+    const principal = await jwtPrincipal(token, config);
+    expect(principal).toMatchObject({ name: "agent-7", scope: "publish", rateLimit: 40 });
+    expect(principal?.keyHash).toMatch(/^[a-f0-9]{64}$/);
+
+    // The same subject maps to the same keyHash, so limits follow it across tokens
+    const again = await jwtPrincipal(
+      await sign(ec, { iss: "https://idp.test", aud: "blog", sub: "agent-7", scope: ["publish"], exp: now() + 60 }),
+      config
+    );
+    expect(again).toMatchObject({ keyHash: principal?.keyHash, rateLimit: 10 });
+  });
+
+  it("uses configured claim names and scope mapping", async () => {
+    const mapped: JwtAuthConfig = {
+      jwks: { keys: [ec.jwk] },
+      claims: { subject: "client_id", scope: "perms", rateLimit: "https://blog/rpm" },
+      scopes: { "blog:write": "publish", "blog:admin": "admin" },
+      defaultRateLimit: 25,
+    };
+    const token = await sign(ec, { client_id: "ci-bot", perms: "blog:write blog:admin", exp: now() + 60 });
+    expect(await jwtPrincipal(token, mapped)).toMatchObject({ name: "ci-bot", scope: "admin", rateLimit: 25 });
+
+    const unmapped = await sign(ec, { client_id: "ci-bot", perms: "publish", exp: now() + 60 });
+    expect(await jwtPrincipal(unmapped, mapped)).toBeNull();
+  });
+
+  it("rejects bad signatures, unknown keys, wrong issuer or audience, and missing exp", async () => {
+    const claims = { iss: "https://idp.test", aud: "blog", sub: "a", scope: "publish", exp: now() + 60 };
+    const other = await generate("RS256", "rsa-1");
+
+    expect(await jwtPrincipal(await sign(other, claims), config)).toBeNull();
+    expect(await jwtPrincipal(await sign(rsa, claims, "unknown"), config)).toBeNull();
+    expect(await jwtPrincipal(await sign(rsa, { ...claims, iss: "https://evil.test" }), config)).toBeNull();
+    expect(await jwtPrincipal(await sign(rsa, { ...claims, aud: "elsewhere" }), config)).toBeNull();
+    expect(await jwtPrincipal(await sign(rsa, { ...claims, exp: undefined }), config)).toBeNull();
+
+    const [head, , sig] = (await sign(rsa, claims)).split(".");
+    const tampered = `${head}.${base64Url(JSON.stringify({ ...claims, scope: "admin" }))}.${sig}`;
+    expect(await jwtPrincipal(tampered, config)).toBeNull();
+
+    const none = `${base64Url(JSON.stringify({ alg: "none" }))}.${base64Url(JSON.stringify(claims))}.`;
+    expect(await jwtPrincipal(none, config)).toBeNull();
+  });
+});
+
+describe("checkApiKey with JWTs", () => {
+  it("accepts JWTs only when the site config has a JWKS, alongside ordinary keys", async () => {
+    const apiKey = "acms_live_plain";
+    const keyHash = await hashApiKey(apiKey);
+    const kv = memoryStorage({
+      [KEYS.agent(keyHash)]: JSON.stringify({
+        name: "plain",
+        keyHash,
+        scope: "publish",
+        createdAt: "2025-01-01T00:00:00.000Z",
+        rateLimit: 10,
+      }),
+    });
+    const claims = { iss: "https://idp.test", aud: "blog", sub: "agent-7", scope: "publish" };
+    const token = await sign(rsa, { ...claims, exp: now() + 60 });
+
+    expect(await checkApiKey(kv, `Bearer ${token}`)).toEqual({ ok: false, code: "invalid_key" });
+
+    await kv.put(KEYS.config, JSON.stringify({ name: "Blog", jwt: config } as Partial<AgentCMSSiteConfig>));
+    expect(await checkApiKey(kv, `Bearer ${token}`)).toMatchObject({ ok: true, record: { name: "agent-7" } });
+    expect(await checkApiKey(kv, `Bearer ${apiKey}`)).toMatchObject({ ok: true, record: { name: "plain" } });
+
+    const expired = await sign(rsa, { ...claims, exp: now() - 60 });
+    expect(await checkApiKey(kv, `Bearer ${expired}`)).toEqual({ ok: false, code: "key_expired" });
+    const early = await sign(rsa, { ...claims, nbf: now() + 600, exp: now() + 1200 });
+    expect(await checkApiKey(kv, `Bearer ${early}`)).toEqual({ ok: false, code: "key_not_yet_valid" });
+    const forged = await sign(await generate("ES256", "ec-1"), { ...claims, exp: now() + 60 });
+    expect(await checkApiKey(kv, `Bearer ${forged}`)).toEqual({ ok: false, code: "invalid_token" });
+
+    // Principals are not written back to storage
+    const stored = await kv.list({ prefix: "agents:" });
+    expect(stored.keys).toHaveLength(1);
+  });
+});
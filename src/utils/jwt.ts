@@ -0,0 +1,187 @@
+// ============================================================================
+// AgentCMS — JWT Bearer Tokens
+// ============================================================================
+//
+// Agents running on platforms that already issue JWTs can send those as
+// Bearer tokens instead of an AgentCMS key. Tokens are verified against the
+// JWKS in the site config (`jwt.jwks`, no remote fetching) and their claims
+// are mapped onto an AgentKeyRecord, so handlers treat them like any key:
+//
+//   sub                      → name (and, hashed with iss, keyHash)
+//   scope                    → scope, via jwt.scopes (space-separated or array)
+//   rate_limit (configurable)→ rateLimit per hour
+//   exp / nbf                → expiresAt / notBefore
+//
+// Tokens without exp are refused. Supported algorithms are RS256 and ES256.
+//
+// ============================================================================
+
+import type { AgentKeyRecord, AgentKeyScope, JwtAuthConfig, JwtPublicKey } from "../types.js";
+import { sha256Hex } from "./signing.js";
+
+export const DEFAULT_JWT_RATE_LIMIT = 10;
+
+const ALGORITHMS = {
+  RS256: {
+    kty: "RSA",
+    import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    verify: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  ES256: {
+    kty: "EC",
+    import: { name: "ECDSA", namedCurve: "P-256" },
+    verify: { name: "ECDSA", hash: "SHA-256" },
+  },
+} as const;
+
+type JwtAlgorithm = keyof typeof ALGORITHMS;
+
+/** Highest privilege first; a token granting several gets the first. */
+const SCOPE_ORDER: AgentKeyScope[] = ["admin", "publish", "draft-only", "read-only"];
+
+const JWT_REGEX = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/;
+
+/** Whether a Bearer token is shaped like a JWT rather than an AgentCMS key. */
+export function looksLikeJwt(token: string): boolean {
+  return JWT_REGEX.test(token);
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function decodeJson(part: string): Record<string, unknown> | null {
+  try {
+    const value: unknown = JSON.parse(new TextDecoder().decode(fromBase64Url(part)));
+    return value && typeof value === "object" && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+async function verifyWith(
+  jwk: JwtPublicKey,
+  alg: JwtAlgorithm,
+  signature: Uint8Array<ArrayBuffer>,
+  signed: BufferSource
+): Promise<boolean> {
+  try {
+    const key = await crypto.subtle.importKey("jwk", jwk as JsonWebKey, ALGORITHMS[alg].import, false, ["verify"]);
+    return await crypto.subtle.verify(ALGORITHMS[alg].verify, key, signature, signed);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify a token's signature, issuer and audience, and return its claims;
+ * null when any check fails. Expiry is left to the caller, which maps exp and
+ * nbf onto the principal like a key's validity window.
+ */
+export async function verifyJwt(
+  token: string,
+  config: JwtAuthConfig
+): Promise<Record<string, unknown> | null> {
+  if (!looksLikeJwt(token)) return null;
+  const [headerPart, payloadPart, signaturePart] = token.split(".");
+  const header = decodeJson(headerPart);
+  const claims = decodeJson(payloadPart);
+  if (!header || !claims) return null;
+
+  const alg = header.alg;
+  if (typeof alg !== "string" || !Object.hasOwn(ALGORITHMS, alg)) return null;
+  const algorithm = alg as JwtAlgorithm;
+
+  // With a kid, only that key is tried; without one, every key of the right type
+  const candidates = (config.jwks.keys ?? []).filter(
+    (jwk) =>
+      jwk.kty === ALGORITHMS[algorithm].kty &&
+      (!jwk.alg || jwk.alg === algorithm) &&
+      (header.kid === undefined || jwk.kid === header.kid)
+  );
+  let signature: Uint8Array<ArrayBuffer>;
+  try {
+    signature = fromBase64Url(signaturePart);
+  } catch {
+    return null;
+  }
+  const signed = new TextEncoder().encode(`${headerPart}.${payloadPart}`);
+  let verified = false;
+  for (const jwk of candidates) {
+    if (await verifyWith(jwk, algorithm, signature, signed)) {
+      verified = true;
+      break;
+    }
+  }
+  if (!verified) return null;
+
+  if (config.issuer !== undefined && claims.iss !== config.issuer) return null;
+  if (config.audience !== undefined) {
+    const aud = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!aud.includes(config.audience)) return null;
+  }
+  return claims;
+}
+
+/** The most privileged scope the claim grants, or null if it grants none. */
+function mapScope(claim: unknown, scopes: Record<string, AgentKeyScope> | undefined): AgentKeyScope | null {
+  const values = typeof claim === "string" ? claim.split(" ") : Array.isArray(claim) ? claim : [];
+  const granted = new Set<AgentKeyScope>();
+  for (const value of values) {
+    if (typeof value !== "string") continue;
+    const scope = scopes ? scopes[value] : (SCOPE_ORDER as string[]).includes(value) ? value : undefined;
+    if (scope) granted.add(scope as AgentKeyScope);
+  }
+  return SCOPE_ORDER.find((scope) => granted.has(scope)) ?? null;
+}
+
+function claimTime(value: unknown): string | undefined {
+  return typeof value === "number" && Number.isFinite(value)
+    ? new Date(value * 1000).toISOString()
+    : undefined;
+}
+
+/**
+ * Verify a token and map its claims onto a key record. keyHash is derived
+ * from iss and sub, so rate limits and quotas follow the principal across
+ * tokens. The record is not stored. null when the token does not verify or
+ * lacks exp, a subject or a recognised scope.
+ */
+export async function jwtPrincipal(
+  token: string,
+  config: JwtAuthConfig
+): Promise<AgentKeyRecord | null> {
+  const claims = await verifyJwt(token, config);
+  if (!claims) return null;
+
+  const subject = claims[config.claims?.subject ?? "sub"];
+  const scope = mapScope(claims[config.claims?.scope ?? "scope"], config.scopes);
+  if (typeof subject !== "string" || subject === "" || !scope) return null;
+
+  const rateLimitClaim = claims[config.claims?.rateLimit ?? "rate_limit"];
+  const rateLimit =
+    typeof rateLimitClaim === "number" && Number.isInteger(rateLimitClaim) && rateLimitClaim > 0
+      ? rateLimitClaim
+      : config.defaultRateLimit ?? DEFAULT_JWT_RATE_LIMIT;
+
+  const issuer = typeof claims.iss === "string" ? claims.iss : "";
+  const expiresAt = claimTime(claims.exp);
+  const notBefore = claimTime(claims.nbf);
+  if (!expiresAt) return null;
+  return {
+    name: subject,
+    keyHash: await sha256Hex(`jwt\n${issuer}\n${subject}`),
+    scope,
+    createdAt: claimTime(claims.iat) ?? new Date().toISOString(),
+    rateLimit,
+    expiresAt,
+    ...(notBefore ? { notBefore } : {}),
+    metadata: { auth: "jwt", ...(issuer ? { issuer } : {}) },
+  };
+}
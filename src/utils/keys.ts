@@ -0,0 +1,136 @@
+// ============================================================================
+// AgentCMS — Agent Key Lifecycle
+// ============================================================================
+//
+// Creating and rotating key records, shared by the key management API
+// (handlers/keys.ts) and the `agentcms keygen` / `agentcms keys` commands.
+// Only a hash of a secret is stored — HMAC-SHA256 keyed by the deployment's
+// pepper when it has one — and the secret is returned once.
+//
+// ============================================================================
+
+import type {
+  AgentKeyPolicy,
+  AgentKeyQuotas,
+  AgentKeyRecord,
+  AgentKeyScope,
+} from "../types.js";
+import { generateApiKey } from "./content.js";
+import { hashApiKey, putAgentKey, revokeAgentKey, PEPPERED_HASH_VERSION } from "./kv.js";
+import { generateSigningSecret } from "./signing.js";
+import type { StorageAdapter } from "./storage.js";
+
+export const DEFAULT_KEY_RATE_LIMIT = 10;
+export const DEFAULT_ROTATION_GRACE_SECONDS = 86_400;
+export const MAX_ROTATION_GRACE_SECONDS = 30 * 86_400;
+
+export interface IssuedKey {
+  /** The secret. Not stored anywhere; show it once. */
+  apiKey: string;
+  /** HMAC secret for signed requests, when the key has signing enabled. Show it once. */
+  signingSecret?: string;
+  record: AgentKeyRecord;
+}
+
+/** A key record as the API and CLI show it: the signing secret is replaced by a flag. */
+export function describeAgentKey(
+  record: AgentKeyRecord
+): Omit<AgentKeyRecord, "signingSecret"> & { signing: boolean } {
+  const { signingSecret: secret, ...rest } = record;
+  return { ...rest, signing: Boolean(secret) };
+}
+
+/** Draft-only keys get a distinct prefix so they are recognisable at a glance. */
+function newSecret(scope: AgentKeyScope): string {
+  return generateApiKey(scope === "draft-only" ? "acms_draft" : "acms_live");
+}
+
+/** keyHash (and hashVersion, when peppered) of a new secret. */
+async function hashFields(
+  apiKey: string,
+  pepper: string | undefined
+): Promise<Pick<AgentKeyRecord, "keyHash" | "hashVersion">> {
+  return pepper
+    ? { keyHash: await hashApiKey(apiKey, pepper), hashVersion: PEPPERED_HASH_VERSION }
+    : { keyHash: await hashApiKey(apiKey) };
+}
+
+/** Generate a secret and the record to store for it. Nothing is written. */
+export async function issueAgentKey(options: {
+  name: string;
+  scope: AgentKeyScope;
+  rateLimit?: number;
+  quotas?: AgentKeyQuotas;
+  expiresAt?: string;
+  notBefore?: string;
+  allowedIps?: string[];
+  policy?: AgentKeyPolicy;
+  /** Also issue a secret for signed requests. */
+  signing?: boolean;
+  metadata?: Record<string, unknown>;
+  /** AGENTCMS_KEY_PEPPER; without one the record uses the legacy plain hash. */
+  pepper?: string;
+}): Promise<IssuedKey> {
+  const apiKey = newSecret(options.scope);
+  const signingSecret = options.signing ? generateSigningSecret() : undefined;
+  const record: AgentKeyRecord = {
+    name: options.name,
+    ...(await hashFields(apiKey, options.pepper)),
+    scope: options.scope,
+    createdAt: new Date().toISOString(),
+    rateLimit: options.rateLimit ?? DEFAULT_KEY_RATE_LIMIT,
+    ...(options.quotas ? { quotas: options.quotas } : {}),
+    ...(options.expiresAt ? { expiresAt: options.expiresAt } : {}),
+    ...(options.notBefore ? { notBefore: options.notBefore } : {}),
+    ...(options.allowedIps?.length ? { allowedIps: options.allowedIps } : {}),
+    ...(options.policy ? { policy: options.policy } : {}),
+    ...(signingSecret ? { signingSecret } : {}),
+    ...(options.metadata ? { metadata: options.metadata } : {}),
+  };
+  return { apiKey, signingSecret, record };
+}
+
+/**
+ * Replace a key with a new secret carrying the same name, scope, limits and
+ * restrictions, including any expiry. A signing key gets a new signing
+ * secret too. The old record keeps working until
+ * now + graceSeconds (or its own expiry, if sooner) and then expires from
+ * storage; a grace of 0 revokes it at once. The new record is hashed with
+ * `pepper` when given, whatever the old one's format.
+ */
+export async function rotateAgentKey(
+  kv: StorageAdapter,
+  old: AgentKeyRecord,
+  graceSeconds: number = DEFAULT_ROTATION_GRACE_SECONDS,
+  prefix?: string,
+  pepper?: string
+): Promise<IssuedKey & { expiresAt: string }> {
+  const {
+    lastUsedAt: _lastUsed,
+    rotatedTo: _rotated,
+    signingSecret: _secret,
+    hashVersion: _version,
+    ...carried
+  } = old;
+  const apiKey = newSecret(old.scope);
+  const signingSecret = old.signingSecret ? generateSigningSecret() : undefined;
+  const now = new Date();
+  const record: AgentKeyRecord = {
+    ...carried,
+    ...(await hashFields(apiKey, pepper)),
+    createdAt: now.toISOString(),
+    ...(signingSecret ? { signingSecret } : {}),
+    metadata: { ...old.metadata, rotatedFrom: old.keyHash },
+  };
+  await putAgentKey(kv, record, prefix);
+
+  const graceEnd = new Date(now.getTime() + graceSeconds * 1000).toISOString();
+  const expiresAt = old.expiresAt && old.expiresAt < graceEnd ? old.expiresAt : graceEnd;
+  if (graceSeconds === 0) {
+    await revokeAgentKey(kv, old.keyHash, prefix);
+  } else {
+    await putAgentKey(kv, { ...old, expiresAt, rotatedTo: record.keyHash }, prefix);
+  }
+
+  return { apiKey, signingSecret, record, expiresAt };
+}
@@ -6,10 +6,17 @@ import {
   deletePost,
   getIndex,
   updateIndex,
+  writeIndex,
+  indexShardFor,
+  buildIndexShards,
+  INDEX_SHARD_CAPACITY,
+  getFacetIndex,
+  getFacetCounts,
   getConfig,
   putConfig,
   hashApiKey,
   validateApiKey,
+  checkApiKey,
   checkRateLimit,
 } from "./kv.js";
 import type { AgentCMSPost, PostIndex, AgentCMSSiteConfig } from "../types.js";
@@ -72,6 +79,10 @@ describe("KEYS", () => {
     expect(KEYS.index).toBe("posts:index");
   });
 
+  it("generates correct index shard key", () => {
+    expect(KEYS.indexShard(3)).toBe("posts:index:shard:3");
+  });
+
   it("has correct config key", () => {
     expect(KEYS.config).toBe("config:site");
   });
@@ -181,9 +192,7 @@ describe("updateIndex", () => {
     const post = makePost({ slug: "new-post", title: "New Post" });
     await updateIndex(kv, post, "upsert");
 
-    const index = JSON.parse(
-      (await kv.get(KEYS.index)) as string
-    ) as PostIndex;
+    const index = await getIndex(kv);
     expect(index.totalCount).toBe(1);
     expect(index.posts[0].slug).toBe("new-post");
   });
@@ -196,9 +205,7 @@ describe("updateIndex", () => {
     // Then remove
     await updateIndex(kv, post, "remove");
 
-    const index = JSON.parse(
-      (await kv.get(KEYS.index)) as string
-    ) as PostIndex;
+    const index = await getIndex(kv);
     expect(index.totalCount).toBe(0);
   });
 
@@ -207,9 +214,7 @@ describe("updateIndex", () => {
     const post = makePost({ status: "draft" });
     await updateIndex(kv, post, "upsert");
 
-    const index = JSON.parse(
-      (await kv.get(KEYS.index)) as string
-    ) as PostIndex;
+    const index = await getIndex(kv);
     expect(index.totalCount).toBe(0);
   });
 
@@ -219,9 +224,7 @@ describe("updateIndex", () => {
     await updateIndex(kv, post, "upsert");
     await updateIndex(kv, { ...post, title: "Updated" }, "upsert");
 
-    const index = JSON.parse(
-      (await kv.get(KEYS.index)) as string
-    ) as PostIndex;
+    const index = await getIndex(kv);
     expect(index.totalCount).toBe(1);
     expect(index.posts[0].title).toBe("Updated");
   });
@@ -240,14 +243,161 @@ describe("updateIndex", () => {
     await updateIndex(kv, old, "upsert");
     await updateIndex(kv, recent, "upsert");
 
-    const index = JSON.parse(
-      (await kv.get(KEYS.index)) as string
-    ) as PostIndex;
+    const index = await getIndex(kv);
     expect(index.posts[0].slug).toBe("new");
     expect(index.posts[1].slug).toBe("old");
   });
 });
 
+describe("sharded index", () => {
+  it("stores a manifest at posts:index and entries in shards", async () => {
+    const kv = createMockKV();
+    const post = makePost({ slug: "sharded" });
+    await updateIndex(kv, post, "upsert");
+
+    const manifest = JSON.parse((await kv.get(KEYS.index)) as string);
+    expect(manifest).toMatchObject({ version: 2, shardCount: 4 });
+    const shard = JSON.parse(
+      (await kv.get(KEYS.indexShard(indexShardFor("sharded", 4)))) as string
+    );
+    expect(shard.posts[0].slug).toBe("sharded");
+  });
+
+  it("rewrites only the shard an upsert touches", async () => {
+    const kv = createMockKV();
+    await updateIndex(kv, makePost({ slug: "first" }), "upsert");
+    vi.mocked(kv.put).mockClear();
+
+    await updateIndex(kv, makePost({ slug: "second" }), "upsert");
+    const indexWrites = vi
+      .mocked(kv.put)
+      .mock.calls.map(([key]) => key)
+      .filter((key) => key.startsWith(KEYS.index));
+    expect(indexWrites).toEqual([KEYS.indexShard(indexShardFor("second", 4))]);
+  });
+
+  it("keeps concurrent upserts to different shards", async () => {
+    const kv = createMockKV();
+    await updateIndex(kv, makePost({ slug: "seed" }), "upsert");
+
+    // Find two slugs that hash to different shards
+    const a = "alpha";
+    const b = ["beta", "gamma", "delta", "epsilon"].find(
+      (slug) => indexShardFor(slug, 4) !== indexShardFor(a, 4)
+    )!;
+    await Promise.all([
+      updateIndex(kv, makePost({ slug: a }), "upsert"),
+      updateIndex(kv, makePost({ slug: b }), "upsert"),
+    ]);
+
+    const slugs = (await getIndex(kv)).posts.map((p) => p.slug).sort();
+    expect(slugs).toEqual([a, b, "seed"].sort());
+  });
+
+  it("migrates a legacy single-blob index on the next write", async () => {
+    const kv = createMockKV();
+    const legacy: PostIndex = {
+      posts: [
+        {
+          slug: "legacy",
+          title: "Legacy",
+          description: "",
+          publishedAt: "2024-01-01T00:00:00.000Z",
+          tags: [],
+          author: "a",
+          authorType: "human",
+        },
+      ],
+      totalCount: 1,
+      lastUpdated: "2024-01-01T00:00:00.000Z",
+    };
+    await kv.put(KEYS.index, JSON.stringify(legacy));
+
+    await updateIndex(kv, makePost({ slug: "fresh" }), "upsert");
+
+    const index = await getIndex(kv);
+    expect(index.posts.map((p) => p.slug)).toEqual(["fresh", "legacy"]);
+    expect(JSON.parse((await kv.get(KEYS.index)) as string).version).toBe(2);
+  });
+
+  it("grows the shard count when a shard exceeds its capacity", () => {
+    const entries = Array.from({ length: INDEX_SHARD_CAPACITY * 5 }, (_, i) => ({
+      slug: `post-${i}`,
+      title: "",
+      description: "",
+      publishedAt: "2025-01-01T00:00:00.000Z",
+      tags: [],
+      author: "a",
+      authorType: "agent" as const,
+    }));
+    const { manifest, shards } = buildIndexShards(entries);
+    expect(manifest.shardCount).toBeGreaterThanOrEqual(8);
+    expect(shards.every((s) => s.posts.length <= INDEX_SHARD_CAPACITY)).toBe(true);
+  });
+
+  it("deletes leftover shards when rewritten with fewer shards", async () => {
+    const kv = createMockKV();
+    await kv.put(KEYS.index, JSON.stringify({ version: 2, shardCount: 8, lastUpdated: "" }));
+    await writeIndex(kv, []);
+    expect(kv.delete).toHaveBeenCalledWith(KEYS.indexShard(7));
+  });
+});
+
+// ============================================================================
+// Secondary indexes
+// ============================================================================
+
+describe("secondary indexes", () => {
+  it("follows a post across tag, category and author changes", async () => {
+    const kv = createMockKV();
+    await updateIndex(kv, makePost({ slug: "a", tags: ["x", "y"], category: "News" }));
+    await updateIndex(kv, makePost({ slug: "b", tags: ["y"], category: "News" }));
+
+    expect((await getFacetIndex(kv, "tag", "y"))?.map((p) => p.slug).sort()).toEqual(["a", "b"]);
+    expect(await getFacetCounts(kv)).toMatchObject({
+      tag: { x: 1, y: 2 },
+      category: { News: 2 },
+      author: { TestAgent: 2 },
+    });
+
+    await updateIndex(kv, makePost({ slug: "a", tags: ["z"], category: "Guides" }));
+    expect(await getFacetIndex(kv, "tag", "x")).toEqual([]);
+    expect(await kv.get(KEYS.facetIndex("tag", "x"))).toBeNull();
+    expect((await getFacetCounts(kv))?.category).toEqual({ News: 1, Guides: 1 });
+
+    await updateIndex(kv, makePost({ slug: "b" }), "remove");
+    expect(await getFacetCounts(kv)).toMatchObject({
+      tag: { z: 1 },
+      category: { Guides: 1 },
+      author: { TestAgent: 1 },
+    });
+  });
+
+  it("is rebuilt by writeIndex, dropping values no post has", async () => {
+    const kv = createMockKV();
+    await updateIndex(kv, makePost({ slug: "a", tags: ["old"] }));
+    await writeIndex(kv, [
+      { slug: "b", title: "", description: "", publishedAt: "", tags: ["new"], author: "a", authorType: "human" },
+    ]);
+
+    expect(await kv.get(KEYS.facetIndex("tag", "old"))).toBeNull();
+    expect((await getFacetCounts(kv))?.tag).toEqual({ new: 1 });
+  });
+
+  it("is built on first write for an index that predates it", async () => {
+    const kv = createMockKV();
+    const { manifest, shards } = buildIndexShards([
+      { slug: "old", title: "", description: "", publishedAt: "", tags: ["t"], author: "a", authorType: "human" },
+    ]);
+    await kv.put(KEYS.index, JSON.stringify(manifest));
+    for (const [n, shard] of shards.entries()) await kv.put(KEYS.indexShard(n), JSON.stringify(shard));
+    expect(await getFacetIndex(kv, "tag", "t")).toBeNull();
+
+    await updateIndex(kv, makePost({ slug: "new", tags: ["t"] }));
+    expect((await getFacetIndex(kv, "tag", "t"))?.map((p) => p.slug).sort()).toEqual(["new", "old"]);
+  });
+});
+
 // ============================================================================
 // Config
 // ============================================================================
@@ -302,6 +452,15 @@ describe("hashApiKey", () => {
     const h2 = await hashApiKey("key-b");
     expect(h1).not.toBe(h2);
   });
+
+  it("keys the hash with a pepper when given one", async () => {
+    const plain = await hashApiKey("same-key");
+    const peppered = await hashApiKey("same-key", "pepper-1");
+    expect(peppered).toMatch(/^[0-9a-f]{64}$/);
+    expect(peppered).not.toBe(plain);
+    expect(await hashApiKey("same-key", "pepper-1")).toBe(peppered);
+    expect(await hashApiKey("same-key", "pepper-2")).not.toBe(peppered);
+  });
 });
 
 describe("validateApiKey", () => {
@@ -338,6 +497,61 @@ describe("validateApiKey", () => {
     expect(result!.name).toBe("test");
     expect(result!.scope).toBe("publish");
   });
+
+  it("refuses keys outside their validity window or IP allowlist with distinct codes", async () => {
+    const kv = createMockKV();
+    const base = { scope: "publish", createdAt: "2025-01-01T00:00:00.000Z", rateLimit: 10 };
+    const register = async (apiKey: string, fields: Record<string, unknown>) => {
+      const keyHash = await hashApiKey(apiKey);
+      await kv.put(KEYS.agent(keyHash), JSON.stringify({ name: apiKey, keyHash, ...base, ...fields }));
+    };
+    await register("expired", { expiresAt: "2020-01-01T00:00:00.000Z" });
+    await register("future", { notBefore: "2999-01-01T00:00:00.000Z" });
+    await register("office", { allowedIps: ["203.0.113.0/24"] });
+
+    expect(await checkApiKey(kv, null)).toEqual({ ok: false, code: "missing_key" });
+    expect(await checkApiKey(kv, "Bearer nope")).toEqual({ ok: false, code: "invalid_key" });
+    expect(await checkApiKey(kv, "Bearer expired")).toEqual({ ok: false, code: "key_expired" });
+    expect(await checkApiKey(kv, "Bearer future")).toEqual({ ok: false, code: "key_not_yet_valid" });
+    expect(await checkApiKey(kv, "Bearer office")).toEqual({ ok: false, code: "ip_not_allowed" });
+    expect(await checkApiKey(kv, "Bearer office", undefined, { ip: "198.51.100.1" })).toEqual({
+      ok: false,
+      code: "ip_not_allowed",
+    });
+    expect(await validateApiKey(kv, "Bearer office", undefined, { ip: "203.0.113.9" })).toMatchObject({
+      name: "office",
+    });
+  });
+
+  it("moves plain-hash records to their peppered hash on the next successful use", async () => {
+    const kv = createMockKV();
+    const pepper = "test-pepper";
+    const base = { scope: "publish", createdAt: "2025-01-01T00:00:00.000Z", rateLimit: 10 };
+    const register = async (apiKey: string, fields: Record<string, unknown> = {}) => {
+      const keyHash = await hashApiKey(apiKey);
+      await kv.put(KEYS.agent(keyHash), JSON.stringify({ name: apiKey, keyHash, ...base, ...fields }));
+      return keyHash;
+    };
+    const oldHash = await register("legacy");
+    const expiredHash = await register("expired", { expiresAt: "2020-01-01T00:00:00.000Z" });
+    const signingHash = await register("signer", { signingSecret: "a".repeat(64) });
+    const newHash = await hashApiKey("legacy", pepper);
+
+    const check = await checkApiKey(kv, "Bearer legacy", undefined, { pepper });
+    expect(check).toMatchObject({ ok: true, record: { keyHash: newHash, hashVersion: 2 } });
+    expect(await kv.get(KEYS.agent(oldHash))).toBeNull();
+    expect(JSON.parse((await kv.get(KEYS.agent(newHash)))!)).toMatchObject({ name: "legacy", hashVersion: 2 });
+    expect(await validateApiKey(kv, "Bearer legacy", undefined, { pepper })).toMatchObject({ keyHash: newHash });
+
+    // Without the pepper an upgraded key no longer matches
+    expect(await checkApiKey(kv, "Bearer legacy")).toEqual({ ok: false, code: "invalid_key" });
+
+    // Refused keys and signing keys stay where they are
+    expect(await checkApiKey(kv, "Bearer expired", undefined, { pepper })).toEqual({ ok: false, code: "key_expired" });
+    expect(await kv.get(KEYS.agent(expiredHash))).not.toBeNull();
+    expect(await validateApiKey(kv, "Bearer signer", undefined, { pepper })).toMatchObject({ keyHash: signingHash });
+    expect(await kv.get(KEYS.agent(signingHash))).not.toBeNull();
+  });
 });
 
 // ============================================================================
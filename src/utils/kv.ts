@@ -1,14 +1,39 @@
 // ============================================================================
 // AgentCMS — KV Storage Helpers
 // ============================================================================
+//
+// All helpers take a StorageAdapter (see ./storage.ts), so the same code runs
+// against Workers KV, D1 or an in-memory store.
+//
+// ============================================================================
 
 import type {
   AgentCMSPost,
   PostIndex,
   PostIndexEntry,
+  PostIndexManifest,
+  PostIndexShard,
+  PostIndexFacet,
+  PostFacetIndex,
+  PostFacetCounts,
+  ScheduledPostEntry,
+  TrashedPost,
+  PostRedirect,
+  SiteRegistryEntry,
   AgentCMSSiteConfig,
   AgentKeyRecord,
 } from "../types.js";
+import { ipInRanges } from "./ip.js";
+import { jwtPrincipal, looksLikeJwt } from "./jwt.js";
+import {
+  SIGNATURE_SCHEME,
+  SIGNATURE_MAX_SKEW_SECONDS,
+  parseSignatureHeader,
+  verifySignature,
+  type SignatureHeader,
+  type SignedRequestParts,
+} from "./signing.js";
+import { listAllKeys, type StorageAdapter } from "./storage.js";
 
 // --- KV Key Helpers ---
 
@@ -23,19 +48,46 @@ export function kvKeys(prefix?: string) {
     post: (slug: string) => `${p}posts:${slug}`,
     draft: (slug: string) => `${p}posts:draft:${slug}`,
     index: `${p}posts:index`,
+    indexShard: (n: number) => `${p}posts:index:shard:${n}`,
+    facetIndex: (facet: string, value: string) =>
+      `${p}index:${facet}:${encodeURIComponent(value)}`,
+    facetCounts: `${p}index:counts`,
+    trash: (slug: string) => `${p}trash:${slug}`,
+    redirect: (from: string) => `${p}redirects:${from}`,
+    schedule: `${p}schedule:posts`,
+    scheduleLock: `${p}schedule:lock`,
     config: `${p}config:site`,
     agent: (keyHash: string) => `${p}agents:${keyHash}`,
-    rateLimit: (keyHash: string, hour: string) => `${p}ratelimit:${keyHash}:${hour}`,
+    agentUsage: (keyHash: string) => `${p}agent-usage:${keyHash}`,
+    revokedAgent: (keyHash: string) => `${p}revoked-agents:${keyHash}`,
+    rateLimit: (keyHash: string, window: string) => `${p}ratelimit:${keyHash}:${window}`,
+    nonce: (keyHash: string, nonce: string) => `${p}nonces:${keyHash}:${nonce}`,
+    revisions: (slug: string) => `${p}revisions:${slug}`,
+    revision: (slug: string, id: string) => `${p}revisions:${slug}:${id}`,
+    site: (hostname: string) => `${p}sites:${hostname}`,
+    auditDay: (day: string) => `${p}audit:${day}:`,
+    audit: (day: string, id: string) => `${p}audit:${day}:${id}`,
   };
 }
 
 /** Default keys (no prefix) — backwards compatible. */
 export const KEYS = kvKeys();
 
+/**
+ * The KV prefix a content type's entries live under: the site prefix plus
+ * `types:<type>`, or the site prefix itself for blog posts. Every post
+ * helper takes it in place of the site prefix, which gives each type its own
+ * posts, index, drafts, revisions, trash and redirects.
+ */
+export function contentTypePrefix(type: string | undefined, prefix?: string): string | undefined {
+  if (!type) return prefix;
+  return prefix ? `${prefix}:types:${type}` : `types:${type}`;
+}
+
 // --- Post Operations ---
 
 export async function getPost(
-  kv: KVNamespace,
+  kv: StorageAdapter,
   slug: string,
   prefix?: string
 ): Promise<AgentCMSPost | null> {
@@ -44,7 +96,7 @@ export async function getPost(
 }
 
 export async function putPost(
-  kv: KVNamespace,
+  kv: StorageAdapter,
   post: AgentCMSPost,
   prefix?: string
 ): Promise<void> {
@@ -52,70 +104,599 @@ export async function putPost(
   const key =
     post.status === "draft" ? keys.draft(post.slug) : keys.post(post.slug);
   await kv.put(key, JSON.stringify(post));
+  // A draft write never touches the live copy, so its schedule entry stands
+  if (post.status !== "draft") await syncSchedule(kv, post, prefix);
 }
 
 export async function deletePost(
-  kv: KVNamespace,
+  kv: StorageAdapter,
   slug: string,
   prefix?: string
 ): Promise<void> {
   const keys = prefix ? kvKeys(prefix) : KEYS;
   await kv.delete(keys.post(slug));
   await kv.delete(keys.draft(slug));
+  await unschedulePost(kv, slug, prefix);
+}
+
+// --- Draft Operations ---
+//
+// Drafts live under posts:draft:<slug>, separate from the live key, so a
+// draft can exist on its own (never published) or alongside a live post as a
+// pending revision of it.
+
+export async function getDraft(
+  kv: StorageAdapter,
+  slug: string,
+  prefix?: string
+): Promise<AgentCMSPost | null> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  return kv.get(keys.draft(slug), "json");
+}
+
+export async function deleteDraft(
+  kv: StorageAdapter,
+  slug: string,
+  prefix?: string
+): Promise<void> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  await kv.delete(keys.draft(slug));
+}
+
+/**
+ * Remove the live copy of a post (and its index entry) while leaving any
+ * draft in place.
+ */
+export async function unpublishPost(
+  kv: StorageAdapter,
+  post: AgentCMSPost,
+  prefix?: string
+): Promise<void> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  await kv.delete(keys.post(post.slug));
+  await updateIndex(kv, post, "remove", prefix);
+  await unschedulePost(kv, post.slug, prefix);
+}
+
+/**
+ * Move a draft to the live key and add it to the index. The storage layer has
+ * no transactions, so the writes are ordered to be safe to retry: the draft
+ * key is deleted last, and only once the live copy and index entry exist. A
+ * promote interrupted part-way leaves the draft in place and can simply be
+ * repeated.
+ */
+export async function promoteDraft(
+  kv: StorageAdapter,
+  post: AgentCMSPost,
+  prefix?: string
+): Promise<void> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  await kv.put(keys.post(post.slug), JSON.stringify(post));
+  await updateIndex(kv, post, "upsert", prefix);
+  await unschedulePost(kv, post.slug, prefix);
+  await kv.delete(keys.draft(post.slug));
+}
+
+// --- Trash Operations ---
+//
+// Deleted posts move to trash:<slug>. Entries are written with a TTL, so the
+// storage layer purges them once the retention period is over.
+
+export async function getTrashedPost(
+  kv: StorageAdapter,
+  slug: string,
+  prefix?: string
+): Promise<TrashedPost | null> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  return kv.get(keys.trash(slug), "json");
+}
+
+export async function putTrashedPost(
+  kv: StorageAdapter,
+  entry: TrashedPost,
+  prefix?: string
+): Promise<void> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  const ttl = Math.max(60, Math.ceil((Date.parse(entry.purgeAt) - Date.now()) / 1000));
+  await kv.put(keys.trash(entry.slug), JSON.stringify(entry), { expirationTtl: ttl });
+}
+
+export async function deleteTrashedPost(
+  kv: StorageAdapter,
+  slug: string,
+  prefix?: string
+): Promise<void> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  await kv.delete(keys.trash(slug));
+}
+
+// --- Redirect Operations ---
+//
+// One key per source slug, so serving a request costs a single read.
+
+export async function getRedirect(
+  kv: StorageAdapter,
+  from: string,
+  prefix?: string
+): Promise<PostRedirect | null> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  return kv.get(keys.redirect(from), "json");
+}
+
+export async function putRedirect(
+  kv: StorageAdapter,
+  redirect: PostRedirect,
+  prefix?: string
+): Promise<void> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  await kv.put(keys.redirect(redirect.from), JSON.stringify(redirect));
+}
+
+export async function deleteRedirect(
+  kv: StorageAdapter,
+  from: string,
+  prefix?: string
+): Promise<void> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  await kv.delete(keys.redirect(from));
+}
+
+/**
+ * Resolve a redirect target to a URL: slugs live under the blog base path,
+ * paths and absolute URLs are used as they are.
+ */
+export function redirectLocation(to: string, basePath: string): string {
+  if (to.startsWith("/") || /^https?:\/\//.test(to)) return to;
+  return `${basePath.replace(/\/$/, "")}/${to}`;
+}
+
+export async function listRedirects(
+  kv: StorageAdapter,
+  prefix?: string
+): Promise<PostRedirect[]> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  const names = await listAllKeys(kv, keys.redirect(""));
+  const redirects = await Promise.all(
+    names.map((name) => kv.get<PostRedirect>(name, "json"))
+  );
+  return redirects
+    .filter((r): r is PostRedirect => r !== null)
+    .sort((a, b) => a.from.localeCompare(b.from));
+}
+
+/**
+ * Point the redirects that lead to `from` at `to` instead, for when `from`
+ * itself moves, so a redirect never leads to another redirect.
+ */
+export async function repointRedirects(
+  kv: StorageAdapter,
+  from: string,
+  to: string,
+  prefix?: string
+): Promise<void> {
+  for (const redirect of await listRedirects(kv, prefix)) {
+    if (redirect.to === from) await putRedirect(kv, { ...redirect, to }, prefix);
+  }
+}
+
+/**
+ * Slugs that redirect elsewhere, read from the key names alone so callers
+ * that only need to know what moved don't fetch every redirect.
+ */
+export async function listRedirectSlugs(
+  kv: StorageAdapter,
+  prefix?: string
+): Promise<string[]> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  const redirectPrefix = keys.redirect("");
+  const names = await listAllKeys(kv, redirectPrefix);
+  return names.map((name) => name.slice(redirectPrefix.length));
+}
+
+// --- Site Registry ---
+//
+// One unprefixed key per hostname, read with KEYS whatever the site's own
+// prefix, so a single deployment can find every site in the namespace.
+
+/** Lower-case a Host header value and drop its port and trailing dot. */
+export function normalizeHostname(host: string): string {
+  return host.trim().toLowerCase().replace(/:\d+$/, "").replace(/\.$/, "");
+}
+
+export async function getSiteByHost(
+  kv: StorageAdapter,
+  host: string
+): Promise<SiteRegistryEntry | null> {
+  return kv.get(KEYS.site(normalizeHostname(host)), "json");
+}
+
+export async function putSite(
+  kv: StorageAdapter,
+  site: SiteRegistryEntry
+): Promise<void> {
+  const hostname = normalizeHostname(site.hostname);
+  await kv.put(KEYS.site(hostname), JSON.stringify({ ...site, hostname }));
+}
+
+export async function deleteSite(kv: StorageAdapter, host: string): Promise<void> {
+  await kv.delete(KEYS.site(normalizeHostname(host)));
+}
+
+export async function listSites(kv: StorageAdapter): Promise<SiteRegistryEntry[]> {
+  const names = await listAllKeys(kv, KEYS.site(""));
+  const sites = await Promise.all(
+    names.map((name) => kv.get<SiteRegistryEntry>(name, "json"))
+  );
+  return sites
+    .filter((s): s is SiteRegistryEntry => s !== null)
+    .sort((a, b) => a.hostname.localeCompare(b.hostname));
+}
+
+// --- Schedule Operations ---
+//
+// Scheduled posts are stored under their live key but kept out of the index
+// until they are due. schedule:posts lists them, soonest first, so the cron
+// handler can find due posts without scanning every post key. putPost and
+// deletePost keep it in step with the posts themselves.
+
+export async function getSchedule(
+  kv: StorageAdapter,
+  prefix?: string
+): Promise<ScheduledPostEntry[]> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  return (await kv.get<ScheduledPostEntry[]>(keys.schedule, "json")) || [];
+}
+
+async function writeSchedule(
+  kv: StorageAdapter,
+  entries: ScheduledPostEntry[],
+  prefix?: string
+): Promise<void> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  entries.sort((a, b) => a.scheduledFor.localeCompare(b.scheduledFor));
+  await kv.put(keys.schedule, JSON.stringify(entries));
+}
+
+/**
+ * Add, move or drop a post's schedule entry to match its status. Only writes
+ * when the entry actually changes.
+ */
+export async function syncSchedule(
+  kv: StorageAdapter,
+  post: AgentCMSPost,
+  prefix?: string
+): Promise<void> {
+  const schedule = await getSchedule(kv, prefix);
+  const current = schedule.find((e) => e.slug === post.slug);
+  const wanted: ScheduledPostEntry | null =
+    post.status === "scheduled" && post.scheduledFor
+      ? {
+          slug: post.slug,
+          title: post.title,
+          author: post.author,
+          scheduledFor: post.scheduledFor,
+        }
+      : null;
+
+  if (!current && !wanted) return;
+  if (current && wanted && JSON.stringify(current) === JSON.stringify(wanted)) return;
+
+  const entries = schedule.filter((e) => e.slug !== post.slug);
+  if (wanted) entries.push(wanted);
+  await writeSchedule(kv, entries, prefix);
+}
+
+export async function unschedulePost(
+  kv: StorageAdapter,
+  slug: string,
+  prefix?: string
+): Promise<void> {
+  const schedule = await getSchedule(kv, prefix);
+  if (!schedule.some((e) => e.slug === slug)) return;
+  await writeSchedule(kv, schedule.filter((e) => e.slug !== slug), prefix);
 }
 
 // --- Index Operations ---
+//
+// The index is sharded: posts:index holds a PostIndexManifest and each
+// posts:index:shard:<n> holds the entries whose slug hashes to n. Readers
+// merge every shard; writers rewrite only the shard a slug belongs to. A
+// legacy single-blob posts:index is still read, and is converted to shards on
+// the next write.
+
+/** Shards created for a new or migrated index. */
+export const DEFAULT_INDEX_SHARDS = 4;
+
+/** Entries per shard before the index doubles its shard count. */
+export const INDEX_SHARD_CAPACITY = 1000;
+
+/** FNV-1a hash of the slug, modulo the shard count. */
+export function indexShardFor(slug: string, shardCount: number): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < slug.length; i++) {
+    hash ^= slug.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % shardCount;
+}
+
+export function indexEntryFromPost(post: AgentCMSPost): PostIndexEntry {
+  return {
+    slug: post.slug,
+    title: post.title,
+    description: post.description,
+    publishedAt: post.publishedAt,
+    tags: post.tags,
+    category: post.category,
+    author: post.author,
+    authorType: post.authorType,
+    featuredImage: post.featuredImage,
+    featured: post.featured,
+    noindex: post.noindex,
+    readingTime: post.readingTime,
+  };
+}
 
-export async function getIndex(kv: KVNamespace, prefix?: string): Promise<PostIndex> {
+function sortNewestFirst(entries: PostIndexEntry[]): PostIndexEntry[] {
+  return entries.sort(
+    (a, b) =>
+      new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime()
+  );
+}
+
+function isManifest(value: unknown): value is PostIndexManifest {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as PostIndexManifest).shardCount === "number"
+  );
+}
+
+/**
+ * Split index entries into a manifest plus shards, ready to be written as
+ * individual keys. The shard count grows until every shard fits within
+ * INDEX_SHARD_CAPACITY.
+ */
+export function buildIndexShards(
+  entries: PostIndexEntry[],
+  minShards = DEFAULT_INDEX_SHARDS
+): { manifest: PostIndexManifest; shards: PostIndexShard[] } {
+  const lastUpdated = new Date().toISOString();
+  let shardCount = Math.max(1, minShards);
+
+  for (;;) {
+    const shards: PostIndexShard[] = Array.from({ length: shardCount }, () => ({
+      posts: [],
+      lastUpdated,
+    }));
+    for (const entry of entries) {
+      shards[indexShardFor(entry.slug, shardCount)].posts.push(entry);
+    }
+    if (shards.every((shard) => shard.posts.length <= INDEX_SHARD_CAPACITY)) {
+      for (const shard of shards) sortNewestFirst(shard.posts);
+      return { manifest: { version: 2, shardCount, lastUpdated }, shards };
+    }
+    shardCount *= 2;
+  }
+}
+
+/**
+ * Replace the whole index with the given entries.
+ */
+export async function writeIndex(
+  kv: StorageAdapter,
+  entries: PostIndexEntry[],
+  prefix?: string
+): Promise<void> {
   const keys = prefix ? kvKeys(prefix) : KEYS;
-  const index = await kv.get<PostIndex>(keys.index, "json");
-  return index || { posts: [], totalCount: 0, lastUpdated: "" };
+  const previous = await kv.get<PostIndexManifest | PostIndex>(keys.index, "json");
+  const { manifest, shards } = buildIndexShards(entries);
+
+  await Promise.all(
+    shards.map((shard, n) => kv.put(keys.indexShard(n), JSON.stringify(shard)))
+  );
+  await kv.put(keys.index, JSON.stringify(manifest));
+
+  // Drop shards left over from a larger previous layout
+  if (isManifest(previous)) {
+    for (let n = manifest.shardCount; n < previous.shardCount; n++) {
+      await kv.delete(keys.indexShard(n));
+    }
+  }
+
+  await writeFacetIndexes(kv, entries, prefix);
+}
+
+export async function getIndex(kv: StorageAdapter, prefix?: string): Promise<PostIndex> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  const stored = await kv.get<PostIndexManifest | PostIndex>(keys.index, "json");
+  if (!stored) return { posts: [], totalCount: 0, lastUpdated: "" };
+
+  // Legacy single-blob index
+  if (!isManifest(stored)) return stored;
+
+  const shards = await Promise.all(
+    Array.from({ length: stored.shardCount }, (_, n) =>
+      kv.get<PostIndexShard>(keys.indexShard(n), "json")
+    )
+  );
+  const posts = sortNewestFirst(shards.flatMap((shard) => shard?.posts ?? []));
+  const lastUpdated = shards.reduce(
+    (latest, shard) =>
+      shard && shard.lastUpdated > latest ? shard.lastUpdated : latest,
+    stored.lastUpdated
+  );
+
+  return { posts, totalCount: posts.length, lastUpdated };
 }
 
 export async function updateIndex(
-  kv: KVNamespace,
+  kv: StorageAdapter,
   post: AgentCMSPost,
   action: "upsert" | "remove" = "upsert",
   prefix?: string
 ): Promise<void> {
   const keys = prefix ? kvKeys(prefix) : KEYS;
-  const index = await getIndex(kv, prefix);
+  const stored = await kv.get<PostIndexManifest | PostIndex>(keys.index, "json");
+  const include = action === "upsert" && post.status === "published";
+
+  // No index yet, or a legacy blob: write the sharded layout in full
+  if (!isManifest(stored)) {
+    const entries = (stored?.posts ?? []).filter((p) => p.slug !== post.slug);
+    if (include) entries.push(indexEntryFromPost(post));
+    await writeIndex(kv, entries, prefix);
+    return;
+  }
+
+  const n = indexShardFor(post.slug, stored.shardCount);
+  const shard = (await kv.get<PostIndexShard>(keys.indexShard(n), "json")) || {
+    posts: [],
+    lastUpdated: "",
+  };
 
   // Remove existing entry
-  index.posts = index.posts.filter((p) => p.slug !== post.slug);
-
-  if (action === "upsert" && post.status === "published") {
-    const entry: PostIndexEntry = {
-      slug: post.slug,
-      title: post.title,
-      description: post.description,
-      publishedAt: post.publishedAt,
-      tags: post.tags,
-      category: post.category,
-      author: post.author,
-      authorType: post.authorType,
-      featuredImage: post.featuredImage,
-      featured: post.featured,
-    };
-    index.posts.unshift(entry);
-  }
-
-  // Sort newest first
-  index.posts.sort(
-    (a, b) =>
-      new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime()
-  );
+  const previous = shard.posts.find((p) => p.slug === post.slug);
+  const next = include ? indexEntryFromPost(post) : undefined;
+  shard.posts = shard.posts.filter((p) => p.slug !== post.slug);
+  if (next) shard.posts.push(next);
 
-  index.totalCount = index.posts.length;
-  index.lastUpdated = new Date().toISOString();
+  // Shard outgrew its capacity: re-split everything across more shards
+  if (shard.posts.length > INDEX_SHARD_CAPACITY) {
+    const index = await getIndex(kv, prefix);
+    const others = index.posts.filter(
+      (p) => indexShardFor(p.slug, stored.shardCount) !== n
+    );
+    await writeIndex(kv, [...others, ...shard.posts], prefix);
+    return;
+  }
 
-  await kv.put(keys.index, JSON.stringify(index));
+  sortNewestFirst(shard.posts);
+  shard.lastUpdated = new Date().toISOString();
+  await kv.put(keys.indexShard(n), JSON.stringify(shard));
+  await updateFacetIndexes(kv, previous, next, prefix);
+}
+
+// --- Secondary Indexes ---
+//
+// index:<facet>:<value> holds the entries of every published post with that
+// tag, category or author, so a filtered listing reads one key instead of the
+// whole index. index:counts holds the post count per value. writeIndex
+// rebuilds them all; updateIndex rewrites only the values a post gained,
+// kept or lost. An index written before they existed has no counts key, and
+// readers fall back to scanning it until the next write builds them. Like
+// the shards, two writers touching the same value can race; a reindex
+// rebuilds them from the posts.
+
+const FACETS: PostIndexFacet[] = ["tag", "category", "author"];
+
+function facetValues(entry: PostIndexEntry | undefined, facet: PostIndexFacet): string[] {
+  if (!entry) return [];
+  if (facet === "tag") return entry.tags;
+  if (facet === "category") return entry.category ? [entry.category] : [];
+  return entry.author ? [entry.author] : [];
+}
+
+export async function getFacetCounts(
+  kv: StorageAdapter,
+  prefix?: string
+): Promise<PostFacetCounts | null> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  return kv.get<PostFacetCounts>(keys.facetCounts, "json");
+}
+
+/**
+ * Index entries for one tag, category or author, newest first. Null when
+ * the secondary indexes have not been built yet.
+ */
+export async function getFacetIndex(
+  kv: StorageAdapter,
+  facet: PostIndexFacet,
+  value: string,
+  prefix?: string
+): Promise<PostIndexEntry[] | null> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  const [counts, stored] = await Promise.all([
+    getFacetCounts(kv, prefix),
+    kv.get<PostFacetIndex>(keys.facetIndex(facet, value), "json"),
+  ]);
+  if (!counts) return null;
+  return stored?.posts ?? [];
+}
+
+async function writeFacetIndexes(
+  kv: StorageAdapter,
+  entries: PostIndexEntry[],
+  prefix?: string
+): Promise<void> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  const previous = await getFacetCounts(kv, prefix);
+  const lastUpdated = new Date().toISOString();
+  const counts: PostFacetCounts = { tag: {}, category: {}, author: {}, lastUpdated };
+
+  for (const facet of FACETS) {
+    const groups = new Map<string, PostIndexEntry[]>();
+    for (const entry of entries) {
+      for (const value of new Set(facetValues(entry, facet))) {
+        groups.set(value, [...(groups.get(value) ?? []), entry]);
+      }
+    }
+    for (const [value, posts] of groups) {
+      counts[facet][value] = posts.length;
+      const index: PostFacetIndex = { posts: sortNewestFirst(posts), lastUpdated };
+      await kv.put(keys.facetIndex(facet, value), JSON.stringify(index));
+    }
+    for (const value of Object.keys(previous?.[facet] ?? {})) {
+      if (!groups.has(value)) await kv.delete(keys.facetIndex(facet, value));
+    }
+  }
+
+  await kv.put(keys.facetCounts, JSON.stringify(counts));
+}
+
+async function updateFacetIndexes(
+  kv: StorageAdapter,
+  previous: PostIndexEntry | undefined,
+  next: PostIndexEntry | undefined,
+  prefix?: string
+): Promise<void> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  const counts = await getFacetCounts(kv, prefix);
+  if (!counts) {
+    // Built lazily for indexes that predate them
+    await writeFacetIndexes(kv, (await getIndex(kv, prefix)).posts, prefix);
+    return;
+  }
+
+  const slug = next?.slug ?? previous?.slug;
+  if (!slug) return;
+
+  const lastUpdated = new Date().toISOString();
+  for (const facet of FACETS) {
+    const touched = new Set([...facetValues(previous, facet), ...facetValues(next, facet)]);
+    for (const value of touched) {
+      const key = keys.facetIndex(facet, value);
+      const stored = await kv.get<PostFacetIndex>(key, "json");
+      const posts = (stored?.posts ?? []).filter((p) => p.slug !== slug);
+      if (next && facetValues(next, facet).includes(value)) posts.push(next);
+
+      if (posts.length === 0) {
+        await kv.delete(key);
+        delete counts[facet][value];
+      } else {
+        await kv.put(key, JSON.stringify({ posts: sortNewestFirst(posts), lastUpdated }));
+        counts[facet][value] = posts.length;
+      }
+    }
+  }
+
+  counts.lastUpdated = lastUpdated;
+  await kv.put(keys.facetCounts, JSON.stringify(counts));
 }
 
 // --- Config ---
 
 export async function getConfig(
-  kv: KVNamespace,
+  kv: StorageAdapter,
   prefix?: string
 ): Promise<AgentCMSSiteConfig | null> {
   const keys = prefix ? kvKeys(prefix) : KEYS;
@@ -123,7 +704,7 @@ export async function getConfig(
 }
 
 export async function putConfig(
-  kv: KVNamespace,
+  kv: StorageAdapter,
   config: AgentCMSSiteConfig,
   prefix?: string
 ): Promise<void> {
@@ -133,53 +714,379 @@ export async function putConfig(
 
 // --- Auth ---
 
-export async function hashApiKey(key: string): Promise<string> {
+/** hashVersion of records hashed with a pepper. Unset or 1 is a plain SHA-256. */
+export const PEPPERED_HASH_VERSION = 2;
+
+/**
+ * Hash a key for storage. With a pepper (AGENTCMS_KEY_PEPPER) this is
+ * HMAC-SHA256 keyed by the pepper, so guesses cannot be checked against
+ * stored hashes without it; without one it is the legacy plain SHA-256.
+ */
+export async function hashApiKey(key: string, pepper?: string): Promise<string> {
   const encoder = new TextEncoder();
   const data = encoder.encode(key);
-  const hash = await crypto.subtle.digest("SHA-256", data);
+  let hash: ArrayBuffer;
+  if (pepper) {
+    const hmacKey = await crypto.subtle.importKey(
+      "raw",
+      encoder.encode(pepper),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"]
+    );
+    hash = await crypto.subtle.sign("HMAC", hmacKey, data);
+  } else {
+    hash = await crypto.subtle.digest("SHA-256", data);
+  }
   return Array.from(new Uint8Array(hash))
     .map((b) => b.toString(16).padStart(2, "0"))
     .join("");
 }
 
+/** Why a request's key was refused; returned to clients as `code`. */
+export type ApiKeyErrorCode =
+  | "missing_key"
+  | "invalid_key"
+  | "key_expired"
+  | "key_not_yet_valid"
+  | "ip_not_allowed"
+  | "invalid_signature"
+  | "stale_timestamp"
+  | "replayed_nonce"
+  | "invalid_token";
+
+export type ApiKeyCheck =
+  | { ok: true; record: AgentKeyRecord }
+  | { ok: false; code: ApiKeyErrorCode };
+
+export interface ApiKeyCheckOptions {
+  /** Client address (CF-Connecting-IP); a key with allowedIps refuses requests without one. */
+  ip?: string | null;
+  /** What a signed request covers; signed requests are refused without it. */
+  request?: SignedRequestParts;
+  /** AGENTCMS_KEY_PEPPER; plain-hash records are upgraded when it is set. */
+  pepper?: string;
+}
+
+/**
+ * Verify a signed Authorization header (see utils/signing.ts): a fresh
+ * timestamp, a signature made with the key's signing secret, and a nonce not
+ * seen in the skew window. Nonces are remembered in KV, which is eventually
+ * consistent, so replays landing within the same second on different edges
+ * can slip through.
+ */
+async function checkSignedRequest(
+  kv: StorageAdapter,
+  header: SignatureHeader,
+  prefix: string | undefined,
+  parts: SignedRequestParts | undefined
+): Promise<ApiKeyCheck> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  if (Math.abs(Date.now() / 1000 - header.timestamp) > SIGNATURE_MAX_SKEW_SECONDS) {
+    return { ok: false, code: "stale_timestamp" };
+  }
+
+  const record = await getAgentKey(kv, header.keyId, prefix);
+  if (!record) return { ok: false, code: "invalid_key" };
+  if (!record.signingSecret || !parts || !(await verifySignature(record.signingSecret, header, parts))) {
+    return { ok: false, code: "invalid_signature" };
+  }
+
+  const nonceKey = keys.nonce(header.keyId, header.nonce);
+  if ((await kv.get(nonceKey)) !== null) return { ok: false, code: "replayed_nonce" };
+  await kv.put(nonceKey, "1", { expirationTtl: SIGNATURE_MAX_SKEW_SECONDS * 2 });
+
+  return { ok: true, record };
+}
+
+/**
+ * Verify a JWT against the site config's JWKS and map it to a principal.
+ * Without a jwt config the token is just an unknown key.
+ */
+async function checkJwt(
+  kv: StorageAdapter,
+  token: string,
+  prefix: string | undefined
+): Promise<ApiKeyCheck> {
+  const config = (await getConfig(kv, prefix)) || globalThis.__AGENTCMS_CONFIG__?.site;
+  if (!config?.jwt) return { ok: false, code: "invalid_key" };
+  const record = await jwtPrincipal(token, config.jwt);
+  return record ? { ok: true, record } : { ok: false, code: "invalid_token" };
+}
+
+/**
+ * Find the record for a Bearer key. With a pepper, the peppered hash is tried
+ * first, then the plain hash of records stored before the pepper was set;
+ * `legacy` marks the latter for upgrading. Keys with a signing secret are
+ * left where they are, since their keyHash is the keyId clients sign with;
+ * rotating them moves them to the new format.
+ */
+async function findBearerKey(
+  kv: StorageAdapter,
+  apiKey: string,
+  prefix: string | undefined,
+  pepper: string | undefined
+): Promise<{ record: AgentKeyRecord; legacy: boolean } | null> {
+  if (pepper) {
+    const record = await getAgentKey(kv, await hashApiKey(apiKey, pepper), prefix);
+    if (record) return { record, legacy: false };
+  }
+  const record = await getAgentKey(kv, await hashApiKey(apiKey), prefix);
+  if (!record || record.hashVersion === PEPPERED_HASH_VERSION) return null;
+  return { record, legacy: Boolean(pepper) && !record.signingSecret };
+}
+
+/**
+ * Move a plain-hash record to its peppered hash. The new record is written
+ * before the old one is deleted, so a failure in between leaves a key that
+ * still works. Returns the record as now stored.
+ */
+async function upgradeKeyHash(
+  kv: StorageAdapter,
+  record: AgentKeyRecord,
+  apiKey: string,
+  pepper: string,
+  prefix: string | undefined
+): Promise<AgentKeyRecord | null> {
+  const upgraded: AgentKeyRecord = {
+    ...record,
+    keyHash: await hashApiKey(apiKey, pepper),
+    hashVersion: PEPPERED_HASH_VERSION,
+  };
+  await putAgentKey(kv, upgraded, prefix);
+  await deleteAgentKey(kv, record.keyHash, prefix);
+  // A revocation of the old hash that raced the move carries over to the new one
+  if (await isAgentKeyRevoked(kv, record.keyHash, prefix)) {
+    await revokeAgentKey(kv, upgraded.keyHash, prefix);
+    return null;
+  }
+  return upgraded;
+}
+
+/**
+ * Authenticate a Bearer key, a JWT or a signed request, then check the key's
+ * revocation, validity window and IP allowlist. Last use is recorded under
+ * its own key, so authenticating never rewrites the key record; JWT
+ * principals are not stored, so their last use is not tracked. A plain-hash
+ * key that passes every check is moved to its peppered hash when
+ * options.pepper is set.
+ */
+export async function checkApiKey(
+  kv: StorageAdapter,
+  authHeader: string | null,
+  prefix?: string,
+  options: ApiKeyCheckOptions = {}
+): Promise<ApiKeyCheck> {
+  let record: AgentKeyRecord | null;
+  let stored = true;
+  let legacy = false;
+  let bearer = "";
+  const signed = parseSignatureHeader(authHeader);
+  if (signed) {
+    const check = await checkSignedRequest(kv, signed, prefix, options.request);
+    if (!check.ok) return check;
+    record = check.record;
+  } else if (authHeader?.startsWith(`${SIGNATURE_SCHEME} `)) {
+    return { ok: false, code: "invalid_signature" };
+  } else if (authHeader?.startsWith("Bearer ") && looksLikeJwt(authHeader.slice(7))) {
+    const check = await checkJwt(kv, authHeader.slice(7), prefix);
+    if (!check.ok) return check;
+    record = check.record;
+    stored = false;
+  } else if (authHeader?.startsWith("Bearer ")) {
+    bearer = authHeader.slice(7);
+    const found = await findBearerKey(kv, bearer, prefix, options.pepper);
+    if (!found) return { ok: false, code: "invalid_key" };
+    ({ record, legacy } = found);
+  } else {
+    return { ok: false, code: "missing_key" };
+  }
+
+  if (stored && (await isAgentKeyRevoked(kv, record.keyHash, prefix))) {
+    return { ok: false, code: "invalid_key" };
+  }
+
+  const now = Date.now();
+  if (record.expiresAt && Date.parse(record.expiresAt) <= now) {
+    return { ok: false, code: "key_expired" };
+  }
+  if (record.notBefore && Date.parse(record.notBefore) > now) {
+    return { ok: false, code: "key_not_yet_valid" };
+  }
+  if (record.allowedIps?.length && !(options.ip && ipInRanges(options.ip, record.allowedIps))) {
+    return { ok: false, code: "ip_not_allowed" };
+  }
+
+  if (stored) {
+    if (legacy && options.pepper) {
+      // Awaited so this request is already metered under the new keyHash
+      try {
+        const upgraded = await upgradeKeyHash(kv, record, bearer, options.pepper, prefix);
+        if (!upgraded) return { ok: false, code: "invalid_key" };
+        record = upgraded;
+      } catch {
+        // The key keeps working under its old hash; retried on the next use
+      }
+    }
+    // Update last used (fire and forget)
+    recordKeyUse(kv, record, now, prefix).catch(() => {});
+  }
+
+  return { ok: true, record };
+}
+
+/** checkApiKey, for callers that only need the record or nothing. */
 export async function validateApiKey(
-  kv: KVNamespace,
+  kv: StorageAdapter,
   authHeader: string | null,
+  prefix?: string,
+  options: ApiKeyCheckOptions = {}
+): Promise<AgentKeyRecord | null> {
+  const check = await checkApiKey(kv, authHeader, prefix, options);
+  return check.ok ? check.record : null;
+}
+
+/** How long an expired key record is kept before KV drops it. */
+const EXPIRED_KEY_RETENTION_SECONDS = 7 * 86_400;
+
+export async function getAgentKey(
+  kv: StorageAdapter,
+  keyHash: string,
   prefix?: string
 ): Promise<AgentKeyRecord | null> {
-  if (!authHeader?.startsWith("Bearer ")) return null;
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  return kv.get<AgentKeyRecord>(keys.agent(keyHash), "json");
+}
+
+/** KV expiration for a key's entries: a week past its expiresAt, if any. */
+function agentKeyExpiration(record: AgentKeyRecord): { expirationTtl: number } | undefined {
+  if (!record.expiresAt) return undefined;
+  return {
+    // KV rejects TTLs under 60 seconds
+    expirationTtl: Math.max(
+      60,
+      Math.ceil((Date.parse(record.expiresAt) - Date.now()) / 1000) +
+        EXPIRED_KEY_RETENTION_SECONDS
+    ),
+  };
+}
+
+/**
+ * Store a key record. A record with expiresAt is written with an expiration
+ * a week past it, so expired keys clean themselves up but are reported as
+ * expired rather than unknown in the meantime.
+ */
+export async function putAgentKey(
+  kv: StorageAdapter,
+  record: AgentKeyRecord,
+  prefix?: string
+): Promise<void> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  await kv.put(keys.agent(record.keyHash), JSON.stringify(record), agentKeyExpiration(record));
+}
 
+/** Note a key's last use beside its record, which is left untouched. */
+async function recordKeyUse(
+  kv: StorageAdapter,
+  record: AgentKeyRecord,
+  now: number,
+  prefix?: string
+): Promise<void> {
   const keys = prefix ? kvKeys(prefix) : KEYS;
-  const apiKey = authHeader.slice(7);
-  const keyHash = await hashApiKey(apiKey);
-  const record = await kv.get<AgentKeyRecord>(keys.agent(keyHash), "json");
+  await kv.put(
+    keys.agentUsage(record.keyHash),
+    new Date(now).toISOString(),
+    agentKeyExpiration(record)
+  );
+}
 
-  if (record) {
-    // Update last used (fire and forget)
-    record.lastUsedAt = new Date().toISOString();
-    kv.put(keys.agent(keyHash), JSON.stringify(record)).catch(() => {});
-  }
+/**
+ * Revoke a key: a tombstone that checkApiKey refuses is written before the
+ * record is deleted, so a write of the record still in flight (a rotation,
+ * an edit) cannot bring the key back. Tombstones are kept for good.
+ */
+export async function revokeAgentKey(
+  kv: StorageAdapter,
+  keyHash: string,
+  prefix?: string
+): Promise<void> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  await kv.put(keys.revokedAgent(keyHash), JSON.stringify({ revokedAt: new Date().toISOString() }));
+  await deleteAgentKey(kv, keyHash, prefix);
+  await kv.delete(keys.agentUsage(keyHash));
+}
 
-  return record;
+export async function isAgentKeyRevoked(
+  kv: StorageAdapter,
+  keyHash: string,
+  prefix?: string
+): Promise<boolean> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  return (await kv.get(keys.revokedAgent(keyHash))) !== null;
+}
+
+export async function deleteAgentKey(
+  kv: StorageAdapter,
+  keyHash: string,
+  prefix?: string
+): Promise<void> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  await kv.delete(keys.agent(keyHash));
+}
+
+/**
+ * Every key record of a site, oldest first, with lastUsedAt filled in from
+ * the usage entries checkApiKey writes. Revoked records left behind by a
+ * racing write are skipped.
+ */
+export async function listAgentKeys(
+  kv: StorageAdapter,
+  prefix?: string
+): Promise<AgentKeyRecord[]> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  const names = await listAllKeys(kv, keys.agent(""));
+  const records = await Promise.all(
+    names.map(async (name): Promise<AgentKeyRecord | null> => {
+      const record = await kv.get<AgentKeyRecord>(name, "json");
+      if (!record || (await isAgentKeyRevoked(kv, record.keyHash, prefix))) return null;
+      const lastUsedAt = await kv.get(keys.agentUsage(record.keyHash));
+      return lastUsedAt ? { ...record, lastUsedAt } : record;
+    })
+  );
+  return records
+    .filter((r): r is AgentKeyRecord => r !== null)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
 }
 
 // --- Rate Limiting ---
 
+/**
+ * Fixed-window counter in KV, hourly by default. The get-then-put is not
+ * atomic, so concurrent requests can overshoot the limit; bind a Durable
+ * Object rate limiter (see utils/rate-limit.ts) where that matters.
+ */
 export async function checkRateLimit(
-  kv: KVNamespace,
+  kv: StorageAdapter,
   keyHash: string,
   limit: number,
-  prefix?: string
-): Promise<{ allowed: boolean; remaining: number }> {
+  prefix?: string,
+  window: "hour" | "day" = "hour"
+): Promise<{ allowed: boolean; remaining: number; resetAt: number }> {
   const keys = prefix ? kvKeys(prefix) : KEYS;
-  const hour = new Date().toISOString().slice(0, 13);
-  const key = keys.rateLimit(keyHash, hour);
+  const now = new Date().toISOString();
+  // "2030-01-01T10" for hourly windows, "2030-01-01" for daily ones
+  const period = window === "day" ? now.slice(0, 10) : now.slice(0, 13);
+  const key = keys.rateLimit(keyHash, period);
   const current = parseInt((await kv.get(key)) || "0");
+  const windowSeconds = window === "day" ? 86_400 : 3_600;
+  const resetAt =
+    Date.parse(window === "day" ? `${period}T00:00:00.000Z` : `${period}:00:00.000Z`) +
+    windowSeconds * 1000;
 
   if (current >= limit) {
-    return { allowed: false, remaining: 0 };
+    return { allowed: false, remaining: 0, resetAt };
   }
 
-  await kv.put(key, String(current + 1), { expirationTtl: 3600 });
-  return { allowed: true, remaining: limit - current - 1 };
+  await kv.put(key, String(current + 1), { expirationTtl: windowSeconds });
+  return { allowed: true, remaining: limit - current - 1, resetAt };
 }
@@ -0,0 +1,90 @@
+// ============================================================================
+// AgentCMS — Agent Key Policies
+// ============================================================================
+//
+// A key's policy narrows what its scope allows: which categories, tags and
+// slugs it may write, whether it may touch other keys' posts, how long its
+// content may be and which SEO flags it may change. Handlers check the post
+// as it would be stored against the post as it was.
+//
+// ============================================================================
+
+import type { AgentCMSPost, AgentKeyPolicy, AgentKeyRecord } from "../types.js";
+
+export interface PolicyViolation {
+  rule: keyof AgentKeyPolicy;
+  message: string;
+}
+
+function includesIgnoreCase(list: string[], value: string): boolean {
+  const lower = value.toLowerCase();
+  return list.some((item) => item.toLowerCase() === lower);
+}
+
+/**
+ * Check a write against the agent's policy. `post` is the post as it would be
+ * stored and `previous` the stored post, if any; for a delete both are the
+ * stored post. Tags are checked only where added and content length only
+ * where the content changed, so an agent can still edit a post an editor
+ * tagged or extended. Returns every violated rule, or [] when allowed.
+ */
+export function checkPostPolicy(
+  agent: AgentKeyRecord,
+  post: AgentCMSPost,
+  previous?: AgentCMSPost
+): PolicyViolation[] {
+  const policy = agent.policy;
+  if (!policy) return [];
+  const violations: PolicyViolation[] = [];
+
+  if (policy.editOthers === false && previous && previous.author !== agent.name) {
+    violations.push({ rule: "editOthers", message: `Post was written by ${previous.author}` });
+  }
+
+  if (policy.categories && !(post.category && includesIgnoreCase(policy.categories, post.category))) {
+    violations.push({
+      rule: "categories",
+      message: `Category must be one of: ${policy.categories.join(", ")}`,
+    });
+  }
+
+  if (policy.tags) {
+    const allowed = policy.tags;
+    const added = post.tags.filter((t) => !previous?.tags.includes(t));
+    const denied = added.filter((t) => !includesIgnoreCase(allowed, t));
+    if (denied.length > 0) {
+      violations.push({ rule: "tags", message: `Tags not allowed: ${denied.join(", ")}` });
+    }
+  }
+
+  if (policy.slugPrefixes && !policy.slugPrefixes.some((p) => post.slug.startsWith(p))) {
+    violations.push({
+      rule: "slugPrefixes",
+      message: `Slug must start with: ${policy.slugPrefixes.join(", ")}`,
+    });
+  }
+
+  if (
+    policy.maxContentLength !== undefined &&
+    post.content !== previous?.content &&
+    post.content.length > policy.maxContentLength
+  ) {
+    violations.push({
+      rule: "maxContentLength",
+      message: `Content is ${post.content.length} characters; the limit is ${policy.maxContentLength}`,
+    });
+  }
+
+  const flags = [
+    ["allowFeatured", "featured", post.featured ?? false, previous?.featured ?? false],
+    ["allowNoindex", "noindex", post.noindex ?? false, previous?.noindex ?? false],
+    ["allowCanonicalUrl", "canonicalUrl", post.canonicalUrl ?? null, previous?.canonicalUrl ?? null],
+  ] as const;
+  for (const [rule, field, value, before] of flags) {
+    if (policy[rule] === false && value !== before) {
+      violations.push({ rule, message: `May not change ${field}` });
+    }
+  }
+
+  return violations;
+}
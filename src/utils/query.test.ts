@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from "vitest";
+import { queryPosts } from "./query.js";
+import { KEYS, putPost, updateIndex } from "./kv.js";
+import { generateSitemapXml } from "./sitemap.js";
+import { memoryStorage } from "./storage.js";
+import type { AgentCMSPost } from "../types.js";
+
+function makePost(overrides: Partial<AgentCMSPost> = {}): AgentCMSPost {
+  return {
+    slug: "test-post",
+    title: "Test Post",
+    description: "A test post",
+    content: "# Test\n\nHello world.",
+    author: "TestAgent",
+    authorType: "agent",
+    tags: ["test"],
+    publishedAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:00:00.000Z",
+    status: "published",
+    readingTime: 4,
+    metadata: {},
+    ...overrides,
+  };
+}
+
+describe("queryPosts", () => {
+  it("answers summary listings from the index without reading posts", async () => {
+    const kv = memoryStorage();
+    for (const slug of ["a", "b"]) {
+      await putPost(kv, makePost({ slug }));
+      await updateIndex(kv, makePost({ slug }));
+    }
+    const get = vi.spyOn(kv, "get");
+
+    const result = await queryPosts(kv, { fields: "summary", limit: 1 });
+
+    expect(result).toMatchObject({ totalPosts: 2, totalPages: 2, currentPage: 1 });
+    expect(result.posts[0]).toMatchObject({ title: "Test Post", readingTime: 4 });
+    expect(result.posts[0]).not.toHaveProperty("content");
+    expect(get.mock.calls.map(([key]) => key)).not.toContain(KEYS.post(result.posts[0].slug));
+  });
+
+  it("keeps noindex in the index so the sitemap can drop the post", async () => {
+    const kv = memoryStorage();
+    await updateIndex(kv, makePost({ slug: "hidden", noindex: true }));
+    await updateIndex(kv, makePost({ slug: "shown" }));
+
+    const { posts } = await queryPosts(kv, { fields: "summary" });
+    const xml = generateSitemapXml("https://blog.test", posts);
+    expect(xml).toContain("/blog/shown");
+    expect(xml).not.toContain("/blog/hidden");
+  });
+});
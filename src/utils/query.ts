@@ -2,8 +2,8 @@
 // AgentCMS — Pure Query Functions (framework-agnostic)
 // ============================================================================
 //
-// These functions take a KVNamespace directly — no cloudflare:workers import,
-// no globalThis config. Used by both Astro data helpers and standalone handlers.
+// These functions take a StorageAdapter directly — no cloudflare:workers
+// import, no globalThis config. Used by both Astro data helpers and standalone handlers.
 //
 // ============================================================================
 
@@ -12,17 +12,31 @@ import type {
   GetPostsOptions,
   GetPostsResult,
   AgentCMSSiteConfig,
+  PostIndexEntry,
+  PostIndexFacet,
 } from "../types.js";
-import { getIndex, getPost, getConfig } from "./kv.js";
+import { getIndex, getPost, getConfig, getFacetIndex, getFacetCounts } from "./kv.js";
+import type { StorageAdapter } from "./storage.js";
 
 /**
- * Get paginated, filterable posts from KV.
+ * Get paginated, filterable posts from storage. With `fields: "summary"` the
+ * page comes straight from the index, without a read per post.
  */
 export async function queryPosts(
-  kv: KVNamespace,
+  kv: StorageAdapter,
+  options: GetPostsOptions & { fields: "summary" },
+  prefix?: string
+): Promise<GetPostsResult<PostIndexEntry>>;
+export async function queryPosts(
+  kv: StorageAdapter,
+  options?: GetPostsOptions,
+  prefix?: string
+): Promise<GetPostsResult>;
+export async function queryPosts(
+  kv: StorageAdapter,
   options: GetPostsOptions = {},
   prefix?: string
-): Promise<GetPostsResult> {
+): Promise<GetPostsResult<AgentCMSPost | PostIndexEntry>> {
   const {
     page = 1,
     limit = 12,
@@ -32,10 +46,20 @@ export async function queryPosts(
     featured,
     author,
     authorType,
+    fields = "full",
   } = options;
 
-  const index = await getIndex(kv, prefix);
-  let filtered = index.posts;
+  // A tag, category or author filter reads just that value's secondary index
+  const facet: [PostIndexFacet, string] | undefined = tag
+    ? ["tag", tag]
+    : category
+      ? ["category", category]
+      : author
+        ? ["author", author]
+        : undefined;
+  let filtered =
+    (facet && (await getFacetIndex(kv, facet[0], facet[1], prefix))) ||
+    (await getIndex(kv, prefix)).posts;
 
   // Apply filters
   if (status !== "all") {
@@ -62,6 +86,10 @@ export async function queryPosts(
   const offset = (page - 1) * limit;
   const pageEntries = filtered.slice(offset, offset + limit);
 
+  if (fields === "summary") {
+    return { posts: pageEntries, totalPages, totalPosts, currentPage: page };
+  }
+
   const posts = await Promise.all(
     pageEntries.map((entry) => getPost(kv, entry.slug, prefix))
   );
@@ -78,11 +106,18 @@ export async function queryPosts(
  * Get all unique tags with counts.
  */
 export async function queryTags(
-  kv: KVNamespace,
+  kv: StorageAdapter,
   prefix?: string
 ): Promise<Array<{ tag: string; count: number }>> {
-  const index = await getIndex(kv, prefix);
+  const counts = await getFacetCounts(kv, prefix);
+  if (counts) {
+    return Object.entries(counts.tag)
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count);
+  }
 
+  // Secondary indexes not built yet: count from the full index
+  const index = await getIndex(kv, prefix);
   const tagMap = new Map<string, number>();
   for (const post of index.posts) {
     for (const tag of post.tags) {
@@ -99,11 +134,18 @@ export async function queryTags(
  * Get all unique categories with counts.
  */
 export async function queryCategories(
-  kv: KVNamespace,
+  kv: StorageAdapter,
   prefix?: string
 ): Promise<Array<{ category: string; count: number }>> {
-  const index = await getIndex(kv, prefix);
+  const counts = await getFacetCounts(kv, prefix);
+  if (counts) {
+    return Object.entries(counts.category)
+      .map(([category, count]) => ({ category, count }))
+      .sort((a, b) => b.count - a.count);
+  }
 
+  // Secondary indexes not built yet: count from the full index
+  const index = await getIndex(kv, prefix);
   const catMap = new Map<string, number>();
   for (const post of index.posts) {
     if (post.category) {
@@ -117,10 +159,10 @@ export async function queryCategories(
 }
 
 /**
- * Get site configuration from KV.
+ * Get site configuration from storage.
  */
 export async function queryConfig(
-  kv: KVNamespace,
+  kv: StorageAdapter,
   prefix?: string
 ): Promise<AgentCMSSiteConfig | null> {
   return getConfig(kv, prefix);
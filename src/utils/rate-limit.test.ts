@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { AgentKeyRecord } from "../types.js";
+import {
+  AgentCMSRateLimiter,
+  checkQuota,
+  durableObjectRateLimiter,
+  kvRateLimiter,
+  memoryRateLimiterNamespace,
+  RATE_LIMIT_WINDOW_MS,
+  rateLimitHeaders,
+  resolveQuota,
+} from "./rate-limit.js";
+import { memoryStorage } from "./storage.js";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("durableObjectRateLimiter", () => {
+  it("never admits more than the limit under parallel requests", async () => {
+    const limiter = durableObjectRateLimiter(memoryRateLimiterNamespace());
+    const results = await Promise.all(
+      Array.from({ length: 20 }, () => limiter.check("key-a", 5))
+    );
+    expect(results.filter((r) => r.allowed)).toHaveLength(5);
+    expect(results.filter((r) => !r.allowed).every((r) => r.remaining === 0)).toBe(true);
+  });
+
+  it("keeps a separate window per key and prefix", async () => {
+    const namespace = memoryRateLimiterNamespace();
+    const a = durableObjectRateLimiter(namespace);
+    const b = durableObjectRateLimiter(namespace, "other-site");
+
+    expect((await a.check("key-a", 1)).allowed).toBe(true);
+    expect((await a.check("key-a", 1)).allowed).toBe(false);
+    expect((await a.check("key-b", 1)).allowed).toBe(true);
+    expect((await b.check("key-a", 1)).allowed).toBe(true);
+  });
+
+  it("slides the window instead of resetting on the hour", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2030-01-01T10:30:00.000Z"));
+    const limiter = durableObjectRateLimiter(memoryRateLimiterNamespace());
+
+    await limiter.check("key-a", 2);
+    vi.setSystemTime(new Date("2030-01-01T10:50:00.000Z"));
+    await limiter.check("key-a", 2);
+
+    // Past the top of the hour, the last hour's hits still weigh in
+    vi.setSystemTime(new Date("2030-01-01T11:10:00.000Z"));
+    expect(await limiter.check("key-a", 2)).toMatchObject({ allowed: true, remaining: 0 });
+    vi.setSystemTime(new Date("2030-01-01T11:20:00.000Z"));
+    const blocked = await limiter.check("key-a", 2);
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.resetAt).toBe(Date.parse("2030-01-01T11:30:00.000Z"));
+
+    // Once half of the last hour has slid out, one slot frees up
+    vi.setSystemTime(new Date("2030-01-01T11:31:00.000Z"));
+    expect(await limiter.check("key-a", 2)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it("keeps constant-size state for large limits", async () => {
+    const data = new Map<string, unknown>();
+    const limiter = new AgentCMSRateLimiter({
+      storage: {
+        get: async <T>(key: string) => data.get(key) as T | undefined,
+        put: async <T>(key: string, value: T) => {
+          data.set(key, value);
+        },
+      },
+      blockConcurrencyWhile: (callback) => callback(),
+    });
+    const check = () =>
+      limiter.fetch(
+        new Request("https://agentcms-rate-limiter/check", {
+          method: "POST",
+          body: JSON.stringify({ limit: 100_000, windowMs: RATE_LIMIT_WINDOW_MS }),
+        })
+      );
+
+    for (let i = 0; i < 50; i++) await check();
+    const result = await (await check()).json<{ remaining: number }>();
+
+    expect(result.remaining).toBe(100_000 - 51);
+    expect(JSON.stringify([...data.values()]).length).toBeLessThan(100);
+  });
+});
+
+describe("kvRateLimiter", () => {
+  it("counts in KV and reports the end of the hour as reset time", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2030-01-01T10:30:00.000Z"));
+    const limiter = kvRateLimiter(memoryStorage());
+
+    const result = await limiter.check("key-a", 3);
+    expect(result).toEqual({
+      allowed: true,
+      remaining: 2,
+      resetAt: Date.parse("2030-01-01T11:00:00.000Z"),
+    });
+  });
+});
+
+describe("quotas", () => {
+  const agent: AgentKeyRecord = {
+    name: "test-agent",
+    keyHash: "abc",
+    scope: "publish",
+    createdAt: "2030-01-01T00:00:00.000Z",
+    rateLimit: 10,
+    quotas: { upload: { perDay: 3 } },
+  };
+
+  it("resolves key overrides over scope overrides over defaults", () => {
+    const scopes = { publish: { upload: { perHour: 5, perDay: 50 } } };
+    expect(resolveQuota(agent, "publish", scopes)).toEqual({ perHour: 10 });
+    expect(resolveQuota(agent, "read", scopes)).toEqual({ perHour: 1000 });
+    expect(resolveQuota(agent, "upload", scopes)).toEqual({ perHour: 5, perDay: 3 });
+  });
+
+  it("refuses on the daily cap and reports when it resets", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2030-01-01T10:30:00.000Z"));
+    const limiter = kvRateLimiter(memoryStorage());
+
+    for (let i = 0; i < 3; i++) {
+      expect((await checkQuota(limiter, agent, "upload")).allowed).toBe(true);
+    }
+    const refused = await checkQuota(limiter, agent, "upload");
+    expect(refused).toMatchObject({ allowed: false, window: "day", limit: 3 });
+    expect(rateLimitHeaders(refused)).toEqual({
+      "RateLimit-Limit": "3",
+      "RateLimit-Remaining": "0",
+      "RateLimit-Reset": String(13.5 * 3600),
+      "Retry-After": String(13.5 * 3600),
+    });
+
+    // Publishing has its own bucket
+    expect(await checkQuota(limiter, agent, "publish")).toMatchObject({
+      allowed: true,
+      remaining: 9,
+      window: "hour",
+    });
+  });
+});
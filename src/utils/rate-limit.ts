@@ -0,0 +1,311 @@
+// ============================================================================
+// AgentCMS — Rate Limiting
+// ============================================================================
+//
+// Two implementations behind one RateLimiter interface:
+//
+//   kvRateLimiter(kv)                — fixed hourly counter in KV (default).
+//                                      Eventually consistent: parallel
+//                                      requests can overshoot the limit.
+//   durableObjectRateLimiter(ns)     — one AgentCMSRateLimiter Durable Object
+//                                      per key, sliding window counter, atomic.
+//
+// To use the Durable Object, bind it as AGENTCMS_RATE_LIMITER and export the
+// class from your Worker entry:
+//
+//   # wrangler.toml
+//   [[durable_objects.bindings]]
+//   name = "AGENTCMS_RATE_LIMITER"
+//   class_name = "AgentCMSRateLimiter"
+//
+//   [[migrations]]
+//   tag = "agentcms-rate-limiter"
+//   new_classes = ["AgentCMSRateLimiter"]
+//
+//   // worker entry
+//   export { AgentCMSRateLimiter } from "@agentcms/agentcms/handlers";
+//
+// ============================================================================
+
+import type {
+  AgentKeyRecord,
+  AgentKeyScope,
+  QuotaLimit,
+  RateLimitOperation,
+} from "../types.js";
+import { checkRateLimit } from "./kv.js";
+import type { StorageAdapter } from "./storage.js";
+
+export type RateLimitWindow = "hour" | "day";
+
+/** Length of the hourly rate-limit window. */
+export const RATE_LIMIT_WINDOW_MS = 3_600_000;
+
+const WINDOW_MS: Record<RateLimitWindow, number> = {
+  hour: RATE_LIMIT_WINDOW_MS,
+  day: 86_400_000,
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Epoch milliseconds at which the next request will be allowed again. */
+  resetAt: number;
+}
+
+export interface RateLimiter {
+  /** Count one request against `key` and report what is left in the window. */
+  check(key: string, limit: number, window?: RateLimitWindow): Promise<RateLimitResult>;
+}
+
+/**
+ * The parts of a DurableObjectNamespace the limiter uses, so a local stand-in
+ * (see memoryRateLimiterNamespace) can take its place in tests.
+ */
+export interface RateLimiterNamespace {
+  idFromName(name: string): unknown;
+  get(id: unknown): { fetch(request: Request): Promise<Response> };
+}
+
+/** The parts of DurableObjectState the limiter object uses. */
+export interface RateLimiterState {
+  storage: {
+    get<T>(key: string): Promise<T | undefined>;
+    put<T>(key: string, value: T): Promise<void>;
+  };
+  blockConcurrencyWhile<T>(callback: () => Promise<T>): Promise<T>;
+}
+
+// --- KV ---
+
+export function kvRateLimiter(kv: StorageAdapter, prefix?: string): RateLimiter {
+  return {
+    check: (key, limit, window = "hour") => checkRateLimit(kv, key, limit, prefix, window),
+  };
+}
+
+// --- Durable Object ---
+
+export function durableObjectRateLimiter(
+  namespace: RateLimiterNamespace,
+  prefix?: string
+): RateLimiter {
+  return {
+    async check(key, limit, window = "hour") {
+      // One object per key and window, so each holds a single pair of counts
+      const name = `${prefix ? `${prefix}:` : ""}${key}${window === "hour" ? "" : `:${window}`}`;
+      const stub = namespace.get(namespace.idFromName(name));
+      const res = await stub.fetch(
+        new Request("https://agentcms-rate-limiter/check", {
+          method: "POST",
+          body: JSON.stringify({ limit, windowMs: WINDOW_MS[window] }),
+        })
+      );
+      if (!res.ok) {
+        throw new Error(`AgentCMS: rate limiter responded ${res.status}`);
+      }
+      return res.json<RateLimitResult>();
+    },
+  };
+}
+
+const COUNTS_KEY = "counts";
+
+/** Hits counted in the current fixed window and the one before it. */
+interface WindowCounts {
+  /** Epoch milliseconds at which the current window started. */
+  start: number;
+  current: number;
+  previous: number;
+}
+
+/**
+ * Durable Object holding one API key's request counts. A Durable Object
+ * handles one event at a time and the window is checked and updated without
+ * yielding, so concurrent requests can never both take the last slot.
+ */
+export class AgentCMSRateLimiter {
+  private counts: WindowCounts = { start: 0, current: 0, previous: 0 };
+
+  constructor(private readonly state: RateLimiterState, _env?: unknown) {
+    state.blockConcurrencyWhile(async () => {
+      this.counts = (await state.storage.get<WindowCounts>(COUNTS_KEY)) ?? this.counts;
+    });
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const { limit, windowMs } = await request.json<{ limit: number; windowMs: number }>();
+    const result = this.take(limit, windowMs, Date.now());
+    await this.state.storage.put(COUNTS_KEY, this.counts);
+    return Response.json(result);
+  }
+
+  /**
+   * Sliding window counter: the previous window's count is weighted by how
+   * much of it still overlaps the last windowMs. Constant state and work
+   * whatever the limit, unlike a log of every hit.
+   */
+  private take(limit: number, windowMs: number, now: number): RateLimitResult {
+    const start = now - (now % windowMs);
+    if (start !== this.counts.start) {
+      const previous = start - this.counts.start === windowMs ? this.counts.current : 0;
+      this.counts = { start, current: 0, previous };
+    }
+
+    const { current, previous } = this.counts;
+    const overlap = (windowMs - (now - start)) / windowMs;
+    const used = Math.floor(previous * overlap) + current;
+
+    if (used >= limit) {
+      // Capacity frees up once enough of the previous window has slid out;
+      // when this window alone is full, that happens during the next one
+      const resetAt =
+        current >= limit
+          ? start + windowMs + Math.ceil(windowMs * (1 - limit / current))
+          : start + Math.ceil(windowMs * (1 - (limit - current) / previous));
+      return { allowed: false, remaining: 0, resetAt };
+    }
+
+    this.counts.current += 1;
+    return { allowed: true, remaining: limit - used - 1, resetAt: start + windowMs };
+  }
+}
+
+// --- Local stand-in ---
+
+/**
+ * In-process stand-in for a Durable Object namespace binding: one
+ * AgentCMSRateLimiter per name, with Map-backed storage. For tests and local
+ * scripts, like memoryStorage.
+ */
+export function memoryRateLimiterNamespace(): RateLimiterNamespace {
+  const objects = new Map<string, { limiter: AgentCMSRateLimiter; ready: Promise<unknown> }>();
+
+  function create(): { limiter: AgentCMSRateLimiter; ready: Promise<unknown> } {
+    const data = new Map<string, unknown>();
+    let ready: Promise<unknown> = Promise.resolve();
+    const state: RateLimiterState = {
+      storage: {
+        get: async <T>(key: string) => data.get(key) as T | undefined,
+        put: async <T>(key: string, value: T) => {
+          data.set(key, structuredClone(value));
+        },
+      },
+      // Like the runtime, hold events until the constructor's load finishes
+      blockConcurrencyWhile<T>(callback: () => Promise<T>): Promise<T> {
+        const run = callback();
+        ready = run;
+        return run;
+      },
+    };
+    const limiter = new AgentCMSRateLimiter(state);
+    return { limiter, ready };
+  }
+
+  return {
+    idFromName: (name) => name,
+    get(id) {
+      const name = String(id);
+      let object = objects.get(name);
+      if (!object) {
+        object = create();
+        objects.set(name, object);
+      }
+      const { limiter, ready } = object;
+      return {
+        fetch: async (request) => {
+          await ready;
+          return limiter.fetch(request);
+        },
+      };
+    },
+  };
+}
+
+// --- Quotas ---
+//
+// Each operation has an hourly and an optional daily limit per key. The
+// effective limit is resolved field by field: the key's own `quotas`, then
+// the scope's entry in AGENTCMS_QUOTAS, then the built-in default, which is
+// the key's `rateLimit` per hour for writes and DEFAULT_READ_QUOTA for reads.
+
+export type ScopeQuotas = Partial<
+  Record<AgentKeyScope, Partial<Record<RateLimitOperation, QuotaLimit>>>
+>;
+
+export const DEFAULT_READ_QUOTA: QuotaLimit = { perHour: 1000 };
+
+export function resolveQuota(
+  agent: AgentKeyRecord,
+  operation: RateLimitOperation,
+  scopeQuotas: ScopeQuotas = {}
+): QuotaLimit {
+  const fallback = operation === "read" ? DEFAULT_READ_QUOTA : { perHour: agent.rateLimit };
+  return {
+    ...fallback,
+    ...scopeQuotas[agent.scope]?.[operation],
+    ...agent.quotas?.[operation],
+  };
+}
+
+/** The window that decided a quota check: the refusing one, or the tightest. */
+export interface QuotaStatus extends RateLimitResult {
+  limit: number;
+  window: RateLimitWindow;
+  operation: RateLimitOperation;
+}
+
+/**
+ * Count a request against every window of an operation's quota, hourly
+ * first. A request refused by the daily window has still used an hourly slot.
+ */
+export async function checkQuota(
+  limiter: RateLimiter,
+  agent: AgentKeyRecord,
+  operation: RateLimitOperation,
+  scopeQuotas?: ScopeQuotas
+): Promise<QuotaStatus> {
+  const quota = resolveQuota(agent, operation, scopeQuotas);
+  const windows: Array<[RateLimitWindow, number | undefined]> = [
+    ["hour", quota.perHour],
+    ["day", quota.perDay],
+  ];
+
+  let tightest: QuotaStatus | null = null;
+  for (const [window, limit] of windows) {
+    if (limit === undefined) continue;
+    const result = await limiter.check(`${agent.keyHash}:${operation}`, limit, window);
+    const status: QuotaStatus = { ...result, limit, window, operation };
+    if (!result.allowed) return status;
+    if (!tightest || status.remaining < tightest.remaining) tightest = status;
+  }
+
+  return (
+    tightest ?? {
+      allowed: true,
+      remaining: Number.MAX_SAFE_INTEGER,
+      resetAt: Date.now(),
+      limit: Number.MAX_SAFE_INTEGER,
+      window: "hour",
+      operation,
+    }
+  );
+}
+
+/**
+ * RateLimit-* and Retry-After headers for a quota check. Reset and
+ * Retry-After are in seconds; Retry-After is 0 while requests remain.
+ */
+export function rateLimitHeaders(
+  status: QuotaStatus,
+  now = Date.now()
+): Record<string, string> {
+  const reset = Math.max(0, Math.ceil((status.resetAt - now) / 1000));
+  const exhausted = !status.allowed || status.remaining === 0;
+  return {
+    "RateLimit-Limit": String(status.limit),
+    "RateLimit-Remaining": String(status.remaining),
+    "RateLimit-Reset": String(reset),
+    "Retry-After": String(exhausted ? reset : 0),
+  };
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { rebuildIndex, listPostSlugs } from "./reindex.js";
+import { KEYS, getIndex, updateIndex, putPost } from "./kv.js";
+import { memoryStorage } from "./storage.js";
+import type { AgentCMSPost } from "../types.js";
+
+function makePost(overrides: Partial<AgentCMSPost> = {}): AgentCMSPost {
+  return {
+    slug: "test-post",
+    title: "Test Post",
+    description: "A test post",
+    content: "# Test\n\nHello world.",
+    author: "TestAgent",
+    authorType: "agent",
+    tags: ["test"],
+    publishedAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:00:00.000Z",
+    status: "published",
+    metadata: {},
+    ...overrides,
+  };
+}
+
+describe("listPostSlugs", () => {
+  it("lists live posts only, skipping drafts and index keys", async () => {
+    const kv = memoryStorage();
+    await putPost(kv, makePost({ slug: "live" }));
+    await putPost(kv, makePost({ slug: "wip", status: "draft" }));
+    await updateIndex(kv, makePost({ slug: "live" }));
+
+    expect(await listPostSlugs(kv)).toEqual(["live"]);
+  });
+
+  it("respects the prefix", async () => {
+    const kv = memoryStorage();
+    await putPost(kv, makePost({ slug: "mine" }), "a");
+    await putPost(kv, makePost({ slug: "theirs" }), "b");
+    expect(await listPostSlugs(kv, "a")).toEqual(["mine"]);
+  });
+});
+
+describe("rebuildIndex", () => {
+  async function driftedStorage() {
+    const kv = memoryStorage();
+    // Indexed and stored, but the index has a stale title
+    await putPost(kv, makePost({ slug: "stale", title: "New Title" }));
+    await updateIndex(kv, makePost({ slug: "stale", title: "Old Title" }));
+    // Indexed but the post is gone
+    await updateIndex(kv, makePost({ slug: "ghost" }));
+    // Stored but never indexed (crash between putPost and updateIndex)
+    await putPost(kv, makePost({ slug: "lost" }));
+    return kv;
+  }
+
+  it("reports orphans, missing entries and mismatches", async () => {
+    const kv = await driftedStorage();
+    const report = await rebuildIndex(kv, { dryRun: true });
+
+    expect(report).toMatchObject({
+      scanned: 2,
+      indexed: 2,
+      orphans: ["ghost"],
+      missing: ["lost"],
+      mismatches: [{ slug: "stale", fields: ["title"] }],
+      dryRun: true,
+      repaired: false,
+    });
+  });
+
+  it("leaves the index untouched on dry run", async () => {
+    const kv = await driftedStorage();
+    await rebuildIndex(kv, { dryRun: true });
+    expect((await getIndex(kv)).posts.map((p) => p.slug).sort()).toEqual(["ghost", "stale"]);
+  });
+
+  it("writes the rebuilt index", async () => {
+    const kv = await driftedStorage();
+    await rebuildIndex(kv);
+
+    const index = await getIndex(kv);
+    expect(index.posts.map((p) => p.slug).sort()).toEqual(["lost", "stale"]);
+    expect(index.posts.find((p) => p.slug === "stale")?.title).toBe("New Title");
+
+    const clean = await rebuildIndex(kv, { dryRun: true });
+    expect(clean).toMatchObject({ orphans: [], missing: [], mismatches: [] });
+  });
+
+  it("excludes unpublished live records", async () => {
+    const kv = memoryStorage();
+    await kv.put(KEYS.post("later"), JSON.stringify(makePost({ slug: "later", status: "scheduled" })));
+    const report = await rebuildIndex(kv);
+    expect(report.indexed).toBe(0);
+  });
+});
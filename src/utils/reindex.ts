@@ -0,0 +1,115 @@
+// ============================================================================
+// AgentCMS — Index Rebuild & Consistency Check
+// ============================================================================
+//
+// Rebuilds the post index from the stored posts:<slug> records and reports
+// how the current index drifted from them. Used by the admin reindex
+// endpoint and the `agentcms reindex` CLI command.
+//
+// ============================================================================
+
+import type { AgentCMSPost, PostIndexEntry } from "../types.js";
+import { KEYS, kvKeys, getIndex, indexEntryFromPost, writeIndex } from "./kv.js";
+import { listAllKeys, type StorageAdapter } from "./storage.js";
+
+/** Posts fetched in parallel while scanning. */
+const READ_BATCH_SIZE = 50;
+
+export interface IndexRepairReport {
+  /** Live post records scanned (drafts excluded). */
+  scanned: number;
+  /** Entries in the rebuilt index. */
+  indexed: number;
+  /** Indexed slugs with no published post behind them. */
+  orphans: string[];
+  /** Published posts absent from the index. */
+  missing: string[];
+  /** Indexed slugs whose entry differs from the stored post. */
+  mismatches: Array<{ slug: string; fields: string[] }>;
+  dryRun: boolean;
+  /** True when the rebuilt index was written. */
+  repaired: boolean;
+}
+
+/**
+ * List the slugs of every live post key under the prefix.
+ */
+export async function listPostSlugs(
+  kv: StorageAdapter,
+  prefix?: string
+): Promise<string[]> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  const postPrefix = keys.post("");
+  const draftPrefix = keys.draft("");
+
+  const names = await listAllKeys(kv, postPrefix);
+  return names
+    .filter((name) => !name.startsWith(draftPrefix))
+    .filter((name) => name !== keys.index && !name.startsWith(`${keys.index}:`))
+    .map((name) => name.slice(postPrefix.length));
+}
+
+function diffEntry(current: PostIndexEntry, expected: PostIndexEntry): string[] {
+  const fields = new Set([...Object.keys(current), ...Object.keys(expected)]);
+  return [...fields].filter((field) => {
+    const a = current[field as keyof PostIndexEntry];
+    const b = expected[field as keyof PostIndexEntry];
+    return JSON.stringify(a ?? null) !== JSON.stringify(b ?? null);
+  });
+}
+
+/**
+ * Rebuild the index from stored posts and report drift. With dryRun the
+ * index is left untouched.
+ */
+export async function rebuildIndex(
+  kv: StorageAdapter,
+  options: { dryRun?: boolean; prefix?: string } = {}
+): Promise<IndexRepairReport> {
+  const { dryRun = false, prefix } = options;
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+
+  const slugs = await listPostSlugs(kv, prefix);
+  const posts: AgentCMSPost[] = [];
+  for (let i = 0; i < slugs.length; i += READ_BATCH_SIZE) {
+    const batch = await Promise.all(
+      slugs
+        .slice(i, i + READ_BATCH_SIZE)
+        .map((slug) => kv.get<AgentCMSPost>(keys.post(slug), "json"))
+    );
+    posts.push(...batch.filter((p): p is AgentCMSPost => p !== null));
+  }
+
+  const expected = posts
+    .filter((post) => post.status === "published")
+    .map(indexEntryFromPost);
+  const expectedBySlug = new Map(expected.map((entry) => [entry.slug, entry]));
+
+  const current = await getIndex(kv, prefix);
+  const currentBySlug = new Map(current.posts.map((entry) => [entry.slug, entry]));
+
+  const orphans = current.posts
+    .filter((entry) => !expectedBySlug.has(entry.slug))
+    .map((entry) => entry.slug);
+  const missing = expected
+    .filter((entry) => !currentBySlug.has(entry.slug))
+    .map((entry) => entry.slug);
+  const mismatches = expected.flatMap((entry) => {
+    const indexed = currentBySlug.get(entry.slug);
+    if (!indexed) return [];
+    const fields = diffEntry(indexed, entry);
+    return fields.length > 0 ? [{ slug: entry.slug, fields }] : [];
+  });
+
+  if (!dryRun) await writeIndex(kv, expected, prefix);
+
+  return {
+    scanned: posts.length,
+    indexed: expected.length,
+    orphans,
+    missing,
+    mismatches,
+    dryRun,
+    repaired: !dryRun,
+  };
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  recordRevision,
+  listRevisions,
+  getRevision,
+  diffPosts,
+  createRevisionId,
+} from "./revisions.js";
+import { memoryStorage } from "./storage.js";
+import type { AgentCMSPost } from "../types.js";
+
+function makePost(overrides: Partial<AgentCMSPost> = {}): AgentCMSPost {
+  return {
+    slug: "test-post",
+    title: "Test Post",
+    description: "A test post",
+    content: "# Test\n\nHello world.",
+    author: "TestAgent",
+    authorType: "agent",
+    tags: ["test"],
+    publishedAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:00:00.000Z",
+    status: "published",
+    metadata: {},
+    ...overrides,
+  };
+}
+
+const author = { name: "writer", keyHash: "abc", model: "test-model" };
+
+describe("createRevisionId", () => {
+  it("sorts chronologically", () => {
+    const a = createRevisionId(1_700_000_000_000);
+    const b = createRevisionId(1_700_000_000_001);
+    expect(a < b).toBe(true);
+    expect(a).toMatch(/^[a-z0-9]+-[a-f0-9]{4}$/);
+  });
+});
+
+describe("recordRevision", () => {
+  it("stores a snapshot with author metadata", async () => {
+    const kv = memoryStorage();
+    const summary = await recordRevision(kv, makePost(), "create", author);
+
+    expect(summary).toMatchObject({
+      slug: "test-post",
+      action: "create",
+      author: "writer",
+      keyHash: "abc",
+      model: "test-model",
+      title: "Test Post",
+    });
+    const revision = await getRevision(kv, "test-post", summary.id);
+    expect(revision?.post.content).toBe("# Test\n\nHello world.");
+  });
+
+  it("keeps revisions newest first and prunes beyond the limit", async () => {
+    const kv = memoryStorage();
+    const ids: string[] = [];
+    for (let i = 0; i < 4; i++) {
+      const summary = await recordRevision(kv, makePost({ title: `Title ${i}` }), "update", author, 3);
+      ids.push(summary.id);
+    }
+
+    const revisions = await listRevisions(kv, "test-post");
+    expect(revisions.map((r) => r.title)).toEqual(["Title 3", "Title 2", "Title 1"]);
+    expect(await getRevision(kv, "test-post", ids[0])).toBeNull();
+  });
+
+  it("isolates revisions by prefix", async () => {
+    const kv = memoryStorage();
+    await recordRevision(kv, makePost(), "create", author, 20, "site-a");
+    expect(await listRevisions(kv, "test-post", "site-b")).toEqual([]);
+    expect(await listRevisions(kv, "test-post", "site-a")).toHaveLength(1);
+  });
+});
+
+describe("diffPosts", () => {
+  it("reports changed fields and a content diff", () => {
+    const diff = diffPosts(
+      makePost(),
+      makePost({ title: "New Title", tags: ["test", "more"], content: "# Test\n\nHello there." })
+    );
+    expect(diff.fields).toEqual({
+      title: { from: "Test Post", to: "New Title" },
+      tags: { from: ["test"], to: ["test", "more"] },
+    });
+    expect(diff.content).toContain("-Hello world.");
+    expect(diff.content).toContain("+Hello there.");
+  });
+});
@@ -0,0 +1,196 @@
+// ============================================================================
+// AgentCMS — Post Revision History
+// ============================================================================
+//
+// Every agent write stores an immutable snapshot of the post:
+//
+//   revisions:<slug>        — PostRevisionSummary[] (newest first)
+//   revisions:<slug>:<id>   — PostRevision (full post snapshot)
+//
+// Only the newest `limit` revisions are kept; older snapshots are deleted
+// when a new one is recorded.
+//
+// ============================================================================
+
+import type {
+  AgentCMSPost,
+  PostRevision,
+  PostRevisionAction,
+  PostRevisionSummary,
+} from "../types.js";
+import { KEYS, kvKeys } from "./kv.js";
+import { diffLines, formatUnifiedDiff } from "./diff.js";
+import type { StorageAdapter } from "./storage.js";
+
+/** Revisions kept per post when AGENTCMS_REVISION_LIMIT is not set. */
+export const DEFAULT_REVISION_LIMIT = 20;
+
+export interface RevisionAuthor {
+  /** Agent key name. */
+  name: string;
+  keyHash?: string;
+  /** X-Agent-Model header value. */
+  model: string;
+}
+
+/** Fields compared individually when diffing two revisions. */
+export const DIFF_FIELDS = [
+  "title",
+  "description",
+  "tags",
+  "category",
+  "status",
+  "scheduledFor",
+  "featuredImage",
+  "ogImage",
+  "featured",
+  "noindex",
+  "canonicalUrl",
+  "metadata",
+] as const satisfies ReadonlyArray<keyof AgentCMSPost>;
+
+export interface PostDiff {
+  fields: Record<string, { from: unknown; to: unknown }>;
+  /** Unified diff of the markdown content; empty when unchanged. */
+  content: string;
+}
+
+/**
+ * Revision IDs sort chronologically: base36 timestamp plus a random suffix.
+ */
+export function createRevisionId(now = Date.now()): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(2));
+  const suffix = Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `${now.toString(36)}-${suffix}`;
+}
+
+export async function listRevisions(
+  kv: StorageAdapter,
+  slug: string,
+  prefix?: string
+): Promise<PostRevisionSummary[]> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  return (await kv.get<PostRevisionSummary[]>(keys.revisions(slug), "json")) || [];
+}
+
+export async function getRevision(
+  kv: StorageAdapter,
+  slug: string,
+  id: string,
+  prefix?: string
+): Promise<PostRevision | null> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  return kv.get<PostRevision>(keys.revision(slug, id), "json");
+}
+
+/**
+ * Snapshot a post and prune revisions beyond `limit`.
+ */
+export async function recordRevision(
+  kv: StorageAdapter,
+  post: AgentCMSPost,
+  action: PostRevisionAction,
+  author: RevisionAuthor,
+  limit = DEFAULT_REVISION_LIMIT,
+  prefix?: string
+): Promise<PostRevisionSummary> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  const summary: PostRevisionSummary = {
+    id: createRevisionId(),
+    slug: post.slug,
+    action,
+    createdAt: new Date().toISOString(),
+    author: author.name,
+    keyHash: author.keyHash,
+    model: author.model,
+    title: post.title,
+    status: post.status,
+  };
+
+  const revision: PostRevision = { ...summary, post };
+  await kv.put(keys.revision(post.slug, summary.id), JSON.stringify(revision));
+
+  const existing = await listRevisions(kv, post.slug, prefix);
+  const all = [summary, ...existing];
+  const kept = all.slice(0, Math.max(1, limit));
+  const dropped = all.slice(kept.length);
+
+  await kv.put(keys.revisions(post.slug), JSON.stringify(kept));
+  await Promise.all(dropped.map((r) => kv.delete(keys.revision(post.slug, r.id))));
+
+  return summary;
+}
+
+/**
+ * Carry a post's history over to a new slug after a rename. Snapshots keep
+ * the slug they were taken under; restoring one applies the current slug.
+ */
+export async function moveRevisions(
+  kv: StorageAdapter,
+  from: string,
+  to: string,
+  prefix?: string
+): Promise<void> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  const summaries = await listRevisions(kv, from, prefix);
+  if (summaries.length === 0) return;
+
+  const moved = summaries.map((s) => ({ ...s, slug: to }));
+  for (const summary of moved) {
+    const revision = await getRevision(kv, from, summary.id, prefix);
+    if (!revision) continue;
+    await kv.put(keys.revision(to, summary.id), JSON.stringify({ ...revision, slug: to }));
+  }
+  await kv.put(keys.revisions(to), JSON.stringify(moved));
+
+  await Promise.all(summaries.map((s) => kv.delete(keys.revision(from, s.id))));
+  await kv.delete(keys.revisions(from));
+}
+
+/**
+ * Field-level and line-level differences between two versions of a post.
+ */
+export function diffPosts(from: AgentCMSPost, to: AgentCMSPost): PostDiff {
+  const fields: PostDiff["fields"] = {};
+  for (const field of DIFF_FIELDS) {
+    if (JSON.stringify(from[field]) !== JSON.stringify(to[field])) {
+      fields[field] = { from: from[field] ?? null, to: to[field] ?? null };
+    }
+  }
+
+  return {
+    fields,
+    content: formatUnifiedDiff(diffLines(from.content, to.content)),
+  };
+}
+
+/**
+ * Replace a post's history with the given revisions, newest first, as
+ * restored from a site archive. Snapshots of the old history that are not
+ * among them are deleted.
+ */
+export async function putRevisionHistory(
+  kv: StorageAdapter,
+  slug: string,
+  revisions: PostRevision[],
+  prefix?: string
+): Promise<void> {
+  const keys = prefix ? kvKeys(prefix) : KEYS;
+  const previous = await listRevisions(kv, slug, prefix);
+
+  for (const revision of revisions) {
+    await kv.put(keys.revision(slug, revision.id), JSON.stringify({ ...revision, slug }));
+  }
+  const summaries: PostRevisionSummary[] = revisions.map(({ post: _post, ...summary }) => ({
+    ...summary,
+    slug,
+  }));
+  await kv.put(keys.revisions(slug), JSON.stringify(summaries));
+
+  const kept = new Set(revisions.map((r) => r.id));
+  await Promise.all(
+    previous.filter((s) => !kept.has(s.id)).map((s) => kv.delete(keys.revision(slug, s.id)))
+  );
+}
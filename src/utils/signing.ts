@@ -0,0 +1,153 @@
+// ============================================================================
+// AgentCMS — Signed Requests (HMAC-SHA256)
+// ============================================================================
+//
+// An alternative to sending the API key with every request. A key created
+// with signing enabled gets a signing secret; the agent signs each request
+// with it and sends:
+//
+//   Authorization: AgentCMS-HMAC-SHA256 keyId=<keyHash>, timestamp=<unix s>,
+//                  nonce=<16-64 chars>, signature=<hex>
+//
+// The signature is HMAC-SHA256(secret, canonical request), where the
+// canonical request is these lines joined by "\n":
+//
+//   METHOD            upper case
+//   PATH              path plus query string, as sent
+//   TIMESTAMP         the header's timestamp
+//   NONCE             the header's nonce
+//   BODY_SHA256       hex SHA-256 of the body (of "" when there is none)
+//
+// Timestamps more than SIGNATURE_MAX_SKEW_SECONDS away from the server clock
+// are refused, and each nonce is accepted once per key within that window.
+//
+// ============================================================================
+
+export const SIGNATURE_SCHEME = "AgentCMS-HMAC-SHA256";
+export const SIGNATURE_MAX_SKEW_SECONDS = 300;
+
+const NONCE_REGEX = /^[A-Za-z0-9_-]{16,64}$/;
+
+/** The parts of a request a signature covers, besides timestamp and nonce. */
+export interface SignedRequestParts {
+  method: string;
+  /** Path plus query string, e.g. "/api/agent/posts?limit=5". */
+  path: string;
+  /** Hex SHA-256 of the raw body. */
+  bodyHash: string;
+}
+
+export interface SignatureHeader {
+  keyId: string;
+  timestamp: number;
+  nonce: string;
+  signature: string;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(new ArrayBuffer(hex.length / 2));
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+function hmacKey(secret: string, usage: "sign" | "verify"): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    [usage]
+  );
+}
+
+export async function sha256Hex(body: ArrayBuffer | string): Promise<string> {
+  const data = typeof body === "string" ? new TextEncoder().encode(body) : body;
+  return toHex(await crypto.subtle.digest("SHA-256", data));
+}
+
+/** A random 32-byte signing secret, hex encoded. */
+export function generateSigningSecret(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes.buffer);
+}
+
+export function canonicalRequest(
+  parts: SignedRequestParts,
+  timestamp: number,
+  nonce: string
+): string {
+  return [parts.method.toUpperCase(), parts.path, String(timestamp), nonce, parts.bodyHash].join("\n");
+}
+
+/** Parse a signed Authorization header; null when it is not one or is malformed. */
+export function parseSignatureHeader(header: string | null): SignatureHeader | null {
+  if (!header?.startsWith(`${SIGNATURE_SCHEME} `)) return null;
+  const fields = new Map<string, string>();
+  for (const pair of header.slice(SIGNATURE_SCHEME.length + 1).split(",")) {
+    const eq = pair.indexOf("=");
+    if (eq > 0) fields.set(pair.slice(0, eq).trim(), pair.slice(eq + 1).trim());
+  }
+
+  const keyId = fields.get("keyId") ?? "";
+  const timestamp = Number(fields.get("timestamp"));
+  const nonce = fields.get("nonce") ?? "";
+  const signature = fields.get("signature") ?? "";
+  if (
+    !/^[a-f0-9]{64}$/.test(keyId) ||
+    !Number.isInteger(timestamp) ||
+    !NONCE_REGEX.test(nonce) ||
+    !/^[a-f0-9]{64}$/.test(signature)
+  ) {
+    return null;
+  }
+  return { keyId, timestamp, nonce, signature };
+}
+
+/** Whether the signature matches, compared in constant time. */
+export async function verifySignature(
+  secret: string,
+  header: SignatureHeader,
+  parts: SignedRequestParts
+): Promise<boolean> {
+  return crypto.subtle.verify(
+    "HMAC",
+    await hmacKey(secret, "verify"),
+    fromHex(header.signature),
+    new TextEncoder().encode(canonicalRequest(parts, header.timestamp, header.nonce))
+  );
+}
+
+/**
+ * Build the Authorization header for a request — the client side of the
+ * scheme, for agents written in TypeScript and for tests.
+ */
+export async function signRequest(options: {
+  keyId: string;
+  secret: string;
+  method: string;
+  path: string;
+  body?: string;
+  timestamp?: number;
+  nonce?: string;
+}): Promise<string> {
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+  const nonce = options.nonce ?? generateSigningSecret().slice(0, 32);
+  const parts = {
+    method: options.method,
+    path: options.path,
+    bodyHash: await sha256Hex(options.body ?? ""),
+  };
+  const mac = await crypto.subtle.sign(
+    "HMAC",
+    await hmacKey(options.secret, "sign"),
+    new TextEncoder().encode(canonicalRequest(parts, timestamp, nonce))
+  );
+  return `${SIGNATURE_SCHEME} keyId=${options.keyId}, timestamp=${timestamp}, nonce=${nonce}, signature=${toHex(mac)}`;
+}
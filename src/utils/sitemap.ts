@@ -1,5 +1,5 @@
 // ============================================================================
-// AgentCMS — Sitemap & Robots.txt Generation
+// AgentCMS — Sitemap, RSS & Robots.txt Generation
 // ============================================================================
 //
 // Pure functions — no KV or framework dependencies.
@@ -60,6 +60,54 @@ ${postEntries}
 </urlset>`;
 }
 
+export interface RssFeedOptions {
+  title?: string;
+  description?: string;
+  /** Base path for post URLs (default: "/blog") */
+  basePath?: string;
+}
+
+/**
+ * Generate an RSS 2.0 feed from post index entries, newest first as given.
+ */
+export function generateRssXml(
+  siteUrl: string,
+  posts: PostIndexEntry[],
+  options: RssFeedOptions = {}
+): string {
+  const { title = "Blog", description = "", basePath = "/blog" } = options;
+  const origin = siteUrl.replace(/\/$/, "");
+
+  const items = posts
+    .map((post) => {
+      const link = `${origin}${basePath}/${encodeURIComponent(post.slug)}`;
+      return `
+    <item>
+      <title><![CDATA[${post.title}]]></title>
+      <link>${link}</link>
+      <guid isPermaLink="true">${link}</guid>
+      <description><![CDATA[${post.description}]]></description>
+      <pubDate>${new Date(post.publishedAt).toUTCString()}</pubDate>
+      <author>${escapeXml(post.author)}</author>
+      ${post.tags.map((t) => `<category>${escapeXml(t)}</category>`).join("\n      ")}
+    </item>`;
+    })
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(title)}</title>
+    <description>${escapeXml(description)}</description>
+    <link>${origin}${basePath}</link>
+    <atom:link href="${origin}/feed.xml" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>
+    <generator>AgentCMS</generator>
+    ${items}
+  </channel>
+</rss>`;
+}
+
 /**
  * Generate a robots.txt string with Sitemap directives.
  */
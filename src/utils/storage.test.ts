@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { memoryStorage, kvStorage, listAllKeys } from "./storage.js";
+import { getPost, putPost } from "./kv.js";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ============================================================================
+// memoryStorage
+// ============================================================================
+
+describe("memoryStorage", () => {
+  it("round-trips text and json values", async () => {
+    const storage = memoryStorage();
+    await storage.put("a", JSON.stringify({ n: 1 }));
+    expect(await storage.get("a")).toBe('{"n":1}');
+    expect(await storage.get("a", "json")).toEqual({ n: 1 });
+    expect(await storage.get("missing")).toBeNull();
+  });
+
+  it("deletes keys", async () => {
+    const storage = memoryStorage({ a: "1" });
+    await storage.delete("a");
+    expect(await storage.get("a")).toBeNull();
+  });
+
+  it("expires keys after expirationTtl", async () => {
+    vi.useFakeTimers();
+    const storage = memoryStorage();
+    await storage.put("short", "1", { expirationTtl: 60 });
+    expect(await storage.get("short")).toBe("1");
+    vi.advanceTimersByTime(61_000);
+    expect(await storage.get("short")).toBeNull();
+  });
+
+  it("lists keys by prefix in sorted pages", async () => {
+    const storage = memoryStorage({ "posts:b": "", "posts:a": "", "posts:c": "", other: "" });
+    const first = await storage.list({ prefix: "posts:", limit: 2 });
+    expect(first.keys.map((k) => k.name)).toEqual(["posts:a", "posts:b"]);
+    expect(first.list_complete).toBe(false);
+
+    const second = await storage.list({ prefix: "posts:", limit: 2, cursor: first.cursor });
+    expect(second.keys.map((k) => k.name)).toEqual(["posts:c"]);
+    expect(second.list_complete).toBe(true);
+  });
+
+  it("works with the KV helpers", async () => {
+    const storage = memoryStorage();
+    const post = {
+      slug: "hello",
+      title: "Hello",
+      description: "",
+      content: "Hello",
+      author: "a",
+      authorType: "agent" as const,
+      tags: [],
+      publishedAt: "2025-01-01T00:00:00.000Z",
+      updatedAt: "2025-01-01T00:00:00.000Z",
+      status: "published" as const,
+      metadata: {},
+    };
+    await putPost(storage, post, "site");
+    expect(await getPost(storage, "hello", "site")).toEqual(post);
+  });
+});
+
+// ============================================================================
+// kvStorage
+// ============================================================================
+
+describe("kvStorage", () => {
+  it("delegates to the KV namespace and drops the cursor on the last page", async () => {
+    const kv = {
+      get: vi.fn(async (_key: string, type?: string) => (type === "json" ? { ok: true } : "raw")),
+      put: vi.fn(async () => {}),
+      delete: vi.fn(async () => {}),
+      list: vi.fn(async () => ({
+        keys: [{ name: "posts:a" }],
+        list_complete: true,
+        cacheStatus: null,
+      })),
+    } as unknown as KVNamespace;
+
+    const storage = kvStorage(kv);
+    expect(await storage.get("k")).toBe("raw");
+    expect(await storage.get("k", "json")).toEqual({ ok: true });
+    await storage.put("k", "v", { expirationTtl: 60 });
+    expect(kv.put).toHaveBeenCalledWith("k", "v", { expirationTtl: 60 });
+
+    const page = await storage.list({ prefix: "posts:" });
+    expect(page).toEqual({
+      keys: [{ name: "posts:a", expiration: undefined }],
+      list_complete: true,
+      cursor: undefined,
+    });
+  });
+});
+
+// ============================================================================
+// listAllKeys
+// ============================================================================
+
+describe("listAllKeys", () => {
+  it("follows cursors until the listing is complete", async () => {
+    const initial: Record<string, string> = {};
+    for (let i = 0; i < 2500; i++) initial[`k:${String(i).padStart(4, "0")}`] = "";
+    const storage = memoryStorage(initial);
+
+    const names = await listAllKeys(storage, "k:");
+    expect(names).toHaveLength(2500);
+    expect(names[0]).toBe("k:0000");
+    expect(names[2499]).toBe("k:2499");
+  });
+});
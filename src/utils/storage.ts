@@ -0,0 +1,224 @@
+// ============================================================================
+// AgentCMS — Storage Adapters
+// ============================================================================
+//
+// Every KV helper reads and writes through a StorageAdapter: a small
+// key/value contract modelled on the subset of KVNamespace AgentCMS uses.
+// Three implementations ship with the package:
+//
+//   kvStorage(env.AGENTCMS_KV)  — Cloudflare Workers KV (default)
+//   d1Storage(env.AGENTCMS_DB)  — Cloudflare D1 / SQLite, strongly consistent
+//   memoryStorage()             — in-process Map, for tests and local scripts
+//
+// ============================================================================
+
+export interface StoragePutOptions {
+  /** Seconds until the key expires. */
+  expirationTtl?: number;
+}
+
+export interface StorageListOptions {
+  prefix?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface StorageListResult {
+  keys: Array<{ name: string; expiration?: number }>;
+  list_complete: boolean;
+  cursor?: string;
+}
+
+export interface StorageAdapter {
+  get(key: string): Promise<string | null>;
+  get<T = unknown>(key: string, type: "json"): Promise<T | null>;
+  put(key: string, value: string, options?: StoragePutOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options?: StorageListOptions): Promise<StorageListResult>;
+}
+
+const DEFAULT_LIST_LIMIT = 1000;
+
+// --- Workers KV ---
+
+/**
+ * Wrap a Workers KV namespace. KV is eventually consistent: reads in other
+ * colos may lag a write by up to 60 seconds.
+ */
+export function kvStorage(kv: KVNamespace): StorageAdapter {
+  return {
+    get: ((key: string, type?: "json") =>
+      type === "json" ? kv.get(key, "json") : kv.get(key)) as StorageAdapter["get"],
+    put: (key, value, options) => kv.put(key, value, options),
+    delete: (key) => kv.delete(key),
+    async list(options = {}) {
+      const result = await kv.list(options);
+      return {
+        keys: result.keys.map((k) => ({ name: k.name, expiration: k.expiration })),
+        list_complete: result.list_complete,
+        cursor: result.list_complete ? undefined : result.cursor,
+      };
+    },
+  };
+}
+
+// --- In-memory ---
+
+/**
+ * In-process storage backed by a Map. Honours expirationTtl, so rate limits
+ * and other short-lived records behave as they would in KV.
+ */
+export function memoryStorage(
+  initial: Record<string, string> = {}
+): StorageAdapter {
+  const store = new Map<string, { value: string; expiresAt?: number }>(
+    Object.entries(initial).map(([key, value]) => [key, { value }])
+  );
+
+  function read(key: string): string | null {
+    const entry = store.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      store.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  return {
+    get: (async (key: string, type?: "json") => {
+      const value = read(key);
+      if (value === null) return null;
+      return type === "json" ? JSON.parse(value) : value;
+    }) as StorageAdapter["get"],
+    async put(key, value, options) {
+      const expiresAt = options?.expirationTtl
+        ? Date.now() + options.expirationTtl * 1000
+        : undefined;
+      store.set(key, { value, expiresAt });
+    },
+    async delete(key) {
+      store.delete(key);
+    },
+    async list({ prefix = "", limit = DEFAULT_LIST_LIMIT, cursor } = {}) {
+      const names = [...store.keys()]
+        .filter((name) => name.startsWith(prefix) && read(name) !== null)
+        .sort();
+      const start = cursor ? names.findIndex((name) => name > cursor) : 0;
+      const page = start === -1 ? [] : names.slice(start, start + limit);
+      const complete = start === -1 || start + limit >= names.length;
+      return {
+        keys: page.map((name) => {
+          const expiresAt = store.get(name)?.expiresAt;
+          return {
+            name,
+            expiration: expiresAt ? Math.floor(expiresAt / 1000) : undefined,
+          };
+        }),
+        list_complete: complete,
+        cursor: complete ? undefined : page[page.length - 1],
+      };
+    },
+  };
+}
+
+// --- D1 / SQLite ---
+
+/**
+ * Store AgentCMS data in a D1 (SQLite) table instead of KV. D1 is strongly
+ * consistent, so the post index and rate-limit counters never read stale
+ * values. The table is created on first use:
+ *
+ *   CREATE TABLE agentcms_kv (key TEXT PRIMARY KEY, value TEXT NOT NULL, expires_at INTEGER)
+ */
+export function d1Storage(
+  db: D1Database,
+  table = "agentcms_kv"
+): StorageAdapter {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+    throw new Error(`AgentCMS: invalid D1 table name "${table}"`);
+  }
+
+  let ready: Promise<unknown> | undefined;
+  function ensureTable(): Promise<unknown> {
+    ready ??= db
+      .prepare(
+        `CREATE TABLE IF NOT EXISTS ${table} (key TEXT PRIMARY KEY, value TEXT NOT NULL, expires_at INTEGER)`
+      )
+      .run();
+    return ready;
+  }
+
+  return {
+    get: (async (key: string, type?: "json") => {
+      await ensureTable();
+      const row = await db
+        .prepare(
+          `SELECT value FROM ${table} WHERE key = ?1 AND (expires_at IS NULL OR expires_at > ?2)`
+        )
+        .bind(key, Date.now())
+        .first<{ value: string }>();
+      if (!row) return null;
+      return type === "json" ? JSON.parse(row.value) : row.value;
+    }) as StorageAdapter["get"],
+    async put(key, value, options) {
+      await ensureTable();
+      const expiresAt = options?.expirationTtl
+        ? Date.now() + options.expirationTtl * 1000
+        : null;
+      await db
+        .prepare(
+          `INSERT INTO ${table} (key, value, expires_at) VALUES (?1, ?2, ?3)
+           ON CONFLICT(key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at`
+        )
+        .bind(key, value, expiresAt)
+        .run();
+    },
+    async delete(key) {
+      await ensureTable();
+      await db.prepare(`DELETE FROM ${table} WHERE key = ?1`).bind(key).run();
+    },
+    async list({ prefix = "", limit = DEFAULT_LIST_LIMIT, cursor } = {}) {
+      await ensureTable();
+      const { results } = await db
+        .prepare(
+          `SELECT key, expires_at FROM ${table}
+           WHERE substr(key, 1, length(?1)) = ?1 AND key > ?2
+             AND (expires_at IS NULL OR expires_at > ?3)
+           ORDER BY key LIMIT ?4`
+        )
+        .bind(prefix, cursor ?? "", Date.now(), limit + 1)
+        .all<{ key: string; expires_at: number | null }>();
+      const page = results.slice(0, limit);
+      const complete = results.length <= limit;
+      return {
+        keys: page.map((row) => ({
+          name: row.key,
+          expiration: row.expires_at ? Math.floor(row.expires_at / 1000) : undefined,
+        })),
+        list_complete: complete,
+        cursor: complete ? undefined : page[page.length - 1]?.key,
+      };
+    },
+  };
+}
+
+// --- Helpers ---
+
+/**
+ * List every key under a prefix, following cursors until the listing is
+ * complete.
+ */
+export async function listAllKeys(
+  storage: StorageAdapter,
+  prefix: string
+): Promise<string[]> {
+  const names: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await storage.list({ prefix, cursor });
+    names.push(...page.keys.map((k) => k.name));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return names;
+}
@@ -4,6 +4,7 @@
 
 import type { AgentCMSPost } from "../types.js";
 import { getConfig } from "./kv.js";
+import type { StorageAdapter } from "./storage.js";
 
 export type WebhookEvent = "post.published" | "post.updated" | "post.deleted";
 
@@ -16,19 +17,23 @@ export interface WebhookPayload {
     author: string;
     status: string;
     url?: string;
+    /** Content type; unset for blog posts. */
+    type?: string;
   };
 }
 
 /**
  * Send a webhook notification if configured. Fire-and-forget — never blocks
- * the API response or throws.
+ * the API response or throws. `prefix` is the site's, where the webhook URL
+ * is configured; entries of a content type pass its name and base path.
  */
 export async function sendWebhook(
-  kv: KVNamespace,
+  kv: StorageAdapter,
   event: WebhookEvent,
   post: AgentCMSPost,
   siteUrl?: string,
-  prefix?: string
+  prefix?: string,
+  target: { type?: string; basePath?: string } = {}
 ): Promise<void> {
   try {
     const kvConfig = await getConfig(kv, prefix);
@@ -37,7 +42,7 @@ export async function sendWebhook(
     const webhookUrl = config?.moderation?.notifyOnPublish;
     if (!webhookUrl) return;
 
-    const basePath = globalThis.__AGENTCMS_CONFIG__?.basePath || "/blog";
+    const basePath = target.basePath ?? (globalThis.__AGENTCMS_CONFIG__?.basePath || "/blog");
 
     const payload: WebhookPayload = {
       event,
@@ -48,6 +53,7 @@ export async function sendWebhook(
         author: post.author,
         status: post.status,
         url: siteUrl ? `${siteUrl}${basePath}/${post.slug}` : undefined,
+        ...(target.type ? { type: target.type } : {}),
       },
     };
 